@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import type { ParquetRow } from "@parquetlens/parquet-reader";
+
+import { diffRows, formatDiffKey, type DiffChange, type DiffOptions } from "./diff.js";
+
+async function* rowsOf(rows: ParquetRow[]): AsyncGenerator<ParquetRow> {
+  yield* rows;
+}
+
+async function collectDiff(left: ParquetRow[], right: ParquetRow[], options: DiffOptions) {
+  const changes: DiffChange[] = [];
+  const summary = await diffRows(rowsOf(left), rowsOf(right), options, (change) => {
+    changes.push(change);
+  });
+  return { changes, summary };
+}
+
+describe("diffRows", () => {
+  it("matches rows by key and reports changed columns", async () => {
+    const { changes, summary } = await collectDiff(
+      [
+        { id: 1n, city: "Seattle", score: 1 },
+        { id: 2n, city: "Portland", score: 2 },
+        { id: 3n, city: "Boston", score: 3 },
+      ],
+      [
+        { id: 4n, city: "Austin", score: 4 },
+        { id: 2n, city: "Eugene", score: 2 },
+        { id: 1n, city: "Seattle", score: 1 },
+      ],
+      { key: ["id"], columns: ["city", "score"] },
+    );
+
+    expect(changes.map((change) => [change.type, formatDiffKey(change.key)])).toEqual([
+      ["added", "id=4"],
+      ["changed", "id=2"],
+      ["removed", "id=3"],
+    ]);
+    expect(changes[1]).toMatchObject({ columns: ["city"] });
+    expect(summary).toEqual({
+      leftRows: 3,
+      rightRows: 3,
+      added: 1,
+      removed: 1,
+      changed: 1,
+      unchanged: 1,
+      changedColumns: { city: 1, score: 0 },
+    });
+  });
+
+  it("compares by position when no key is given", async () => {
+    const { changes, summary } = await collectDiff(
+      [{ value: new Uint8Array([1, 2]) }, { value: null }],
+      [{ value: new Uint8Array([1, 2]) }, { value: undefined }, { value: "extra" }],
+      { key: [], columns: ["value"] },
+    );
+
+    expect(changes).toEqual([{ type: "added", key: { row: 2 }, row: { value: "extra" } }]);
+    expect(summary).toMatchObject({ leftRows: 2, rightRows: 3, unchanged: 2 });
+  });
+
+  it("rejects duplicate keys", async () => {
+    await expect(
+      collectDiff(
+        [
+          { id: 1, region: null },
+          { id: 1, region: null },
+        ],
+        [],
+        { key: ["id", "region"], columns: [] },
+      ),
+    ).rejects.toThrow("duplicate key in first file: id=1, region=null");
+  });
+});
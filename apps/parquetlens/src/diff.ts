@@ -0,0 +1,180 @@
+import type { ParquetRow } from "@parquetlens/parquet-reader";
+
+import { valueKey } from "./formatting.js";
+
+export type DiffOptions = {
+  /** Key columns matching rows across files; empty compares rows by position. */
+  key: string[];
+  /** Columns compared for changes. */
+  columns: string[];
+};
+
+/** Key values of a row, or `{ row: <index> }` when comparing by position. */
+export type DiffKey = Record<string, unknown>;
+
+export type DiffChange =
+  | { type: "added"; key: DiffKey; row: ParquetRow }
+  | { type: "removed"; key: DiffKey; row: ParquetRow }
+  | { type: "changed"; key: DiffKey; columns: string[]; left: ParquetRow; right: ParquetRow };
+
+export type DiffSummary = {
+  leftRows: number;
+  rightRows: number;
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  /** Number of changed rows per column, in compared-column order. */
+  changedColumns: Record<string, number>;
+};
+
+type ChangeHandler = (change: DiffChange) => void | Promise<void>;
+
+/**
+ * Compare two row streams and report each added, removed and changed row.
+ *
+ * By key, the left rows are indexed in memory and the right rows are streamed
+ * against them, so memory grows with the left file only. Without a key both
+ * streams are walked in lockstep in constant memory.
+ */
+export async function diffRows(
+  left: AsyncIterable<ParquetRow>,
+  right: AsyncIterable<ParquetRow>,
+  options: DiffOptions,
+  onChange: ChangeHandler,
+): Promise<DiffSummary> {
+  const summary: DiffSummary = {
+    leftRows: 0,
+    rightRows: 0,
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0,
+    changedColumns: Object.fromEntries(options.columns.map((name) => [name, 0])),
+  };
+
+  const report = async (change: DiffChange) => {
+    if (change.type === "changed") {
+      summary.changed += 1;
+      for (const name of change.columns) {
+        summary.changedColumns[name] += 1;
+      }
+    } else {
+      summary[change.type] += 1;
+    }
+    await onChange(change);
+  };
+
+  const compare = async (key: DiffKey, leftRow: ParquetRow, rightRow: ParquetRow) => {
+    const columns = findChangedColumns(leftRow, rightRow, options.columns);
+    if (columns.length === 0) {
+      summary.unchanged += 1;
+      return;
+    }
+    await report({ type: "changed", key, columns, left: leftRow, right: rightRow });
+  };
+
+  if (options.key.length === 0) {
+    const leftRows = left[Symbol.asyncIterator]();
+    const rightRows = right[Symbol.asyncIterator]();
+    for (let index = 0; ; index += 1) {
+      const [leftNext, rightNext] = await Promise.all([leftRows.next(), rightRows.next()]);
+      if (leftNext.done && rightNext.done) {
+        break;
+      }
+      const key = { row: index };
+      if (!leftNext.done) {
+        summary.leftRows += 1;
+      }
+      if (!rightNext.done) {
+        summary.rightRows += 1;
+      }
+      if (leftNext.done) {
+        await report({ type: "added", key, row: rightNext.value });
+      } else if (rightNext.done) {
+        await report({ type: "removed", key, row: leftNext.value });
+      } else {
+        await compare(key, leftNext.value, rightNext.value);
+      }
+    }
+    return summary;
+  }
+
+  const indexed = new Map<string, ParquetRow>();
+  for await (const row of left) {
+    summary.leftRows += 1;
+    const id = keyId(row, options.key);
+    if (indexed.has(id)) {
+      throw new Error(`duplicate key in first file: ${formatDiffKey(pickKey(row, options.key))}`);
+    }
+    indexed.set(id, row);
+  }
+
+  const seen = new Set<string>();
+  for await (const row of right) {
+    summary.rightRows += 1;
+    const id = keyId(row, options.key);
+    if (seen.has(id)) {
+      throw new Error(`duplicate key in second file: ${formatDiffKey(pickKey(row, options.key))}`);
+    }
+    seen.add(id);
+
+    const match = indexed.get(id);
+    if (match === undefined) {
+      await report({ type: "added", key: pickKey(row, options.key), row });
+      continue;
+    }
+    indexed.delete(id);
+    await compare(pickKey(row, options.key), match, row);
+  }
+
+  for (const row of indexed.values()) {
+    await report({ type: "removed", key: pickKey(row, options.key), row });
+  }
+
+  return summary;
+}
+
+export function findChangedColumns(
+  left: ParquetRow,
+  right: ParquetRow,
+  columns: string[],
+): string[] {
+  return columns.filter((name) => !valuesEqual(left[name], right[name]));
+}
+
+/** Render a key as `id=3, region=EU`, or `row 3` for positional diffs. */
+export function formatDiffKey(key: DiffKey): string {
+  if ("row" in key && Object.keys(key).length === 1 && typeof key.row === "number") {
+    return `row ${key.row}`;
+  }
+  return Object.entries(key)
+    .map(
+      ([name, value]) =>
+        `${name}=${value === null || value === undefined ? "null" : valueKey(value)}`,
+    )
+    .join(", ");
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  const leftNull = left === null || left === undefined;
+  const rightNull = right === null || right === undefined;
+  if (leftNull || rightNull) {
+    return leftNull && rightNull;
+  }
+  return valueKey(left) === valueKey(right);
+}
+
+function pickKey(row: ParquetRow, key: string[]): DiffKey {
+  return Object.fromEntries(key.map((name) => [name, row[name]]));
+}
+
+function keyId(row: ParquetRow, key: string[]): string {
+  // JSON keeps compound keys unambiguous and tells null apart from "null".
+  return JSON.stringify(
+    key.map((name) => {
+      const value = row[name];
+      return value === null || value === undefined ? null : valueKey(value);
+    }),
+  );
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_VALUE_ENCODING, encodeRow, encodeValue } from "./encoding.js";
+
+describe("encodeValue", () => {
+  it("encodes bigint as strings by default and as numbers when safe", () => {
+    expect(encodeValue(42n, DEFAULT_VALUE_ENCODING)).toBe("42");
+
+    const asNumber = { ...DEFAULT_VALUE_ENCODING, bigint: "number" as const };
+    expect(encodeValue(42n, asNumber)).toBe(42);
+    expect(encodeValue(2n ** 60n, asNumber)).toBe("1152921504606846976");
+  });
+
+  it("encodes binary as base64, hex or utf8", () => {
+    const bytes = new TextEncoder().encode("hi!");
+
+    expect(encodeValue(bytes, DEFAULT_VALUE_ENCODING)).toBe("aGkh");
+    expect(encodeValue(bytes, { ...DEFAULT_VALUE_ENCODING, binary: "hex" })).toBe("686921");
+    expect(encodeValue(bytes, { ...DEFAULT_VALUE_ENCODING, binary: "utf8" })).toBe("hi!");
+  });
+
+  it("encodes timestamps as ISO strings or epoch milliseconds", () => {
+    const date = new Date(Date.UTC(2024, 0, 2, 3, 4, 5));
+
+    expect(encodeValue(date, DEFAULT_VALUE_ENCODING)).toBe("2024-01-02T03:04:05.000Z");
+    expect(encodeValue(date, { ...DEFAULT_VALUE_ENCODING, timestamps: "epoch" })).toBe(
+      1704164645000,
+    );
+  });
+
+  it("keeps nested lists and structs structured", () => {
+    const value = { tags: ["a", null], point: { x: 1n, at: new Date(0) } };
+
+    expect(encodeValue(value, DEFAULT_VALUE_ENCODING)).toEqual({
+      tags: ["a", null],
+      point: { x: "1", at: "1970-01-01T00:00:00.000Z" },
+    });
+  });
+
+  it("encodes typed arrays as lists and data views as binary", () => {
+    expect(encodeValue(new Float64Array([1.5, 2]), DEFAULT_VALUE_ENCODING)).toEqual([1.5, 2]);
+    expect(encodeValue(new BigInt64Array([3n]), DEFAULT_VALUE_ENCODING)).toEqual(["3"]);
+    expect(
+      encodeValue(new DataView(new Uint8Array([104, 105]).buffer), DEFAULT_VALUE_ENCODING),
+    ).toBe("aGk=");
+  });
+
+  it("keeps non-finite numbers visible", () => {
+    expect(encodeValue(Number.NaN, DEFAULT_VALUE_ENCODING)).toBe("NaN");
+    expect(encodeValue(-Infinity, DEFAULT_VALUE_ENCODING)).toBe("-Infinity");
+  });
+});
+
+describe("encodeRow", () => {
+  it("projects the requested columns and fills missing values with null", () => {
+    expect(encodeRow({ id: 1n, extra: true }, ["id", "missing"], DEFAULT_VALUE_ENCODING)).toEqual({
+      id: "1",
+      missing: null,
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Buffer } from "node:buffer";
+
+export type BigIntEncoding = "string" | "number";
+export type BinaryEncoding = "base64" | "hex" | "utf8";
+export type TimestampEncoding = "iso" | "epoch";
+
+export type ValueEncoding = {
+  /** `number` keeps values inside the safe integer range as numbers, others as strings. */
+  bigint: BigIntEncoding;
+  binary: BinaryEncoding;
+  /** `epoch` is milliseconds since the Unix epoch. */
+  timestamps: TimestampEncoding;
+};
+
+export type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+export const DEFAULT_VALUE_ENCODING: ValueEncoding = {
+  bigint: "string",
+  binary: "base64",
+  timestamps: "iso",
+};
+
+export const BIGINT_ENCODINGS: BigIntEncoding[] = ["string", "number"];
+export const BINARY_ENCODINGS: BinaryEncoding[] = ["base64", "hex", "utf8"];
+export const TIMESTAMP_ENCODINGS: TimestampEncoding[] = ["iso", "epoch"];
+
+const MAX_SAFE_BIGINT = BigInt(Number.MAX_SAFE_INTEGER);
+const MIN_SAFE_BIGINT = BigInt(Number.MIN_SAFE_INTEGER);
+
+/**
+ * Convert a decoded parquet value into a JSON-safe value. Nested lists and
+ * structs stay structured instead of being stringified.
+ */
+export function encodeValue(value: unknown, encoding: ValueEncoding): JsonValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === "bigint") {
+    if (encoding.bigint === "number" && value <= MAX_SAFE_BIGINT && value >= MIN_SAFE_BIGINT) {
+      return Number(value);
+    }
+    return value.toString();
+  }
+
+  if (typeof value === "number") {
+    // JSON has no NaN/Infinity; keep them visible instead of collapsing to null.
+    return Number.isFinite(value) ? value : String(value);
+  }
+
+  if (typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      return null;
+    }
+    return encoding.timestamps === "epoch" ? value.getTime() : value.toISOString();
+  }
+
+  if (value instanceof Uint8Array) {
+    const buffer = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    return buffer.toString(encoding.binary);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => encodeValue(item, encoding));
+  }
+
+  if (value instanceof Map) {
+    const encoded: { [key: string]: JsonValue } = {};
+    for (const [key, item] of value) {
+      encoded[String(key)] = encodeValue(item, encoding);
+    }
+    return encoded;
+  }
+
+  if (value instanceof Set) {
+    return Array.from(value, (item) => encodeValue(item, encoding));
+  }
+
+  if (ArrayBuffer.isView(value)) {
+    if (isTypedArray(value)) {
+      const items: ArrayLike<number | bigint> = value;
+      return Array.from(items, (item) => encodeValue(item, encoding));
+    }
+    // A DataView has no elements of its own; encode the bytes it covers.
+    return encodeValue(new Uint8Array(value.buffer, value.byteOffset, value.byteLength), encoding);
+  }
+
+  if (typeof value === "object") {
+    const encoded: { [key: string]: JsonValue } = {};
+    for (const [key, item] of Object.entries(value)) {
+      encoded[key] = encodeValue(item, encoding);
+    }
+    return encoded;
+  }
+
+  return String(value);
+}
+
+function isTypedArray(value: ArrayBufferView): value is NodeJS.TypedArray {
+  return !(value instanceof DataView);
+}
+
+export function encodeRow(
+  row: Record<string, unknown>,
+  columns: string[],
+  encoding: ValueEncoding,
+): { [key: string]: JsonValue } {
+  const encoded: { [key: string]: JsonValue } = {};
+  for (const name of columns) {
+    encoded[name] = encodeValue(row[name], encoding);
+  }
+  return encoded;
+}
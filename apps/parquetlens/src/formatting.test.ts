@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { safeStringify } from "./formatting.js";
+import { formatSchemaNodeDetails, safeStringify } from "./formatting.js";
 
 describe("safeStringify", () => {
   it("renders bigint arrays as JSON-friendly strings", () => {
@@ -15,3 +15,36 @@ describe("safeStringify", () => {
     expect(safeStringify(value)).toBe("[{\"tags\":{\"alpha\":\"beta\"}}]");
   });
 });
+
+describe("formatSchemaNodeDetails", () => {
+  it("includes physical type, repetition, levels and field id", () => {
+    expect(
+      formatSchemaNodeDetails({
+        name: "element",
+        path: ["tags", "list", "element"],
+        type: "STRING",
+        repetition: "OPTIONAL",
+        physicalType: "BYTE_ARRAY",
+        fieldId: 3,
+        maxDefinitionLevel: 3,
+        maxRepetitionLevel: 1,
+        children: [],
+      }),
+    ).toBe("BYTE_ARRAY, optional, def 3, rep 1, id 3");
+  });
+
+  it("omits the physical type when it matches the display type", () => {
+    expect(
+      formatSchemaNodeDetails({
+        name: "id",
+        path: ["id"],
+        type: "INT64",
+        repetition: "REQUIRED",
+        physicalType: "INT64",
+        maxDefinitionLevel: 0,
+        maxRepetitionLevel: 0,
+        children: [],
+      }),
+    ).toBe("required, def 0, rep 0");
+  });
+});
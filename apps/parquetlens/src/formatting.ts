@@ -1,3 +1,6 @@
+import type { ParquetSchemaNode } from "@parquetlens/parquet-reader";
+import { Buffer } from "node:buffer";
+
 export function safeStringify(value: unknown): string {
   try {
     return (
@@ -29,3 +32,52 @@ export function safeStringify(value: unknown): string {
     return String(value);
   }
 }
+
+/**
+ * Canonical string for a decoded value, used to count and compare values: equal
+ * values always produce the same key.
+ */
+export function valueKey(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "number" || typeof value === "bigint" || typeof value === "boolean") {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString("hex");
+  }
+  return safeStringify(value);
+}
+
+/** Collapse whitespace and cut `value` to `width` characters, marking the cut with `...`. */
+export function truncateText(value: string, width: number): string {
+  const normalized = value.replace(/\s+/g, " ");
+  return normalized.length > width ? `${normalized.slice(0, width - 3)}...` : normalized;
+}
+
+/**
+ * Summarize a schema node's physical type, repetition, max definition/repetition
+ * levels and field id, e.g. `BYTE_ARRAY, optional, def 1, rep 0, id 3`.
+ */
+export function formatSchemaNodeDetails(node: ParquetSchemaNode): string {
+  const parts: string[] = [];
+  if (node.physicalType && node.physicalType !== node.type) {
+    parts.push(
+      node.typeLength !== undefined
+        ? `${node.physicalType}(${node.typeLength})`
+        : node.physicalType,
+    );
+  }
+  if (node.repetition) {
+    parts.push(node.repetition.toLowerCase());
+  }
+  parts.push(`def ${node.maxDefinitionLevel}`, `rep ${node.maxRepetitionLevel}`);
+  if (node.fieldId !== undefined) {
+    parts.push(`id ${node.fieldId}`);
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import type { ParquetColumnChunkLayout, ParquetLayout } from "@parquetlens/parquet-reader";
+
+import { buildBytesRows, buildLayoutRows, formatBytesSummary } from "./layout-report.js";
+
+function chunk(name: string, start: bigint, bytes: bigint): ParquetColumnChunkLayout {
+  const range = { start, bytes, end: start + bytes };
+  return { name, path: name.split("."), bytes, totalRange: range, dataRange: range };
+}
+
+const LAYOUT: ParquetLayout = {
+  magic: { start: 0n, bytes: 4n, end: 4n },
+  rowGroups: [
+    {
+      index: 0,
+      bytes: 400n,
+      numRows: 10n,
+      columns: [chunk("id", 4n, 100n), chunk("city", 104n, 300n)],
+    },
+    {
+      index: 1,
+      bytes: 600n,
+      numRows: 10n,
+      columns: [chunk("id", 404n, 100n), chunk("city", 504n, 500n)],
+    },
+  ],
+};
+
+describe("buildLayoutRows", () => {
+  it("lists column chunks of the selected row groups and columns", () => {
+    const rows = buildLayoutRows(LAYOUT, { rowGroups: [1], columns: ["city"] }, true);
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        group: 1,
+        column: "city",
+        bytes: "500",
+        "% group": "83.3%",
+        data: "504+500",
+      }),
+    ]);
+  });
+});
+
+describe("buildBytesRows", () => {
+  it("totals bytes per column across row groups", () => {
+    expect(buildBytesRows(LAYOUT, {}, false)).toEqual([
+      { column: "id", bytes: 200n, percent: 20, rowGroupBytes: [100n, 100n] },
+      { column: "city", bytes: 800n, percent: 80, rowGroupBytes: [300n, 500n] },
+    ]);
+    expect(buildBytesRows(LAYOUT, { columns: ["id"] }, true)).toEqual([
+      { column: "id", size: "200 B", bytes: "200", "% of file": "20.0%", share: "██████" },
+    ]);
+    expect(formatBytesSummary(LAYOUT, {})).toBe(
+      "total 1000 B | 2 row groups | 2 columns | largest: city (80.0%)",
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import type {
+  ParquetByteRange,
+  ParquetColumnChunkLayout,
+  ParquetLayout,
+} from "@parquetlens/parquet-reader";
+
+import {
+  buildBytesModel,
+  buildColumnTotals,
+  computeBytesSummary,
+  formatBigInt,
+  formatBytes,
+  formatPercent,
+  formatStatisticsSummary,
+  scaleWidth,
+} from "./tui/utils.js";
+
+export type LayoutReportOptions = {
+  /** Only report these row groups (0-based). */
+  rowGroups?: number[];
+  /** Only report these top-level columns. */
+  columns?: string[];
+};
+
+export const LAYOUT_JSON_FIELDS = [
+  "rowGroup",
+  "rowGroupRows",
+  "rowGroupBytes",
+  "column",
+  "path",
+  "compression",
+  "numValues",
+  "bytes",
+  "total",
+  "dictionary",
+  "data",
+  "columnIndex",
+  "offsetIndex",
+  "statistics",
+];
+
+export const LAYOUT_TABLE_FIELDS = [
+  "group",
+  "column",
+  "codec",
+  "values",
+  "bytes",
+  "% group",
+  "dictionary",
+  "data",
+  "stats",
+];
+
+export const BYTES_JSON_FIELDS = ["column", "bytes", "percent", "rowGroupBytes"];
+
+export const BYTES_TABLE_FIELDS = ["column", "size", "bytes", "% of file", "share"];
+
+const SHARE_BAR_WIDTH = 24;
+
+/** One line per column chunk, as in the layout tab. `flat` rows hold display strings for text formats. */
+export function buildLayoutRows(
+  layout: ParquetLayout,
+  options: LayoutReportOptions,
+  flat: boolean,
+): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+  for (const rowGroup of selectRowGroups(layout, options)) {
+    for (const chunk of selectChunks(rowGroup.columns, options)) {
+      if (flat) {
+        rows.push({
+          group: rowGroup.index,
+          column: chunk.name,
+          codec: chunk.compression,
+          values: chunk.numValues,
+          bytes: formatBigInt(chunk.bytes),
+          "% group": formatPercent(chunk.bytes, rowGroup.bytes),
+          dictionary: chunk.dictionaryRange ? formatRange(chunk.dictionaryRange) : undefined,
+          data: formatRange(chunk.dataRange),
+          stats: chunk.statistics ? formatStatisticsSummary(chunk.statistics) : undefined,
+        });
+        continue;
+      }
+      rows.push({
+        rowGroup: rowGroup.index,
+        rowGroupRows: rowGroup.numRows ?? null,
+        rowGroupBytes: rowGroup.bytes,
+        column: chunk.name,
+        path: chunk.path,
+        compression: chunk.compression ?? null,
+        numValues: chunk.numValues ?? null,
+        bytes: chunk.bytes,
+        total: chunk.totalRange,
+        dictionary: chunk.dictionaryRange ?? null,
+        data: chunk.dataRange,
+        columnIndex: chunk.columnIndexRange ?? null,
+        offsetIndex: chunk.offsetIndexRange ?? null,
+        statistics: chunk.statistics ?? null,
+      });
+    }
+  }
+  return rows;
+}
+
+/** Bytes per column across the selected row groups, as in the bytes tab totals view. */
+export function buildBytesRows(
+  layout: ParquetLayout,
+  options: LayoutReportOptions,
+  flat: boolean,
+): Record<string, unknown>[] {
+  const model = buildBytesModel({ ...layout, rowGroups: selectRowGroups(layout, options) });
+  if (!model) {
+    return [];
+  }
+  const totals = buildColumnTotals(model);
+  const { totalBytes } = computeBytesSummary(model, totals);
+  const largest = totals.reduce(
+    (max, column) => (column.totalBytes > max ? column.totalBytes : max),
+    0n,
+  );
+  const selected = options.columns && options.columns.length > 0 ? options.columns : null;
+
+  return totals
+    .filter((column) => !selected || selected.includes(column.name))
+    .map((column) => {
+      const percent = formatPercent(column.totalBytes, totalBytes);
+      if (flat) {
+        return {
+          column: column.name,
+          size: formatBytes(column.totalBytes),
+          bytes: formatBigInt(column.totalBytes),
+          "% of file": percent,
+          share: "█".repeat(scaleWidth(column.totalBytes, largest, SHARE_BAR_WIDTH)),
+        };
+      }
+      return {
+        column: column.name,
+        bytes: column.totalBytes,
+        percent: Number.parseFloat(percent),
+        rowGroupBytes: model.rows.map((row) => row.chunksByColumn[column.columnIndex]?.bytes ?? 0n),
+      };
+    });
+}
+
+/** Header line for the bytes report, matching the bytes tab summary. */
+export function formatBytesSummary(layout: ParquetLayout, options: LayoutReportOptions): string {
+  const model = buildBytesModel({ ...layout, rowGroups: selectRowGroups(layout, options) });
+  if (!model) {
+    return "no row groups";
+  }
+  const summary = computeBytesSummary(model, buildColumnTotals(model));
+  const largest = summary.largestColumn
+    ? ` | largest: ${summary.largestColumn.name} (${summary.largestColumn.percent})`
+    : "";
+  return `total ${formatBytes(summary.totalBytes)} | ${summary.rowGroupCount} row groups | ${summary.columnCount} columns${largest}`;
+}
+
+function selectRowGroups(layout: ParquetLayout, options: LayoutReportOptions) {
+  const selected = options.rowGroups && options.rowGroups.length > 0 ? options.rowGroups : null;
+  return selected
+    ? layout.rowGroups.filter((rowGroup) => selected.includes(rowGroup.index))
+    : layout.rowGroups;
+}
+
+function selectChunks(chunks: ParquetColumnChunkLayout[], options: LayoutReportOptions) {
+  const selected = options.columns && options.columns.length > 0 ? options.columns : null;
+  return selected
+    ? chunks.filter((chunk) => selected.includes(chunk.path[0] ?? chunk.name))
+    : chunks;
+}
+
+function formatRange(range: ParquetByteRange): string {
+  return `${formatBigInt(range.start)}+${formatBigInt(range.bytes)}`;
+}
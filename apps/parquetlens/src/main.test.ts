@@ -1,11 +1,19 @@
 import { beforeAll, describe, it, expect } from "vitest";
 import { spawn, spawnSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const CLI_PATH = path.join(__dirname, "../dist/main.js");
 const FIXTURE_PATH = path.join(__dirname, "../test/fixtures/sample.parquet");
+const NESTED_FIXTURE_PATH = path.join(__dirname, "../test/fixtures/nested.parquet");
+const ROW_GROUPS_FIXTURE_PATH = path.join(__dirname, "../test/fixtures/row-groups.parquet");
+const CHANGED_FIXTURE_PATH = path.join(__dirname, "../test/fixtures/sample-changed.parquet");
+const DRIFT_FIXTURE_PATH = path.join(__dirname, "../test/fixtures/schema-drift.parquet");
+const DECIMAL_FIXTURE_PATH = path.join(__dirname, "../test/fixtures/decimal.parquet");
 const sqlEnabled = process.env.PARQUETLENS_SQL_TESTS === "1";
 const describeSql = sqlEnabled ? describe : describe.skip;
 
@@ -127,6 +135,559 @@ describe("local parquet fixture", () => {
     expect(rows.length).toBeGreaterThan(0);
     expect(rows[0]?.city).toBe("Seattle");
   });
+
+  it("prints column statistics with --schema", async () => {
+    const { stdout, code } = await runCli([FIXTURE_PATH, "--schema"]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("1. id: INT64 (optional, def 1, rep 0)  [min 1, max 3, nulls 0]");
+    expect(stdout).toContain(
+      "city: STRING (BYTE_ARRAY, optional, def 1, rep 0)  [min Portland, max Seattle, nulls 0]",
+    );
+  });
+
+  it("prints nested fields as an indented tree with --schema", async () => {
+    const { stdout, code } = await runCli([NESTED_FIXTURE_PATH, "--schema"]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("2. tags: LIST (optional, def 1, rep 0, id 2)\n");
+    expect(stdout).toContain("   - list: GROUP (repeated, def 2, rep 1)\n");
+    expect(stdout).toContain("     - element: STRING (BYTE_ARRAY, optional, def 3, rep 1, id 3)");
+    expect(stdout).toContain("   - y: DOUBLE (optional, def 2, rep 0, id 6)");
+  });
+
+  it("shows logical type parameters in schema and table headers", async () => {
+    const schema = await runCli([ROW_GROUPS_FIXTURE_PATH, "--schema"]);
+
+    expect(schema.code).toBe(0);
+    expect(schema.stdout).toContain("3. amount: DECIMAL(9,2) (INT32, required, def 0, rep 0)");
+    expect(schema.stdout).toContain("4. created: TIMESTAMP(MILLIS, UTC) (INT64, required");
+
+    const table = await runCli([ROW_GROUPS_FIXTURE_PATH, "--plain", "--limit", "1"]);
+
+    expect(table.code).toBe(0);
+    expect(table.stdout).toContain("amount: DECIMAL(9,2)");
+    expect(table.stdout).toContain("created: TIMESTAMP(MILLIS, UTC)");
+  });
+
+  it("keeps fixed-length DECIMAL(38,2) statistics beyond 2^53 exact", async () => {
+    const { stdout, code } = await runCli([DECIMAL_FIXTURE_PATH, "--schema"]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain(
+      "2. amount: DECIMAL(38,2) (FIXED_LEN_BYTE_ARRAY(16), optional, def 1, rep 0)  [min -98765432109876543.21, max 12345678901234567.89, nulls 0]",
+    );
+  });
+});
+
+describe("json encoding", () => {
+  it("keeps nested values structured", async () => {
+    const { stdout, code } = await runCli([NESTED_FIXTURE_PATH, "--json", "--no-schema"]);
+
+    expect(code).toBe(0);
+    const rows = parseJsonLines(stdout);
+    expect(rows[0]).toEqual({ id: "1", tags: ["a", "b"], point: { x: 1.5, y: 2 } });
+    expect(rows[2]).toEqual({ id: "3", tags: null, point: { x: 0, y: null } });
+  });
+
+  it("applies --bigint and --timestamps encodings", async () => {
+    const { stdout, code } = await runCli([
+      ROW_GROUPS_FIXTURE_PATH,
+      "--json",
+      "--no-schema",
+      "--columns=id,created",
+      "--limit=1",
+      "--bigint=number",
+      "--timestamps",
+      "epoch",
+    ]);
+
+    expect(code).toBe(0);
+    expect(parseJsonLines(stdout)).toEqual([{ id: 1, created: 1704067200000 }]);
+  });
+
+  it("rejects unknown encodings", async () => {
+    const { stderr, code } = await runCli([FIXTURE_PATH, "--json", "--binary=base32"]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("invalid --binary value: base32");
+  });
+});
+
+describe("output formats", () => {
+  it("writes csv with a header row", async () => {
+    const { stdout, code } = await runCli([
+      FIXTURE_PATH,
+      "--format",
+      "csv",
+      "--no-schema",
+      "--columns=id,city",
+      "--limit=2",
+    ]);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe("id,city\n1,Seattle\n2,Portland\n");
+  });
+
+  it("writes markdown tables", async () => {
+    const { stdout, code } = await runCli([
+      FIXTURE_PATH,
+      "--format=markdown",
+      "--no-schema",
+      "--columns=city,active",
+      "--limit=1",
+    ]);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe("| city | active |\n| --- | --- |\n| Seattle | true |\n");
+  });
+
+  it("writes a json array", async () => {
+    const { stdout, code } = await runCli([
+      NESTED_FIXTURE_PATH,
+      "--format=json",
+      "--no-schema",
+      "--limit=1",
+    ]);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toEqual([{ id: "1", tags: ["a", "b"], point: { x: 1.5, y: 2 } }]);
+  });
+
+  it("rejects unknown formats", async () => {
+    const { stderr, code } = await runCli([FIXTURE_PATH, "--format=xml"]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("invalid --format value: xml");
+  });
+});
+
+describe("streaming all rows", () => {
+  it("streams every row with --all", async () => {
+    const { stdout, code } = await runCli([
+      ROW_GROUPS_FIXTURE_PATH,
+      "--all",
+      "--format=csv",
+      "--no-schema",
+      "--columns=id",
+    ]);
+
+    expect(code).toBe(0);
+    const lines = stdout.trim().split("\n");
+    expect(lines).toEqual(["id", ...Array.from({ length: 12 }, (_, index) => String(index + 1))]);
+  });
+
+  it("treats --limit -1 as all rows and honours --row-group", async () => {
+    const { stdout, code } = await runCli([
+      ROW_GROUPS_FIXTURE_PATH,
+      "--json",
+      "--no-schema",
+      "--limit",
+      "-1",
+      "--row-group=2",
+      "--columns=id",
+    ]);
+
+    expect(code).toBe(0);
+    expect(parseJsonLines(stdout).map((row) => row.id)).toEqual(["9", "10", "11", "12"]);
+  });
+
+  it("reads all rows into the table with --all --plain", async () => {
+    const { stdout, code } = await runCli([ROW_GROUPS_FIXTURE_PATH, "--all", "--plain"]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("Reno");
+  });
+
+  it("rejects other negative limits", async () => {
+    const { stderr, code } = await runCli([FIXTURE_PATH, "--limit=-2"]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("invalid --limit value: -2");
+  });
+
+  it("rejects limits with trailing characters", async () => {
+    const { stderr, code } = await runCli([FIXTURE_PATH, "--limit", "10abc"]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("invalid --limit value: 10abc");
+  });
+});
+
+describe("row windows", () => {
+  const readIds = async (args: string[]) => {
+    const { stdout, code } = await runCli([
+      ROW_GROUPS_FIXTURE_PATH,
+      "--json",
+      "--no-schema",
+      "--columns=id",
+      ...args,
+    ]);
+    expect(code).toBe(0);
+    return parseJsonLines(stdout).map((row) => row.id);
+  };
+
+  it("skips rows with --offset", async () => {
+    expect(await readIds(["--offset", "5", "--limit", "3"])).toEqual(["6", "7", "8"]);
+  });
+
+  it("reads the last rows with --tail", async () => {
+    expect(await readIds(["--tail=3"])).toEqual(["10", "11", "12"]);
+    expect(await readIds(["--tail=2", "--row-group=0,1"])).toEqual(["7", "8"]);
+  });
+
+  it("reads a half-open range with --rows", async () => {
+    expect(await readIds(["--rows", "2:5"])).toEqual(["3", "4", "5"]);
+    expect(await readIds(["--rows=10:"])).toEqual(["11", "12"]);
+  });
+
+  it("streams from --offset with --all", async () => {
+    expect(await readIds(["--all", "--offset=9"])).toEqual(["10", "11", "12"]);
+  });
+
+  it("rejects invalid ranges and --tail with --offset", async () => {
+    const range = await runCli([FIXTURE_PATH, "--rows=5:2"]);
+    expect(range.code).toBe(1);
+    expect(range.stderr).toContain("invalid --rows value: 5:2");
+
+    const tail = await runCli([FIXTURE_PATH, "--tail=1", "--offset=2"]);
+    expect(tail.code).toBe(1);
+    expect(tail.stderr).toContain("--tail cannot be combined with --offset or --rows");
+
+    for (const window of [
+      ["--offset", "0"],
+      ["--rows", "0:10"],
+    ]) {
+      const combined = await runCli([FIXTURE_PATH, "--tail", "5", ...window]);
+      expect(combined.code).toBe(1);
+      expect(combined.stderr).toContain("--tail cannot be combined with --offset or --rows");
+    }
+  });
+
+  it("rejects malformed and duplicate --table options", async () => {
+    const malformed = await runCli([FIXTURE_PATH, "--table", "stores", "--sql", "SELECT 1"]);
+    expect(malformed.code).toBe(1);
+    expect(malformed.stderr).toContain("invalid --table value: stores (expected name=path_or_url)");
+
+    const reserved = await runCli([FIXTURE_PATH, `--table=data=${CHANGED_FIXTURE_PATH}`]);
+    expect(reserved.code).toBe(1);
+    expect(reserved.stderr).toContain("--table cannot be named data");
+
+    const duplicate = await runCli([
+      FIXTURE_PATH,
+      `--table=other=${CHANGED_FIXTURE_PATH}`,
+      `--table=Other=${DRIFT_FIXTURE_PATH}`,
+    ]);
+    expect(duplicate.code).toBe(1);
+    expect(duplicate.stderr).toContain("duplicate --table name: Other");
+  });
+
+  it("rejects --columns and --row-group with SQL", async () => {
+    const columns = await runCli([FIXTURE_PATH, "--columns=id", "--sql", "SELECT 1"]);
+    expect(columns.code).toBe(1);
+    expect(columns.stderr).toContain("--columns cannot be combined with --sql");
+
+    const rowGroups = await runCli([
+      FIXTURE_PATH,
+      "--row-group=0",
+      `--table=other=${CHANGED_FIXTURE_PATH}`,
+    ]);
+    expect(rowGroups.code).toBe(1);
+    expect(rowGroups.stderr).toContain("--row-group cannot be combined with --table");
+
+    const shell = await runCli(["sql", FIXTURE_PATH, "--columns=id"]);
+    expect(shell.code).toBe(1);
+    expect(shell.stderr).toContain("--columns cannot be combined with the sql command");
+  });
+});
+
+describe("stats command", () => {
+  it("profiles columns as a table", async () => {
+    const { stdout, code } = await runCli(["stats", ROW_GROUPS_FIXTURE_PATH]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("rows: 12");
+    expect(stdout).toMatch(/note\s+│ STRING\s+│ 3\s+│/);
+  });
+
+  it("writes one json profile per column", async () => {
+    const { stdout, code } = await runCli([
+      "stats",
+      FIXTURE_PATH,
+      "--json",
+      "--columns=id,city",
+      "--top=1",
+    ]);
+
+    expect(code).toBe(0);
+    const [id, city] = parseJsonLines(stdout);
+    expect(id).toMatchObject({ name: "id", source: "scan", nullCount: 0, min: "1", max: "3" });
+    expect(id.mean).toBe(2);
+    expect(city).toMatchObject({ distinct: 3, length: { min: 7, max: 13 } });
+    expect(city.top).toHaveLength(1);
+  });
+
+  it("answers from complete footer statistics with --footer", async () => {
+    const { stdout, code } = await runCli([
+      "stats",
+      ROW_GROUPS_FIXTURE_PATH,
+      "--footer",
+      "--json",
+      "--row-group=1",
+      "--columns=id,created",
+    ]);
+
+    expect(code).toBe(0);
+    const [id, created] = parseJsonLines(stdout);
+    expect(id).toMatchObject({ source: "footer", rows: 4, min: "5", max: "8" });
+    expect(id.mean).toBeNull();
+    // The fixture writes no statistics for `created`, so it is scanned.
+    expect(created).toMatchObject({ source: "scan", rows: 4 });
+
+    const scanned = await runCli([
+      "stats",
+      ROW_GROUPS_FIXTURE_PATH,
+      "--json",
+      "--row-group=1",
+      "--columns=id",
+    ]);
+    expect(parseJsonLines(scanned.stdout)[0]).toMatchObject({
+      source: "scan",
+      min: "5",
+      mean: 6.5,
+    });
+  });
+});
+
+describe("diff command", () => {
+  it("lists changes by key and exits with 1", async () => {
+    const { stdout, code } = await runCli([
+      "diff",
+      FIXTURE_PATH,
+      CHANGED_FIXTURE_PATH,
+      "--key=id",
+      "--plain",
+    ]);
+
+    expect(code).toBe(1);
+    expect(stdout).toContain('~ id=2  city: "Portland" -> "Eugene", score: 87 -> 90');
+    expect(stdout).toContain('+ id=4  {"id":"4","city":"Austin"');
+    expect(stdout).toContain('- id=3  {"id":"3","city":"San Francisco"');
+    expect(stdout).toContain("added 1 | removed 1 | changed 1 | unchanged 1");
+  });
+
+  it("writes json change records and a summary", async () => {
+    const { stdout, code } = await runCli([
+      "diff",
+      FIXTURE_PATH,
+      CHANGED_FIXTURE_PATH,
+      "--json",
+      "--columns=city",
+    ]);
+
+    expect(code).toBe(1);
+    const records = parseJsonLines(stdout);
+    expect(records.map((record) => record.type)).toEqual(["changed", "changed", "summary"]);
+    expect(records[0]).toMatchObject({ key: { row: 1 }, columns: ["city"] });
+    expect(records[2]).toMatchObject({ changed: 2, unchanged: 1, changedColumns: { city: 2 } });
+  });
+
+  it("exits with 0 for identical files", async () => {
+    const { stdout, code } = await runCli([
+      "diff",
+      ROW_GROUPS_FIXTURE_PATH,
+      ROW_GROUPS_FIXTURE_PATH,
+      "--key=id",
+      "--plain",
+    ]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("rows: 12 -> 12 | added 0 | removed 0 | changed 0 | unchanged 12");
+  });
+
+  it("rejects key columns missing from a file", async () => {
+    const { stderr, code } = await runCli([
+      "diff",
+      FIXTURE_PATH,
+      NESTED_FIXTURE_PATH,
+      "--key=city",
+      "--plain",
+    ]);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain("key columns missing from one of the files: city");
+  });
+
+  it("exits with 2 when a file cannot be read", async () => {
+    const { stderr, code } = await runCli([
+      "diff",
+      FIXTURE_PATH,
+      path.join(__dirname, "../test/fixtures/missing.parquet"),
+      "--plain",
+    ]);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain("missing.parquet");
+  });
+
+  it("exits with 2 on usage errors", async () => {
+    const { stderr, code } = await runCli(["diff", FIXTURE_PATH, CHANGED_FIXTURE_PATH, "--bogus"]);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain("unknown option: --bogus");
+  });
+});
+
+describe("schema-diff command", () => {
+  it("reports schema drift and exits with 1", async () => {
+    const { stdout, code } = await runCli(["schema-diff", FIXTURE_PATH, DRIFT_FIXTURE_PATH]);
+
+    expect(code).toBe(1);
+    expect(stdout).toContain("~ id: type INT64 -> INT32");
+    expect(stdout).toContain("~ active: optional -> required");
+    expect(stdout).toContain("~ city -> town: renamed");
+    expect(stdout).toContain("- state: STRING (BYTE_ARRAY) optional");
+    expect(stdout).toContain("+ country: STRING (BYTE_ARRAY) optional");
+    expect(stdout).toContain("+ metadata pipeline: v2");
+  });
+
+  it("writes json records and exits with 0 for matching schemas", async () => {
+    const { stdout, code } = await runCli([
+      "schema-diff",
+      ROW_GROUPS_FIXTURE_PATH,
+      ROW_GROUPS_FIXTURE_PATH,
+      "--json",
+    ]);
+
+    expect(code).toBe(0);
+    expect(parseJsonLines(stdout)).toEqual([
+      {
+        type: "summary",
+        added: 0,
+        removed: 0,
+        renamed: 0,
+        typeChanged: 0,
+        repetitionChanged: 0,
+        metadata: 0,
+      },
+    ]);
+  });
+
+  it("exits with 2 when a file cannot be read", async () => {
+    const { stderr, code } = await runCli([
+      "schema-diff",
+      FIXTURE_PATH,
+      path.join(__dirname, "../test/fixtures/missing.parquet"),
+    ]);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain("missing.parquet");
+  });
+});
+
+describe("metadata dump", () => {
+  it("prints the footer as text", async () => {
+    const { stdout, code } = await runCli([ROW_GROUPS_FIXTURE_PATH, "--meta"]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("row groups: 3");
+    expect(stdout).toContain("row group 2: 4 rows");
+    expect(stdout).toContain("    statistics: min note 2, max note 4, nulls 1");
+  });
+
+  it("writes the full footer as json", async () => {
+    const { stdout, code } = await runCli([FIXTURE_PATH, "--meta", "--json"]);
+
+    expect(code).toBe(0);
+    const footer = JSON.parse(stdout);
+    expect(footer.num_rows).toBe("3");
+    expect(footer.key_value_metadata).toContainEqual({
+      key: "source",
+      value: "parquetlens-fixture",
+    });
+    expect(footer.row_groups[0].columns[1].meta_data).toMatchObject({
+      path_in_schema: ["city"],
+      statistics: { min_value: "Portland", max_value: "Seattle" },
+    });
+  });
+});
+
+describe("layout reports", () => {
+  it("prints column chunks per row group", async () => {
+    const { stdout, code } = await runCli([
+      ROW_GROUPS_FIXTURE_PATH,
+      "--layout",
+      "--row-group=1",
+      "--columns=id",
+      "--format=csv",
+    ]);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe(
+      "group,column,codec,values,bytes,% group,dictionary,data,stats\n" +
+        "1,id,SNAPPY,4,124,25.9%,,483+124,min 5  max 8  nulls 0\n",
+    );
+  });
+
+  it("writes bytes per column as json", async () => {
+    const { stdout, code } = await runCli([ROW_GROUPS_FIXTURE_PATH, "--bytes", "--json"]);
+
+    expect(code).toBe(0);
+    const rows = parseJsonLines(stdout);
+    expect(rows.map((row) => row.column)).toEqual(["id", "city", "amount", "created", "note"]);
+    expect(rows[0]).toEqual({
+      column: "id",
+      bytes: "372",
+      percent: 25.9,
+      rowGroupBytes: ["124", "124", "124"],
+    });
+  });
+
+  it("prints the bytes summary with the table", async () => {
+    const { stdout, code } = await runCli([ROW_GROUPS_FIXTURE_PATH, "--bytes"]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("total 1.3 KB | 3 row groups | 5 columns | largest: id (25.9%)");
+  });
+});
+
+describe("row group selection", () => {
+  it("reads only the listed row groups", async () => {
+    const { stdout, code } = await runCli([
+      ROW_GROUPS_FIXTURE_PATH,
+      "--json",
+      "--no-schema",
+      "--row-group",
+      "2,0",
+      "--columns",
+      "id",
+    ]);
+
+    expect(code).toBe(0);
+    const ids = parseJsonLines(stdout).map((row) => row.id);
+    expect(ids).toEqual(["1", "2", "3", "4", "9", "10", "11", "12"]);
+  });
+
+  it("applies --limit within the selected row groups", async () => {
+    const { stdout, code } = await runCli([
+      ROW_GROUPS_FIXTURE_PATH,
+      "--json",
+      "--no-schema",
+      "--row-group=1",
+      "--limit=2",
+    ]);
+
+    expect(code).toBe(0);
+    const rows = parseJsonLines(stdout);
+    expect(rows.map((row) => row.city)).toEqual(["Denver", "Chicago"]);
+  });
+
+  it("rejects row groups outside the file", async () => {
+    const { stderr, code } = await runCli([ROW_GROUPS_FIXTURE_PATH, "--plain", "--row-group", "7"]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("row group 7 out of range");
+  });
 });
 
 describeSql("SQL queries", () => {
@@ -205,6 +766,69 @@ describeSql("SQL queries", () => {
     sqlTimeout,
   );
 
+  it(
+    "joins the input with files registered by --table",
+    async () => {
+      const { stdout, code } = await runCli([
+        FIXTURE_PATH,
+        "--table",
+        `changed=${CHANGED_FIXTURE_PATH}`,
+        "--sql",
+        "SELECT COUNT(*) AS matched FROM data JOIN changed USING (id)",
+        "--json",
+      ]);
+
+      expect(code).toBe(0);
+      const rows = parseJsonLines(stdout);
+      expect(rows).toHaveLength(1);
+      expect(Number(rows[0].matched)).toBeGreaterThan(0);
+    },
+    sqlTimeout,
+  );
+
+  it(
+    "reads remote files with range requests over kept-alive connections",
+    async () => {
+      const file = readFileSync(FIXTURE_PATH);
+      let rangeRequests = 0;
+      let connections = 0;
+      const server = createServer((request, response) => {
+        const range = /^bytes=(\d+)-(\d+)$/.exec(request.headers.range ?? "");
+        if (!range) {
+          response.end(file);
+          return;
+        }
+        rangeRequests += 1;
+        const start = Number(range[1]);
+        const end = Math.min(Number(range[2]), file.length - 1);
+        response.writeHead(206, { "content-range": `bytes ${start}-${end}/${file.length}` });
+        response.end(file.subarray(start, end + 1));
+      });
+      server.on("connection", () => {
+        connections += 1;
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        const { stdout, code } = await runCli([
+          `http://127.0.0.1:${port}/sample.parquet`,
+          "--sql",
+          "SELECT COUNT(*) AS n FROM data",
+          "--json",
+        ]);
+
+        expect(code).toBe(0);
+        expect(parseJsonLines(stdout)).toHaveLength(1);
+        expect(rangeRequests).toBeGreaterThan(1);
+        expect(connections).toBeLessThan(rangeRequests);
+      } finally {
+        server.close();
+      }
+    },
+    sqlTimeout,
+  );
+
   it("shows --sql in help", async () => {
     const { stdout, code } = await runCli(["--help"]);
     expect(code).toBe(0);
@@ -1,18 +1,52 @@
 #!/usr/bin/env node
 import {
+  mergeColumnStatistics,
   openParquetSource,
   openParquetSourceFromBuffer,
+  type ParquetColumnStatistics,
   type ParquetMetadata,
   type ParquetReadOptions,
   type ParquetRow,
+  type ParquetSchemaNode,
+  type ParquetSource,
 } from "@parquetlens/parquet-reader";
 import CliTable3 from "cli-table3";
 import { Buffer } from "node:buffer";
-import { spawnSync } from "node:child_process";
+import { once } from "node:events";
 import path from "node:path";
 import { fileURLToPath as nodeFileURLToPath } from "node:url";
 
-import { safeStringify } from "./formatting.js";
+import {
+  BIGINT_ENCODINGS,
+  BINARY_ENCODINGS,
+  DEFAULT_VALUE_ENCODING,
+  encodeRow,
+  encodeValue,
+  TIMESTAMP_ENCODINGS,
+  type JsonValue,
+  type ValueEncoding,
+} from "./encoding.js";
+import { diffRows, formatDiffKey, type DiffChange, type DiffSummary } from "./diff.js";
+import { formatSchemaNodeDetails, safeStringify, truncateText } from "./formatting.js";
+import {
+  buildBytesRows,
+  buildLayoutRows,
+  BYTES_JSON_FIELDS,
+  BYTES_TABLE_FIELDS,
+  formatBytesSummary,
+  LAYOUT_JSON_FIELDS,
+  LAYOUT_TABLE_FIELDS,
+} from "./layout-report.js";
+import { encodeFileMetadata, formatFileMetadata } from "./meta.js";
+import { getConfigDirectory, runSqlRepl } from "./repl.js";
+import { diffSchemas, type SchemaChange } from "./schema-diff.js";
+import { createRowFormatter, OUTPUT_FORMATS, type OutputFormat } from "./output.js";
+import {
+  createColumnProfiler,
+  DEFAULT_TOP_K,
+  profileFromFooter,
+  type ColumnProfile,
+} from "./stats.js";
 
 // __filename is provided by tsup banner in production.
 // In dev mode (tsx/ESM), we derive it from import.meta.url.
@@ -24,18 +58,53 @@ declare const __filename: string;
 
 type TuiMode = "auto" | "on" | "off";
 
+type Command = "stats" | "diff" | "schema-diff" | "sql";
+
+const COMMANDS: Command[] = ["stats", "diff", "schema-diff", "sql"];
+
+// diff and schema-diff exit with 1 when the inputs differ, so their failures
+// need another code.
+const COMPARISON_ERROR_EXIT_CODE = 2;
+
+function getErrorExitCode(args: string[]): number {
+  return args[0] === "diff" || args[0] === "schema-diff" ? COMPARISON_ERROR_EXIT_CODE : 1;
+}
+
 type Options = {
   limit: number;
+  /** Read every row; plain output formats other than `table` are streamed. */
+  all: boolean;
+  /** Rows of the selection to skip before the first printed row. */
+  offset: number;
+  /** Print the last `tail` rows instead of reading from `offset`. */
+  tail?: number;
   columns: string[];
-  json: boolean;
+  rowGroups: number[];
+  format: OutputFormat;
   schemaOnly: boolean;
+  /** Dump the complete footer instead of reading rows. */
+  meta: boolean;
+  /** Print the layout or bytes tab as a report instead of reading rows. */
+  report?: "layout" | "bytes";
   showSchema: boolean;
   tuiMode: TuiMode;
+  encoding: ValueEncoding;
+  /** Number of most frequent values listed per string column by `stats`. */
+  topK: number;
+  /** `stats`: answer columns with complete footer statistics from the footer without reading them. */
+  footer: boolean;
+  /** `diff`: columns matching rows across files; empty compares rows by position. */
+  key: string[];
   sql?: string;
+  /** Extra files for SQL, queried by name next to `data`. */
+  tables: { name: string; input: string }[];
 };
 
 type ParsedArgs = {
+  command?: Command;
   input?: string;
+  /** Second input of `diff`. */
+  otherInput?: string;
   options: Options;
   limitSpecified: boolean;
   help: boolean;
@@ -51,19 +120,36 @@ type LoadedData = {
 };
 
 const DEFAULT_LIMIT = 20;
+const STREAM_BATCH_ROWS = 1024;
+// The diff viewer keeps changes in memory; plain and JSON output stream instead.
+const DIFF_TUI_MAX_CHANGES = 100_000;
+// Key-value metadata such as ARROW:schema can be kilobytes long; JSON output keeps it whole.
+const SCHEMA_DIFF_VALUE_WIDTH = 80;
 
 function parseArgs(argv: string[]): ParsedArgs {
   const options: Options = {
     limit: DEFAULT_LIMIT,
+    all: false,
+    offset: 0,
     columns: [],
-    json: false,
+    rowGroups: [],
+    format: "table",
     schemaOnly: false,
+    meta: false,
     showSchema: true,
     tuiMode: "auto",
+    encoding: { ...DEFAULT_VALUE_ENCODING },
+    topK: DEFAULT_TOP_K,
+    footer: false,
+    key: [],
+    tables: [],
   };
 
-  let input: string | undefined;
+  let command: Command | undefined;
+  const inputs: string[] = [];
   let limitSpecified = false;
+  // --tail picks its own window, so it cannot be combined with one given explicitly.
+  let windowSpecified = false;
 
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
@@ -76,8 +162,21 @@ function parseArgs(argv: string[]): ParsedArgs {
       return { options, limitSpecified, help: true };
     }
 
+    if (i === 0) {
+      const matched = COMMANDS.find((name) => name === arg);
+      if (matched) {
+        command = matched;
+        continue;
+      }
+    }
+
+    if (arg === "--footer") {
+      options.footer = true;
+      continue;
+    }
+
     if (arg === "--json") {
-      options.json = true;
+      options.format = "ndjson";
       options.tuiMode = "off";
       continue;
     }
@@ -93,12 +192,29 @@ function parseArgs(argv: string[]): ParsedArgs {
       continue;
     }
 
+    if (arg === "--all") {
+      options.all = true;
+      continue;
+    }
+
     if (arg === "--schema") {
       options.schemaOnly = true;
       options.tuiMode = "off";
       continue;
     }
 
+    if (arg === "--layout" || arg === "--bytes") {
+      options.report = arg === "--layout" ? "layout" : "bytes";
+      options.tuiMode = "off";
+      continue;
+    }
+
+    if (arg === "--meta") {
+      options.meta = true;
+      options.tuiMode = "off";
+      continue;
+    }
+
     if (arg === "--no-schema") {
       options.showSchema = false;
       continue;
@@ -106,8 +222,16 @@ function parseArgs(argv: string[]): ParsedArgs {
 
     const limitValue = readOptionValue(arg, "--limit", argv[i + 1]);
     if (limitValue) {
-      const parsed = Number.parseInt(limitValue.value, 10);
-      if (!Number.isFinite(parsed) || parsed < 0) {
+      if (limitValue.value === "-1") {
+        options.all = true;
+        limitSpecified = true;
+        if (limitValue.usedNext) {
+          i += 1;
+        }
+        continue;
+      }
+      const parsed = parseRowIndex(limitValue.value);
+      if (parsed === null) {
         return {
           options,
           limitSpecified,
@@ -123,6 +247,102 @@ function parseArgs(argv: string[]): ParsedArgs {
       continue;
     }
 
+    const topValue = readOptionValue(arg, "--top", argv[i + 1]);
+    if (topValue) {
+      const parsed = parseRowIndex(topValue.value);
+      if (parsed === null) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `invalid --top value: ${topValue.value}`,
+        };
+      }
+      options.topK = parsed;
+      if (topValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
+    const offsetValue = readOptionValue(arg, "--offset", argv[i + 1]);
+    if (offsetValue) {
+      const parsed = parseRowIndex(offsetValue.value);
+      if (parsed === null) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `invalid --offset value: ${offsetValue.value}`,
+        };
+      }
+      options.offset = parsed;
+      windowSpecified = true;
+      if (offsetValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
+    const tailValue = readOptionValue(arg, "--tail", argv[i + 1]);
+    if (tailValue) {
+      const parsed = parseRowIndex(tailValue.value);
+      if (parsed === null) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `invalid --tail value: ${tailValue.value}`,
+        };
+      }
+      options.tail = parsed;
+      options.limit = parsed;
+      options.all = false;
+      limitSpecified = true;
+      if (tailValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
+    const rowsValue = readOptionValue(arg, "--rows", argv[i + 1]);
+    if (rowsValue) {
+      const range = parseRowRange(rowsValue.value);
+      if (!range) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `invalid --rows value: ${rowsValue.value} (expected <start>:<end>)`,
+        };
+      }
+      options.offset = range.start;
+      windowSpecified = true;
+      if (range.end === undefined) {
+        options.all = true;
+      } else {
+        options.limit = range.end - range.start;
+        options.all = false;
+      }
+      limitSpecified = true;
+      if (rowsValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
+    const keyValue = readOptionValue(arg, "--key", argv[i + 1]);
+    if (keyValue) {
+      options.key = keyValue.value
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean);
+      if (keyValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
     const columnsValue = readOptionValue(arg, "--columns", argv[i + 1]);
     if (columnsValue) {
       const rawColumns = columnsValue.value
@@ -136,6 +356,106 @@ function parseArgs(argv: string[]): ParsedArgs {
       continue;
     }
 
+    const rowGroupValue = readOptionValue(arg, "--row-group", argv[i + 1]);
+    if (rowGroupValue) {
+      const rawGroups = rowGroupValue.value
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean);
+      const parsedGroups = rawGroups.map((value) => Number(value));
+      if (
+        parsedGroups.length === 0 ||
+        parsedGroups.some((value) => !Number.isInteger(value) || value < 0)
+      ) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `invalid --row-group value: ${rowGroupValue.value}`,
+        };
+      }
+      options.rowGroups = parsedGroups;
+      if (rowGroupValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
+    const formatValue = readOptionValue(arg, "--format", argv[i + 1]);
+    if (formatValue) {
+      const format = OUTPUT_FORMATS.find((value) => value === formatValue.value);
+      if (!format) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `invalid --format value: ${formatValue.value}`,
+        };
+      }
+      options.format = format;
+      if (format !== "table") {
+        options.tuiMode = "off";
+      }
+      if (formatValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
+    const bigintValue = readOptionValue(arg, "--bigint", argv[i + 1]);
+    if (bigintValue) {
+      const encoding = BIGINT_ENCODINGS.find((value) => value === bigintValue.value);
+      if (!encoding) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `invalid --bigint value: ${bigintValue.value}`,
+        };
+      }
+      options.encoding.bigint = encoding;
+      if (bigintValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
+    const binaryValue = readOptionValue(arg, "--binary", argv[i + 1]);
+    if (binaryValue) {
+      const encoding = BINARY_ENCODINGS.find((value) => value === binaryValue.value);
+      if (!encoding) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `invalid --binary value: ${binaryValue.value}`,
+        };
+      }
+      options.encoding.binary = encoding;
+      if (binaryValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
+    const timestampsValue = readOptionValue(arg, "--timestamps", argv[i + 1]);
+    if (timestampsValue) {
+      const encoding = TIMESTAMP_ENCODINGS.find((value) => value === timestampsValue.value);
+      if (!encoding) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `invalid --timestamps value: ${timestampsValue.value}`,
+        };
+      }
+      options.encoding.timestamps = encoding;
+      if (timestampsValue.usedNext) {
+        i += 1;
+      }
+      continue;
+    }
+
     const sqlValue = readOptionValue(arg, "--sql", argv[i + 1]);
     if (sqlValue) {
       options.sql = sqlValue.value;
@@ -145,35 +465,146 @@ function parseArgs(argv: string[]): ParsedArgs {
       continue;
     }
 
-    if (arg === "-") {
-      if (input) {
-        return { options, limitSpecified, help: false, error: "unexpected extra argument: -" };
+    const tableValue = readOptionValue(arg, "--table", argv[i + 1]);
+    if (tableValue) {
+      const table = parseTableOption(tableValue.value);
+      if (typeof table === "string") {
+        return { options, limitSpecified, help: false, error: table };
+      }
+      const name = table.name.toLowerCase();
+      if (options.tables.some((existing) => existing.name.toLowerCase() === name)) {
+        return {
+          options,
+          limitSpecified,
+          help: false,
+          error: `duplicate --table name: ${table.name}`,
+        };
+      }
+      options.tables.push(table);
+      if (tableValue.usedNext) {
+        i += 1;
       }
-      input = arg;
       continue;
     }
 
-    if (arg.startsWith("-")) {
+    if (arg.startsWith("-") && arg !== "-") {
       return { options, limitSpecified, help: false, error: `unknown option: ${arg}` };
     }
 
-    if (input) {
+    if (inputs.length >= (command === "diff" || command === "schema-diff" ? 2 : 1)) {
       return { options, limitSpecified, help: false, error: `unexpected extra argument: ${arg}` };
     }
 
-    input = arg;
+    inputs.push(arg);
+  }
+
+  if (options.tail !== undefined && windowSpecified) {
+    return {
+      options,
+      limitSpecified,
+      help: false,
+      error: "--tail cannot be combined with --offset or --rows",
+    };
+  }
+
+  // SQL reads every column of every row group through DuckDB, so a projection or
+  // row group selection would be ignored there.
+  const sqlOption =
+    command === "sql"
+      ? "the sql command"
+      : options.sql !== undefined
+        ? "--sql"
+        : options.tables.length > 0
+          ? "--table"
+          : undefined;
+  const readOption =
+    options.columns.length > 0
+      ? "--columns"
+      : options.rowGroups.length > 0
+        ? "--row-group"
+        : undefined;
+  if (sqlOption && readOption) {
+    return {
+      options,
+      limitSpecified,
+      help: false,
+      error: `${readOption} cannot be combined with ${sqlOption}; select columns and rows in the query instead`,
+    };
+  }
+
+  return {
+    command,
+    input: inputs[0],
+    otherInput: inputs[1],
+    options,
+    limitSpecified,
+    help: false,
+  };
+}
+
+/** Parse `name=path_or_url`; returns an error message when it is malformed. */
+function parseTableOption(value: string): { name: string; input: string } | string {
+  const separator = value.indexOf("=");
+  const name = value.slice(0, separator).trim();
+  const input = value.slice(separator + 1);
+  if (separator === -1 || !/^[A-Za-z_]\w*$/.test(name) || input === "") {
+    return `invalid --table value: ${value} (expected name=path_or_url)`;
+  }
+  if (name.toLowerCase() === "data") {
+    return "--table cannot be named data; the main input is data";
+  }
+  if (input === "-") {
+    return "--table cannot read from stdin";
+  }
+  return { name, input };
+}
+
+function parseRowIndex(value: string): number | null {
+  if (!/^\d+$/.test(value)) {
+    return null;
   }
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+}
 
-  return { input, options, limitSpecified, help: false };
+/** Parse `start:end` (end exclusive); either side may be omitted, e.g. `100:` or `:20`. */
+function parseRowRange(value: string): { start: number; end?: number } | null {
+  const separator = value.indexOf(":");
+  if (separator === -1) {
+    return null;
+  }
+  const rawStart = value.slice(0, separator);
+  const rawEnd = value.slice(separator + 1);
+  const start = rawStart === "" ? 0 : parseRowIndex(rawStart);
+  const end = rawEnd === "" ? undefined : parseRowIndex(rawEnd);
+  if (start === null || end === null || (end !== undefined && end < start)) {
+    return null;
+  }
+  return { start, end };
 }
 
 function readOptionValue(
   arg: string,
-  name: "--limit" | "--columns" | "--sql",
+  name:
+    | "--limit"
+    | "--offset"
+    | "--tail"
+    | "--rows"
+    | "--top"
+    | "--key"
+    | "--columns"
+    | "--row-group"
+    | "--format"
+    | "--bigint"
+    | "--binary"
+    | "--timestamps"
+    | "--sql"
+    | "--table",
   next?: string,
 ): { value: string; usedNext: boolean } | null {
   if (arg === name) {
-    if (!next || next.startsWith("-")) {
+    // Negative numbers are values (e.g. `--limit -1`), not options.
+    if (!next || (next.startsWith("-") && !/^-\d+$/.test(next))) {
       return null;
     }
     return { value: next, usedNext: true };
@@ -188,22 +619,71 @@ function readOptionValue(
 
 function printUsage(): void {
   const helpText = `parquetlens <file|url|-> [options]
+parquetlens stats <file|url|-> [options]
+parquetlens diff <a> <b> [options]
+parquetlens schema-diff <a> <b> [--json]
+parquetlens sql <file|url>
+
+commands:
+  stats                      profile each column: nulls, distinct estimate, min/max,
+                             mean/stddev, top values and lengths
+  diff                       compare rows of two files; exits 1 when they differ, 2 on errors
+  schema-diff                compare schemas and key-value metadata; exits 1 when they differ,
+                             2 on errors
+  sql                        interactive SQL shell over the file as 'data' (.help lists commands)
 
 options:
-  --limit, --limit=<n>       number of rows to show (default: ${DEFAULT_LIMIT})
+  --limit, --limit=<n>       number of rows to show (default: ${DEFAULT_LIMIT}, -1 for all)
+  --all                      read every row, streaming non-table formats
+  --offset=<n>               skip the first n rows
+  --tail=<n>                 show the last n rows
+  --rows=<start>:<end>       show rows start (inclusive) to end (exclusive)
   --columns, --columns=<c>   comma-separated column list
+  --row-group=<n[,m]>        only read the listed row groups (0-based)
   --sql, --sql=<query>       run SQL query (use 'data' as table name)
-  --schema                   print schema only
+  --table <name=path|url>    add another file as a SQL table (repeatable)
+  --schema                   print schema tree and column statistics only
+  --meta                     print the complete footer (use --json for machine-readable output)
+  --layout                   print row groups and column chunks with byte ranges and statistics
+  --bytes                    print bytes per column with share of the file
   --no-schema                skip schema output
-  --json                     output rows as json lines
+  --format=<fmt>             output format: table, csv, tsv, markdown, ndjson, json
+  --json                     output rows as json lines (same as --format=ndjson)
+  --bigint=<string|number>   encoding for INT64 values (default: string)
+  --binary=<base64|hex|utf8> encoding for binary values (default: base64)
+  --timestamps=<iso|epoch>   encoding for timestamps, epoch in ms (default: iso)
   --tui                      open interactive viewer (default)
   --plain, --no-tui          disable interactive viewer
   -h, --help                 show help
 
+stats options:
+  --top=<k>                  most frequent string values to list (default: ${DEFAULT_TOP_K})
+  --footer                   answer min/max/nulls from complete footer statistics without
+                             reading those columns (no mean, top values or lengths)
+
+diff options:
+  --key=<c[,d]>              match rows by key columns (default: by position)
+  --columns=<c>              compare only these columns (default: columns in both files)
+  --json                     one json record per change, then a summary record
+
 examples:
   parquetlens data.parquet --limit 25
   parquetlens data.parquet --columns=city,state
+  parquetlens data.parquet --row-group 2 --plain
+  parquetlens data.parquet --rows 1000000:1000020
+  parquetlens data.parquet --tail 10 --plain
+  parquetlens data.parquet --json --bigint=number --timestamps=epoch
+  parquetlens data.parquet --meta --json | jq '.row_groups[0].columns[0].meta_data'
+  parquetlens data.parquet --bytes --row-group 0
+  parquetlens data.parquet --format csv --no-schema > preview.csv
+  parquetlens data.parquet --all --json --no-schema > rows.ndjson
   parquetlens data.parquet --sql "SELECT city, COUNT(*) FROM data GROUP BY city"
+  parquetlens stats data.parquet --columns=city,score --json
+  parquetlens diff old.parquet new.parquet --key id --plain
+  parquetlens schema-diff day1.parquet day2.parquet --json
+  parquetlens sql data.parquet
+  parquetlens sales.parquet --table stores=stores.parquet --sql "SELECT * FROM data JOIN stores USING (id)"
+  echo "SELECT COUNT(*) FROM data;" | parquetlens sql data.parquet --format csv
   parquetlens hf://datasets/cfahlgren1/hub-stats/daily_papers.parquet
   parquetlens https://huggingface.co/datasets/cfahlgren1/hub-stats/resolve/main/daily_papers.parquet
   parquetlens data.parquet --plain
@@ -226,6 +706,73 @@ function formatSchema(columns: ColumnDef[]): string {
   return lines.join("\n");
 }
 
+function formatSchemaTree(
+  nodes: ParquetSchemaNode[],
+  statistics: Map<string, ParquetColumnStatistics>,
+): string {
+  const lines: string[] = [];
+
+  const visit = (node: ParquetSchemaNode, depth: number, prefix: string) => {
+    const stats = node.children.length === 0 ? statistics.get(node.path.join(".")) : undefined;
+    const statsSuffix = stats ? `  ${formatStatistics(stats)}` : "";
+    // Children line up under their parent's name: past "1. " first, then past "- ".
+    const indent = depth === 0 ? "" : `   ${"  ".repeat(depth - 1)}`;
+    lines.push(
+      `${indent}${prefix}${node.name}: ${node.type} (${formatSchemaNodeDetails(node)})${statsSuffix}`,
+    );
+    for (const child of node.children) {
+      visit(child, depth + 1, "- ");
+    }
+  };
+
+  nodes.forEach((node, index) => visit(node, 0, `${index + 1}. `));
+  return lines.join("\n");
+}
+
+function collectColumnStatistics(
+  metadata: ParquetMetadata | null,
+  rowGroups?: number[],
+): Map<string, ParquetColumnStatistics> {
+  const byColumn = new Map<string, Array<ParquetColumnStatistics | undefined>>();
+  const selected = rowGroups ? new Set(rowGroups) : undefined;
+
+  for (const rowGroup of metadata?.layout?.rowGroups ?? []) {
+    if (selected && !selected.has(rowGroup.index)) {
+      continue;
+    }
+    for (const chunk of rowGroup.columns) {
+      const existing = byColumn.get(chunk.name) ?? [];
+      existing.push(chunk.statistics);
+      byColumn.set(chunk.name, existing);
+    }
+  }
+
+  const merged = new Map<string, ParquetColumnStatistics>();
+  for (const [name, chunks] of byColumn) {
+    const stats = mergeColumnStatistics(chunks);
+    if (stats) {
+      merged.set(name, stats);
+    }
+  }
+  return merged;
+}
+
+function formatStatistics(stats: ParquetColumnStatistics): string {
+  const parts: string[] = [];
+  if (stats.min !== undefined || stats.max !== undefined) {
+    const min = stats.min === undefined ? "?" : String(formatCell(stats.min));
+    const max = stats.max === undefined ? "?" : String(formatCell(stats.max));
+    parts.push(`min ${truncateCell(min, 40)}`, `max ${truncateCell(max, 40)}`);
+  }
+  if (stats.nullCount !== undefined) {
+    parts.push(`nulls ${stats.nullCount}`);
+  }
+  if (stats.distinctCount !== undefined) {
+    parts.push(`distinct ${stats.distinctCount}`);
+  }
+  return `[${parts.join(", ")}]`;
+}
+
 function truncateCell(value: string, maxWidth: number): string {
   const oneLine = value.replace(/\n/g, " ");
   if (oneLine.length <= maxWidth) {
@@ -234,9 +781,13 @@ function truncateCell(value: string, maxWidth: number): string {
   return oneLine.slice(0, maxWidth - 3) + "...";
 }
 
-function printTable(rows: Record<string, unknown>[], columns: ColumnDef[]): void {
+function printTable(
+  rows: Record<string, unknown>[],
+  columns: ColumnDef[],
+  out: NodeJS.WritableStream = process.stdout,
+): void {
   if (rows.length === 0) {
-    process.stdout.write("(no rows)\n");
+    out.write("(no rows)\n");
     return;
   }
 
@@ -248,7 +799,7 @@ function printTable(rows: Record<string, unknown>[], columns: ColumnDef[]): void
 
   // Calculate ideal width for each column (header + max content, capped at 60)
   const idealWidths = columns.map((c) => {
-    const headerLen = `${c.name}: ${c.type}`.length;
+    const headerLen = formatColumnHeader(c).length;
     const maxContent = rows.reduce((max, row) => {
       const val = String(row[c.name] ?? "").replace(/\n/g, " ");
       return Math.max(max, val.length);
@@ -262,7 +813,7 @@ function printTable(rows: Record<string, unknown>[], columns: ColumnDef[]): void
   const scale = Math.min(1, availableWidth / totalIdeal);
   const colWidths = idealWidths.map((ideal) => Math.max(6, Math.floor(ideal * scale)));
 
-  const headers = columns.map((c, i) => truncateCell(`${c.name}: ${c.type}`, colWidths[i]));
+  const headers = columns.map((c, i) => truncateCell(formatColumnHeader(c), colWidths[i]));
 
   const table = new CliTable3({
     head: headers,
@@ -275,7 +826,11 @@ function printTable(rows: Record<string, unknown>[], columns: ColumnDef[]): void
     table.push(columns.map((c, i) => truncateCell(String(row[c.name] ?? ""), colWidths[i])));
   }
 
-  process.stdout.write(table.toString() + "\n");
+  out.write(table.toString() + "\n");
+}
+
+function formatColumnHeader(column: ColumnDef): string {
+  return column.type ? `${column.name}: ${column.type}` : column.name;
 }
 
 function formatCell(value: unknown): unknown {
@@ -319,6 +874,37 @@ function previewRows(
   });
 }
 
+/** Apply --offset/--tail to rows that are already in memory, e.g. SQL results. */
+function selectRowWindow(rows: ParquetRow[], options: Options): ParquetRow[] {
+  if (options.tail !== undefined) {
+    return options.tail === 0 ? [] : rows.slice(-options.tail);
+  }
+  return options.offset > 0 ? rows.slice(options.offset) : rows;
+}
+
+function writeRows(
+  rows: ParquetRow[],
+  limit: number,
+  columns: ColumnDef[],
+  options: Options,
+): void {
+  if (options.format === "table") {
+    printTable(previewRows(rows, limit, columns), columns);
+    return;
+  }
+
+  const formatter = createRowFormatter(
+    options.format,
+    columns.map((column) => column.name),
+    options.encoding,
+  );
+  process.stdout.write(formatter.begin());
+  for (const row of rows.slice(0, Math.max(0, limit))) {
+    process.stdout.write(formatter.row(row));
+  }
+  process.stdout.write(formatter.end());
+}
+
 function inferColumnType(value: unknown): string {
   if (value === null || value === undefined) {
     return "unknown";
@@ -399,43 +985,23 @@ async function loadRowsAndMetadata(
   input: string | undefined,
   readOptions: ParquetReadOptions,
 ): Promise<LoadedData> {
-  const stdinFallback = process.stdin.isTTY ? undefined : "-";
-  const sourceInput = input ?? stdinFallback;
-
-  if (!sourceInput) {
-    throw new Error("missing input file (pass a path, URL, or pipe stdin)");
-  }
-
-  if (sourceInput === "-") {
-    const buffer = await readStdinBuffer();
-    const source = await openParquetSourceFromBuffer(buffer);
-
-    try {
-      const [rows, metadata] = await Promise.all([
-        source.readTable(readOptions),
-        source.readMetadata().catch(() => null),
-      ]);
-      return { rows, metadata, title: "stdin" };
-    } finally {
-      await source.close();
-    }
-  }
-
-  const source = await openParquetSource(sourceInput);
+  const { source, title } = await openInputSource(input);
 
   try {
     const [rows, metadata] = await Promise.all([
       source.readTable(readOptions),
       source.readMetadata().catch(() => null),
     ]);
-    return { rows, metadata, title: sourceInput };
+    return { rows, metadata, title };
   } finally {
     await source.close();
   }
 }
 
 async function main(): Promise<void> {
-  const { input, options, limitSpecified, help, error } = parseArgs(process.argv.slice(2));
+  const { command, input, otherInput, options, limitSpecified, help, error } = parseArgs(
+    process.argv.slice(2),
+  );
 
   if (help) {
     printUsage();
@@ -445,7 +1011,37 @@ async function main(): Promise<void> {
   if (error) {
     process.stderr.write(`parquetlens: ${error}\n`);
     printUsage();
-    process.exitCode = 1;
+    process.exitCode = getErrorExitCode(process.argv.slice(2));
+    return;
+  }
+
+  if (command === "stats") {
+    await runStats(input, options);
+    return;
+  }
+
+  if (command === "diff") {
+    await runDiff(input, otherInput, options);
+    return;
+  }
+
+  if (command === "schema-diff") {
+    await runSchemaDiff(input, otherInput, options);
+    return;
+  }
+
+  if (command === "sql") {
+    await runSqlShell(input, options, limitSpecified);
+    return;
+  }
+
+  if (options.meta) {
+    await runMeta(input, options);
+    return;
+  }
+
+  if (options.report) {
+    await runLayoutReport(input, options.report, options);
     return;
   }
 
@@ -460,8 +1056,8 @@ async function main(): Promise<void> {
       return;
     }
 
-    let runSqlOnParquet: (input: string, query: string) => Promise<ParquetRow[]>;
-    let runSqlOnParquetFromStdin: (query: string) => Promise<ParquetRow[]>;
+    let runSqlOnParquet: typeof import("@parquetlens/sql").runSqlOnParquet;
+    let runSqlOnParquetFromStdin: typeof import("@parquetlens/sql").runSqlOnParquetFromStdin;
 
     try {
       ({ runSqlOnParquet, runSqlOnParquetFromStdin } = await import("@parquetlens/sql"));
@@ -474,45 +1070,34 @@ async function main(): Promise<void> {
       return;
     }
 
-    const rows =
+    const rows = selectRowWindow(
       source === "-"
-        ? await runSqlOnParquetFromStdin(options.sql)
-        : await runSqlOnParquet(source, options.sql);
+        ? await runSqlOnParquetFromStdin(options.sql, undefined, options.tables)
+        : await runSqlOnParquet(source, options.sql, options.tables),
+      options,
+    );
 
     const sqlColumns = getColumnDefsFromRows(rows, []);
 
-    // Use TUI for SQL results if not in JSON/plain mode
+    // Use TUI for SQL results if not in plain mode or another output format
     const wantsSqlTui =
-      !options.json &&
+      options.format === "table" &&
       options.tuiMode !== "off" &&
       source !== "-" &&
       process.stdin.isTTY &&
       process.stdout.isTTY;
 
     if (wantsSqlTui) {
-      if (isBunRuntime()) {
-        const { runTuiWithRows } = await importTuiModule();
-        const title = `SQL: ${options.sql.slice(0, 50)}${options.sql.length > 50 ? "..." : ""}`;
-        await runTuiWithRows(rows, title, { columns: [], maxRows: options.limit });
-        return;
-      }
-      // Spawn bun to re-run the query and display in TUI
-      const spawned = spawnBun(process.argv.slice(1));
-      if (spawned) {
-        return;
-      }
-      process.stderr.write("parquetlens: bun not found, falling back to plain output\n");
+      const { runTui } = await importTuiModule();
+      await runTui(source, {
+        columns: [],
+        sql: { query: options.sql, rows },
+        sqlTables: options.tables,
+      });
+      return;
     }
 
-    const preview = previewRows(rows, options.limit, sqlColumns);
-
-    if (options.json) {
-      for (const row of preview) {
-        process.stdout.write(`${JSON.stringify(row)}\n`);
-      }
-    } else {
-      printTable(preview, sqlColumns);
-    }
+    writeRows(rows, options.all ? rows.length : options.limit, sqlColumns, options);
     return;
   }
 
@@ -528,25 +1113,41 @@ async function main(): Promise<void> {
 
     if (!process.stdin.isTTY || !process.stdout.isTTY) {
       process.stderr.write("parquetlens: tui mode requires a tty, falling back to plain output\n");
-    } else if (!isBunRuntime()) {
-      const spawned = spawnBun(process.argv.slice(1));
-      if (spawned) {
-        return;
-      }
-      process.stderr.write("parquetlens: bun not found, falling back to plain output\n");
     } else {
       const { runTui } = await importTuiModule();
-      const maxRows = limitSpecified ? options.limit : undefined;
-
-      await runTui(input, { columns: options.columns, maxRows });
+      const maxRows =
+        limitSpecified && !options.all && options.tail === undefined
+          ? options.offset + options.limit
+          : undefined;
+
+      await runTui(input, {
+        columns: options.columns,
+        maxRows,
+        rowGroups: options.rowGroups.length > 0 ? options.rowGroups : undefined,
+        offset: options.offset,
+        tail: options.tail,
+        sqlTables: options.tables,
+      });
       return;
     }
   }
 
+  if (
+    options.all &&
+    options.tail === undefined &&
+    !options.schemaOnly &&
+    options.format !== "table"
+  ) {
+    await streamAllRows(input, options, options.format);
+    return;
+  }
+
   const readOptions: ParquetReadOptions = {
     columns: options.columns.length > 0 ? options.columns : undefined,
-    limit: options.schemaOnly ? 0 : options.limit,
-    offset: 0,
+    rowGroups: options.rowGroups.length > 0 ? options.rowGroups : undefined,
+    limit: options.schemaOnly ? 0 : options.all ? undefined : options.limit,
+    offset: options.offset,
+    tail: options.schemaOnly ? undefined : options.tail,
   };
 
   const { rows, metadata, title } = await loadRowsAndMetadata(input, readOptions);
@@ -554,33 +1155,685 @@ async function main(): Promise<void> {
 
   if (options.showSchema || options.schemaOnly) {
     const rowsCount = rows.length;
-    const limitSuffix = readOptions.limit ? ` (limit ${readOptions.limit})` : "";
+    const windowParts = [
+      readOptions.offset ? `offset ${readOptions.offset}` : "",
+      readOptions.tail !== undefined
+        ? `tail ${readOptions.tail}`
+        : readOptions.limit
+          ? `limit ${readOptions.limit}`
+          : "",
+    ].filter(Boolean);
+    const limitSuffix = windowParts.length > 0 ? ` (${windowParts.join(", ")})` : "";
     process.stdout.write(
       `file: ${path.basename(title)}\nrows loaded: ${rowsCount}${limitSuffix}\n`,
     );
     process.stdout.write("schema:\n");
-    process.stdout.write(`${formatSchema(columnDefs)}\n`);
+    const schemaNodes = options.schemaOnly ? selectSchemaNodes(metadata, options.columns) : [];
+    const schemaText =
+      schemaNodes.length > 0
+        ? formatSchemaTree(schemaNodes, collectColumnStatistics(metadata))
+        : formatSchema(columnDefs);
+    process.stdout.write(`${schemaText}\n`);
   }
 
   if (options.schemaOnly) {
     return;
   }
 
-  const preview = previewRows(rows, options.limit, columnDefs);
+  writeRows(rows, options.all ? rows.length : options.limit, columnDefs, options);
+}
+
+/**
+ * Write every row through the output formatter one batch at a time, waiting for
+ * stdout to drain so memory stays flat regardless of file size.
+ */
+async function streamAllRows(
+  input: string | undefined,
+  options: Options,
+  format: Exclude<OutputFormat, "table">,
+): Promise<void> {
+  const { source, title } = await openInputSource(input);
+  const controller = new AbortController();
+  let writeError: Error | null = null;
+  const onWriteError = (error: NodeJS.ErrnoException) => {
+    // A closed pipe (e.g. `| head`) just ends the stream.
+    if (error.code !== "EPIPE") {
+      writeError = error;
+    }
+    controller.abort();
+  };
+  process.stdout.on("error", onWriteError);
+
+  try {
+    const metadata = await source.readMetadata();
+    const columnDefs = getColumnDefs(metadata, [], options.columns);
+
+    if (options.showSchema) {
+      const rowCount = metadata.rowCount !== undefined ? String(metadata.rowCount) : "unknown";
+      await writeOutput(
+        `file: ${path.basename(title)}\nrows: ${rowCount}\nschema:\n${formatSchema(columnDefs)}\n`,
+        controller.signal,
+      );
+    }
+
+    const formatter = createRowFormatter(
+      format,
+      columnDefs.map((column) => column.name),
+      options.encoding,
+    );
+    await writeOutput(formatter.begin(), controller.signal);
+
+    const batches = source.streamRows({
+      columns: options.columns.length > 0 ? options.columns : undefined,
+      rowGroups: options.rowGroups.length > 0 ? options.rowGroups : undefined,
+      batchSize: STREAM_BATCH_ROWS,
+      offset: options.offset,
+      signal: controller.signal,
+    });
+    for await (const batch of batches) {
+      const rows = Array.isArray(batch) ? batch : [batch];
+      await writeOutput(rows.map(formatter.row).join(""), controller.signal);
+    }
+
+    await writeOutput(formatter.end(), controller.signal);
+  } finally {
+    process.stdout.off("error", onWriteError);
+    await source.close();
+  }
+
+  if (writeError) {
+    throw writeError;
+  }
+}
+
+/**
+ * Profile the selected columns in one streaming pass. With --footer, columns
+ * whose footer statistics are complete are answered from the footer and never
+ * read, at the cost of everything but null count, distinct count and min/max.
+ */
+async function runStats(input: string | undefined, options: Options): Promise<void> {
+  const { source, title } = await openInputSource(input);
+
+  try {
+    const metadata = await source.readMetadata();
+    const columnDefs = getColumnDefs(metadata, [], options.columns);
+    const rowGroupLayouts = metadata.layout?.rowGroups ?? [];
+    const rowGroups = options.rowGroups.length > 0 ? options.rowGroups : undefined;
+    for (const index of rowGroups ?? []) {
+      if (index >= rowGroupLayouts.length) {
+        throw new Error(
+          `row group ${index} out of range (file has ${rowGroupLayouts.length} row groups)`,
+        );
+      }
+    }
+
+    const selectedLayouts = rowGroups
+      ? rowGroupLayouts.filter((rowGroup) => rowGroups.includes(rowGroup.index))
+      : rowGroupLayouts;
+    const footerRows = selectedLayouts.reduce(
+      (sum, rowGroup) => sum + Number(rowGroup.numRows ?? 0n),
+      0,
+    );
+    const profiles = new Map<string, ColumnProfile>();
+
+    if (options.footer) {
+      const statistics = collectColumnStatistics(metadata, rowGroups);
+      for (const column of columnDefs) {
+        const profile = profileFromFooter(
+          column.name,
+          column.type,
+          footerRows,
+          statistics.get(column.name),
+        );
+        if (profile) {
+          profiles.set(column.name, profile);
+        }
+      }
+    }
+
+    const scanColumns = columnDefs.filter((column) => !profiles.has(column.name));
+    if (scanColumns.length > 0) {
+      const profilers = scanColumns.map((column) =>
+        createColumnProfiler(column.name, column.type, options.topK),
+      );
+      const batches = source.streamRows({
+        columns: scanColumns.map((column) => column.name),
+        rowGroups,
+        batchSize: STREAM_BATCH_ROWS,
+      });
+      for await (const batch of batches) {
+        for (const row of Array.isArray(batch) ? batch : [batch]) {
+          scanColumns.forEach((column, index) => profilers[index].add(row[column.name]));
+        }
+      }
+      for (const profiler of profilers) {
+        const profile = profiler.finish();
+        profiles.set(profile.name, profile);
+      }
+    }
+
+    const ordered = columnDefs.map((column) => profiles.get(column.name)!);
+    if (options.format === "json" || options.format === "ndjson") {
+      const fields = STATS_JSON_FIELDS.map((name) => ({ name, type: "" }));
+      writeRows(ordered, ordered.length, fields, options);
+      return;
+    }
+
+    if (options.format === "table") {
+      process.stdout.write(`file: ${path.basename(title)}\nrows: ${footerRows}\n`);
+    }
+    const fields = STATS_TABLE_FIELDS.map((name) => ({ name, type: "" }));
+    writeRows(ordered.map(formatProfileRow), ordered.length, fields, options);
+  } finally {
+    await source.close();
+  }
+}
+
+const STATS_JSON_FIELDS = [
+  "name",
+  "type",
+  "source",
+  "rows",
+  "nullCount",
+  "distinct",
+  "min",
+  "max",
+  "mean",
+  "stddev",
+  "length",
+  "top",
+  "topApproximate",
+];
+
+const STATS_TABLE_FIELDS = [
+  "column",
+  "type",
+  "nulls",
+  "distinct",
+  "min",
+  "max",
+  "mean",
+  "stddev",
+  "length min/avg/max",
+  "top values",
+];
+
+function formatProfileRow(profile: ColumnProfile): Record<string, unknown> {
+  const approximate = profile.topApproximate ? "~" : "";
+  return {
+    column: profile.name,
+    type: profile.type,
+    nulls: profile.nullCount,
+    // Scans estimate distinct values; footer counts are exact.
+    distinct:
+      profile.distinct === undefined
+        ? undefined
+        : `${profile.source === "scan" ? "~" : ""}${profile.distinct}`,
+    min: formatCell(profile.min),
+    max: formatCell(profile.max),
+    mean: profile.mean === undefined ? undefined : formatStatNumber(profile.mean),
+    stddev: profile.stddev === undefined ? undefined : formatStatNumber(profile.stddev),
+    "length min/avg/max": profile.length
+      ? `${profile.length.min}/${formatStatNumber(profile.length.mean)}/${profile.length.max}`
+      : undefined,
+    "top values": profile.top
+      ?.map((entry) => `${entry.value} (${approximate}${entry.count})`)
+      .join(", "),
+  };
+}
+
+function formatStatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(6)));
+}
+
+/**
+ * Print the layout tab (one line per column chunk) or the bytes tab (bytes per
+ * column) without the TUI, in any output format.
+ */
+async function runLayoutReport(
+  input: string | undefined,
+  report: "layout" | "bytes",
+  options: Options,
+): Promise<void> {
+  const { source, title } = await openInputSource(input);
+
+  try {
+    const metadata = await source.readMetadata();
+    const layout = metadata.layout;
+    if (!layout) {
+      throw new Error("file layout is not available");
+    }
+    for (const index of options.rowGroups) {
+      if (index >= layout.rowGroups.length) {
+        throw new Error(
+          `row group ${index} out of range (file has ${layout.rowGroups.length} row groups)`,
+        );
+      }
+    }
+
+    const reportOptions = { rowGroups: options.rowGroups, columns: options.columns };
+    const flat = options.format !== "json" && options.format !== "ndjson";
+    if (options.format === "table") {
+      const summary =
+        report === "layout"
+          ? `magic: start ${layout.magic.start}, bytes ${layout.magic.bytes} | row groups: ${layout.rowGroups.length}`
+          : formatBytesSummary(layout, reportOptions);
+      process.stdout.write(`file: ${path.basename(title)}\n${summary}\n`);
+    }
+
+    const rows =
+      report === "layout"
+        ? buildLayoutRows(layout, reportOptions, flat)
+        : buildBytesRows(layout, reportOptions, flat);
+    const fieldNames =
+      report === "layout"
+        ? flat
+          ? LAYOUT_TABLE_FIELDS
+          : LAYOUT_JSON_FIELDS
+        : flat
+          ? BYTES_TABLE_FIELDS
+          : BYTES_JSON_FIELDS;
+    const fields = fieldNames.map((name) => ({ name, type: "" }));
+    writeRows(rows, rows.length, fields, options);
+  } finally {
+    await source.close();
+  }
+}
+
+/** Print the raw footer: readable text for table format, the full thrift structure as JSON otherwise. */
+async function runMeta(input: string | undefined, options: Options): Promise<void> {
+  if (options.format !== "table" && options.format !== "json" && options.format !== "ndjson") {
+    throw new Error(`--meta does not support --format ${options.format}`);
+  }
+
+  const { source } = await openInputSource(input);
+
+  try {
+    const metadata = await source.readRawMetadata();
+    if (options.format === "table") {
+      process.stdout.write(formatFileMetadata(metadata, options.encoding));
+    } else {
+      const footer = encodeFileMetadata(metadata, options.encoding);
+      process.stdout.write(
+        `${options.format === "json" ? JSON.stringify(footer, null, 2) : JSON.stringify(footer)}\n`,
+      );
+    }
+  } finally {
+    await source.close();
+  }
+}
+
+/**
+ * Compare two files row by row, by --key or by position, and exit with 1 when
+ * they differ (errors exit with 2). Table format prints a text diff or opens
+ * the diff viewer.
+ */
+async function runDiff(
+  leftInput: string | undefined,
+  rightInput: string | undefined,
+  options: Options,
+): Promise<void> {
+  if (!leftInput || !rightInput) {
+    throw new Error("diff needs two inputs: parquetlens diff <a> <b>");
+  }
+  if (leftInput === "-" && rightInput === "-") {
+    throw new Error("only one diff input can be read from stdin");
+  }
+  if (options.format !== "table" && options.format !== "json" && options.format !== "ndjson") {
+    throw new Error(`diff does not support --format ${options.format}`);
+  }
 
-  if (options.json) {
-    for (const row of preview) {
-      process.stdout.write(`${JSON.stringify(row)}\n`);
+  // Unlike the row viewer, auto mode prints text when piped so diffs work in scripts.
+  const wantsTui =
+    resolveTuiMode(options.tuiMode, options) &&
+    leftInput !== "-" &&
+    rightInput !== "-" &&
+    (options.tuiMode === "on" || (!!process.stdin.isTTY && !!process.stdout.isTTY));
+  const left = await openInputSource(leftInput);
+  const right = await openInputSource(rightInput);
+  const controller = new AbortController();
+  let writeError: Error | null = null;
+  const onWriteError = (error: NodeJS.ErrnoException) => {
+    // A closed pipe (e.g. `| head`) just ends the diff.
+    if (error.code !== "EPIPE") {
+      writeError = error;
     }
+    controller.abort();
+  };
+  process.stdout.on("error", onWriteError);
+
+  try {
+    const [leftMetadata, rightMetadata] = await Promise.all([
+      left.source.readMetadata(),
+      right.source.readMetadata(),
+    ]);
+    const leftNames = leftMetadata.columns.map((column) => column.name);
+    const rightNames = rightMetadata.columns.map((column) => column.name);
+    const shared = leftNames.filter((name) => rightNames.includes(name));
+
+    const missingKeys = options.key.filter((name) => !shared.includes(name));
+    if (missingKeys.length > 0) {
+      throw new Error(`key columns missing from one of the files: ${missingKeys.join(", ")}`);
+    }
+    const missingColumns = options.columns.filter((name) => !shared.includes(name));
+    if (missingColumns.length > 0) {
+      throw new Error(`unknown columns: ${missingColumns.join(", ")}`);
+    }
+
+    const columns = (options.columns.length > 0 ? options.columns : shared).filter(
+      (name) => !options.key.includes(name),
+    );
+    const readColumns = Array.from(new Set([...options.key, ...columns]));
+    const onlyLeft = leftNames.filter((name) => !rightNames.includes(name));
+    const onlyRight = rightNames.filter((name) => !leftNames.includes(name));
+    const diffOptions = { key: options.key, columns };
+    const leftRows = streamSourceRows(left.source, readColumns, controller.signal);
+    const rightRows = streamSourceRows(right.source, readColumns, controller.signal);
+
+    if (wantsTui) {
+      const changes: DiffChange[] = [];
+      const summary = await diffRows(leftRows, rightRows, diffOptions, (change) => {
+        if (changes.length < DIFF_TUI_MAX_CHANGES) {
+          changes.push(change);
+        }
+      });
+      setDiffExitCode(summary);
+      const { runDiffTui } = await importTuiModule();
+      await runDiffTui({
+        title: `${path.basename(left.title)} → ${path.basename(right.title)}`,
+        keyColumns: options.key,
+        columns,
+        changes,
+        summary,
+      });
+      return;
+    }
+
+    if (options.format === "table") {
+      await writeOutput(`--- ${left.title}\n+++ ${right.title}\n`, controller.signal);
+    }
+
+    const summary = await diffRows(leftRows, rightRows, diffOptions, (change) =>
+      writeOutput(
+        options.format === "table"
+          ? formatDiffChange(change, options.encoding)
+          : `${JSON.stringify(encodeDiffChange(change, readColumns, options.encoding))}\n`,
+        controller.signal,
+      ),
+    );
+
+    if (options.format === "table") {
+      await writeOutput(formatDiffSummary(summary, onlyLeft, onlyRight), controller.signal);
+    } else {
+      await writeOutput(
+        `${JSON.stringify({ type: "summary", ...summary, onlyLeft, onlyRight })}\n`,
+        controller.signal,
+      );
+    }
+    setDiffExitCode(summary);
+  } finally {
+    process.stdout.off("error", onWriteError);
+    await Promise.all([left.source.close(), right.source.close()]);
+  }
+
+  if (writeError) {
+    throw writeError;
+  }
+}
+
+function setDiffExitCode(summary: DiffSummary): void {
+  if (summary.added + summary.removed + summary.changed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function* streamSourceRows(
+  source: ParquetSource,
+  columns: string[],
+  signal?: AbortSignal,
+): AsyncGenerator<ParquetRow> {
+  const batches = source.streamRows({
+    columns: columns.length > 0 ? columns : undefined,
+    batchSize: STREAM_BATCH_ROWS,
+    signal,
+  });
+  for await (const batch of batches) {
+    yield* Array.isArray(batch) ? batch : [batch];
+  }
+}
+
+function formatDiffChange(change: DiffChange, encoding: ValueEncoding): string {
+  const key = formatDiffKey(change.key);
+  if (change.type === "changed") {
+    const cells = change.columns.map(
+      (name) =>
+        `${name}: ${formatDiffValue(change.left[name], encoding)} -> ${formatDiffValue(change.right[name], encoding)}`,
+    );
+    return `~ ${key}  ${cells.join(", ")}\n`;
+  }
+  const marker = change.type === "added" ? "+" : "-";
+  const row = encodeRow(change.row, Object.keys(change.row), encoding);
+  return `${marker} ${key}  ${JSON.stringify(row)}\n`;
+}
+
+function formatDiffValue(value: unknown, encoding: ValueEncoding): string {
+  return JSON.stringify(encodeValue(value, encoding));
+}
+
+function formatDiffSummary(summary: DiffSummary, onlyLeft: string[], onlyRight: string[]): string {
+  const lines = [
+    `rows: ${summary.leftRows} -> ${summary.rightRows} | added ${summary.added} | removed ${summary.removed} | changed ${summary.changed} | unchanged ${summary.unchanged}`,
+  ];
+  const changedColumns = Object.entries(summary.changedColumns)
+    .filter(([, count]) => count > 0)
+    .map(([name, count]) => `${name} ${count}`);
+  if (changedColumns.length > 0) {
+    lines.push(`changed columns: ${changedColumns.join(", ")}`);
+  }
+  if (onlyLeft.length > 0) {
+    lines.push(`only in first file: ${onlyLeft.join(", ")}`);
+  }
+  if (onlyRight.length > 0) {
+    lines.push(`only in second file: ${onlyRight.join(", ")}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function encodeDiffChange(
+  change: DiffChange,
+  columns: string[],
+  encoding: ValueEncoding,
+): Record<string, JsonValue> {
+  const key = encodeValue(change.key, encoding);
+  if (change.type === "changed") {
+    return {
+      type: change.type,
+      key,
+      columns: change.columns,
+      left: encodeRow(change.left, columns, encoding),
+      right: encodeRow(change.right, columns, encoding),
+    };
+  }
+  return { type: change.type, key, row: encodeRow(change.row, columns, encoding) };
+}
+
+/**
+ * Compare the schemas and key-value metadata of two files. Exits with 1 when
+ * they differ so CI jobs can gate on schema drift, and with 2 on errors.
+ */
+async function runSchemaDiff(
+  leftInput: string | undefined,
+  rightInput: string | undefined,
+  options: Options,
+): Promise<void> {
+  if (!leftInput || !rightInput) {
+    throw new Error("schema-diff needs two inputs: parquetlens schema-diff <a> <b>");
+  }
+  if (leftInput === "-" && rightInput === "-") {
+    throw new Error("only one schema-diff input can be read from stdin");
+  }
+  if (options.format !== "table" && options.format !== "json" && options.format !== "ndjson") {
+    throw new Error(`schema-diff does not support --format ${options.format}`);
+  }
+
+  const left = await openInputSource(leftInput);
+  const right = await openInputSource(rightInput);
+
+  try {
+    const [leftMetadata, rightMetadata] = await Promise.all([
+      left.source.readMetadata(),
+      right.source.readMetadata(),
+    ]);
+    const changes = diffSchemas(leftMetadata, rightMetadata);
+    const counts = countSchemaChanges(changes);
+
+    if (options.format === "table") {
+      const lines = [`--- ${left.title}`, `+++ ${right.title}`, ...changes.map(formatSchemaChange)];
+      lines.push(
+        `schema: ${counts.added} added | ${counts.removed} removed | ${counts.renamed} renamed | ${counts.typeChanged} type changed | ${counts.repetitionChanged} repetition changed | metadata: ${counts.metadata} changed`,
+      );
+      process.stdout.write(`${lines.join("\n")}\n`);
+    } else {
+      for (const change of changes) {
+        process.stdout.write(`${JSON.stringify(change)}\n`);
+      }
+      process.stdout.write(`${JSON.stringify({ type: "summary", ...counts })}\n`);
+    }
+
+    if (changes.length > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await Promise.all([left.source.close(), right.source.close()]);
+  }
+}
+
+/**
+ * Interactive SQL over one file. Reads statements from stdin, so the file
+ * itself cannot come from stdin; piped input runs without prompts or history.
+ */
+async function runSqlShell(
+  input: string | undefined,
+  options: Options,
+  limitSpecified: boolean,
+): Promise<void> {
+  if (!input || input === "-") {
+    throw new Error("sql needs a file or URL: parquetlens sql <file|url>");
+  }
+
+  let openSqlSession: typeof import("@parquetlens/sql").openSqlSession;
+  try {
+    ({ openSqlSession } = await import("@parquetlens/sql"));
+  } catch (caught) {
+    const message = caught instanceof Error ? caught.message : String(caught);
+    throw new Error(`SQL support requires the optional @parquetlens/sql package (${message})`);
+  }
+
+  const terminal = Boolean(process.stdin.isTTY && process.stdout.isTTY);
+  const session = await openSqlSession(input, options.tables);
+  try {
+    await runSqlRepl({
+      session,
+      input: process.stdin,
+      output: process.stdout,
+      errorOutput: process.stderr,
+      terminal,
+      historyPath: terminal ? path.join(getConfigDirectory(), "sql_history") : undefined,
+      printTable: (rows, out) => {
+        const columns = getColumnDefsFromRows(rows, []);
+        printTable(previewRows(rows, rows.length, columns), columns, out);
+      },
+      // Shells print whole results unless asked otherwise; --limit caps table output.
+      limit: options.all || !limitSpecified ? Number.POSITIVE_INFINITY : options.limit,
+      format: options.format,
+      encoding: options.encoding,
+    });
+  } finally {
+    await session.close();
+  }
+}
+
+function countSchemaChanges(changes: SchemaChange[]) {
+  const count = (type: SchemaChange["type"]) =>
+    changes.filter((change) => change.type === type).length;
+  return {
+    added: count("added"),
+    removed: count("removed"),
+    renamed: count("renamed"),
+    typeChanged: count("type-changed"),
+    repetitionChanged: count("repetition-changed"),
+    metadata: changes.filter((change) => change.type.startsWith("metadata-")).length,
+  };
+}
+
+function formatSchemaChange(change: SchemaChange): string {
+  const from = truncateText(change.from ?? "", SCHEMA_DIFF_VALUE_WIDTH);
+  const to = truncateText(change.to ?? "", SCHEMA_DIFF_VALUE_WIDTH);
+  switch (change.type) {
+    case "added":
+      return `+ ${change.path}: ${to}`;
+    case "removed":
+      return `- ${change.path}: ${from}`;
+    case "renamed":
+      return `~ ${change.from} -> ${change.path}: renamed`;
+    case "type-changed":
+      return `~ ${change.path}: type ${from} -> ${to}`;
+    case "repetition-changed":
+      return `~ ${change.path}: ${from} -> ${to}`;
+    case "metadata-added":
+      return `+ metadata ${change.path}: ${to}`;
+    case "metadata-removed":
+      return `- metadata ${change.path}: ${from}`;
+    case "metadata-changed":
+      return `~ metadata ${change.path}: ${from} -> ${to}`;
+  }
+}
+
+async function writeOutput(text: string, signal: AbortSignal): Promise<void> {
+  if (text.length === 0 || signal.aborted || process.stdout.write(text)) {
     return;
   }
+  try {
+    await once(process.stdout, "drain", { signal });
+  } catch {
+    // Write errors are reported through the stdout error listener.
+  }
+}
+
+async function openInputSource(
+  input: string | undefined,
+): Promise<{ source: ParquetSource; title: string }> {
+  const stdinFallback = process.stdin.isTTY ? undefined : "-";
+  const sourceInput = input ?? stdinFallback;
+
+  if (!sourceInput) {
+    throw new Error("missing input file (pass a path, URL, or pipe stdin)");
+  }
+
+  if (sourceInput === "-") {
+    const buffer = await readStdinBuffer();
+    return { source: await openParquetSourceFromBuffer(buffer), title: "stdin" };
+  }
 
-  printTable(preview, columnDefs);
+  return { source: await openParquetSource(sourceInput), title: sourceInput };
+}
+
+function selectSchemaNodes(
+  metadata: ParquetMetadata | null,
+  requestedColumns: string[],
+): ParquetSchemaNode[] {
+  const nodes = metadata?.schema ?? [];
+  if (requestedColumns.length === 0) {
+    return nodes;
+  }
+  return requestedColumns
+    .map((name) => nodes.find((node) => node.name === name))
+    .filter((node): node is ParquetSchemaNode => node !== undefined);
 }
 
 function resolveTuiMode(mode: TuiMode, options: Options): boolean {
   if (mode === "on") {
-    if (options.json || options.schemaOnly) {
+    if (options.format !== "table" || options.schemaOnly) {
       return false;
     }
     return true;
@@ -590,30 +1843,21 @@ function resolveTuiMode(mode: TuiMode, options: Options): boolean {
     return false;
   }
 
-  return !options.json && !options.schemaOnly;
+  return options.format === "table" && !options.schemaOnly;
 }
 
 function isBunRuntime(): boolean {
   return !!process.versions.bun;
 }
 
-function spawnBun(argv: string[]): boolean {
-  const bunCheck = spawnSync("bun", ["--version"], { stdio: "ignore" });
-  if (bunCheck.error || bunCheck.status !== 0) {
-    return false;
-  }
-
-  const result = spawnSync("bun", [__parquetlens_filename, ...argv.slice(1)], {
-    stdio: "inherit",
-    env: { ...process.env, PARQUETLENS_BUN: "1" },
-  });
-
-  process.exitCode = result.status ?? 1;
-  return true;
-}
-
 async function importTuiModule(): Promise<typeof import("./tui.js")> {
   const extension = path.extname(__parquetlens_filename);
+  if (!isBunRuntime()) {
+    // OpenTUI targets Bun; under Node its FFI and Bun helpers are shimmed first.
+    const runtimePath = extension === ".js" ? "./runtime/node.js" : "./runtime/node.ts";
+    const { installNodeRuntime }: typeof import("./runtime/node.js") = await import(runtimePath);
+    installNodeRuntime();
+  }
   const modulePath = extension === ".js" ? "./tui.js" : "./tui.tsx";
   return import(modulePath);
 }
@@ -635,5 +1879,5 @@ async function readStdinBuffer(): Promise<Uint8Array> {
 main().catch((error) => {
   const message = error instanceof Error ? error.message : String(error);
   process.stderr.write(`parquetlens: ${message}\n`);
-  process.exitCode = 1;
+  process.exitCode = getErrorExitCode(process.argv.slice(2));
 });
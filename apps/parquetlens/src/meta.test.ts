@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import type { ParquetRawMetadata } from "@parquetlens/parquet-reader";
+
+import { DEFAULT_VALUE_ENCODING, type JsonValue } from "./encoding.js";
+import { encodeFileMetadata, formatFileMetadata } from "./meta.js";
+
+const METADATA: ParquetRawMetadata = {
+  version: 2,
+  schema: [
+    { name: "root", num_children: 1 },
+    {
+      name: "city",
+      type: "BYTE_ARRAY",
+      repetition_type: "OPTIONAL",
+      converted_type: "UTF8",
+      logical_type: { type: "STRING" },
+    },
+  ],
+  num_rows: 2n,
+  row_groups: [
+    {
+      columns: [
+        {
+          file_offset: 4n,
+          meta_data: {
+            type: "BYTE_ARRAY",
+            encodings: ["PLAIN", "RLE"],
+            path_in_schema: ["city"],
+            codec: "SNAPPY",
+            num_values: 2n,
+            total_uncompressed_size: 40n,
+            total_compressed_size: 30n,
+            data_page_offset: 4n,
+            // The reader keeps BYTE_ARRAY statistics as raw bytes.
+            statistics: {
+              null_count: 0n,
+              min_value: new TextEncoder().encode("Austin"),
+              max_value: new TextEncoder().encode("Reno"),
+            },
+          },
+        },
+      ],
+      total_byte_size: 40n,
+      num_rows: 2n,
+      sorting_columns: [{ column_idx: 0, descending: true, nulls_first: false }],
+    },
+  ],
+  key_value_metadata: [{ key: "writer", value: "test" }],
+  metadata_length: 120,
+};
+
+/** Follow object keys and array indexes into encoded JSON. */
+function pick(value: JsonValue, ...path: (string | number)[]): JsonValue | undefined {
+  let current: JsonValue | undefined = value;
+  for (const key of path) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = Array.isArray(current)
+      ? typeof key === "number"
+        ? current[key]
+        : undefined
+      : current[String(key)];
+  }
+  return current;
+}
+
+describe("encodeFileMetadata", () => {
+  it("decodes statistics, omits absent fields and keeps bigints exact", () => {
+    const footer = encodeFileMetadata(METADATA, DEFAULT_VALUE_ENCODING);
+
+    expect(pick(footer, "num_rows")).toBe("2");
+    expect(pick(footer, "schema", 0)).toEqual({ name: "root", num_children: 1 });
+    expect(pick(footer, "row_groups", 0, "columns", 0, "meta_data", "statistics")).toEqual({
+      null_count: "0",
+      min_value: "Austin",
+      max_value: "Reno",
+    });
+  });
+});
+
+describe("formatFileMetadata", () => {
+  it("renders row groups, sorting columns and column chunks", () => {
+    const text = formatFileMetadata(METADATA, DEFAULT_VALUE_ENCODING);
+
+    expect(text).toContain("key-value metadata:\n  writer: test");
+    expect(text).toContain("row group 0: 2 rows, 40 bytes\n  sorted by: city desc nulls last");
+    expect(text).toContain("    statistics: min Austin, max Reno, nulls 0");
+  });
+});
@@ -0,0 +1,265 @@
+import {
+  decodeStatisticsValue,
+  type ParquetRawMetadata,
+  type ParquetSchemaElement,
+  type ParquetStatisticsValue,
+} from "@parquetlens/parquet-reader";
+
+import { encodeValue, type JsonValue, type ValueEncoding } from "./encoding.js";
+import { truncateText } from "./formatting.js";
+
+type RawColumnChunk = ParquetRawMetadata["row_groups"][number]["columns"][number];
+type RawStatistics = NonNullable<NonNullable<RawColumnChunk["meta_data"]>["statistics"]>;
+
+// Text output shortens long metadata values; the JSON dump keeps them whole.
+const META_VALUE_WIDTH = 80;
+
+const STATISTICS_VALUE_FIELDS = ["min", "max", "min_value", "max_value"] as const;
+
+type StatisticsValueField = (typeof STATISTICS_VALUE_FIELDS)[number];
+
+type DecodedStatistics = Omit<RawStatistics, StatisticsValueField> &
+  Partial<Record<StatisticsValueField, ParquetStatisticsValue>>;
+
+type DecodedColumnChunk = Omit<RawColumnChunk, "meta_data"> & {
+  meta_data?: Omit<NonNullable<RawColumnChunk["meta_data"]>, "statistics"> & {
+    statistics?: DecodedStatistics;
+  };
+};
+
+/**
+ * Encode the complete footer as JSON. Field names follow the Parquet thrift
+ * definitions; absent optional fields are omitted and statistics are decoded
+ * against their column's type instead of left as raw bytes.
+ */
+export function encodeFileMetadata(
+  metadata: ParquetRawMetadata,
+  encoding: ValueEncoding,
+): JsonValue {
+  const elements = indexSchemaElements(metadata.schema);
+  const footer = {
+    ...metadata,
+    row_groups: metadata.row_groups.map((rowGroup) => ({
+      ...rowGroup,
+      columns: rowGroup.columns.map((chunk) => decodeChunkStatistics(chunk, elements)),
+    })),
+  };
+  return encodeValue(omitUndefined(footer), encoding);
+}
+
+/** Render the footer as indented text: file summary, schema, then each row group and column chunk. */
+export function formatFileMetadata(metadata: ParquetRawMetadata, encoding: ValueEncoding): string {
+  const elements = indexSchemaElements(metadata.schema);
+  const format = (value: unknown) => formatMetaValue(value, encoding);
+  const lines = [
+    `version: ${metadata.version}`,
+    `created by: ${metadata.created_by ?? "unknown"}`,
+    `rows: ${format(metadata.num_rows)}`,
+    `row groups: ${metadata.row_groups.length}`,
+    `footer: ${metadata.metadata_length} bytes`,
+  ];
+
+  const keyValues = metadata.key_value_metadata ?? [];
+  if (keyValues.length > 0) {
+    lines.push("key-value metadata:");
+    for (const entry of keyValues) {
+      lines.push(`  ${entry.key}: ${truncateText(entry.value ?? "", META_VALUE_WIDTH)}`);
+    }
+  }
+
+  lines.push("schema:");
+  formatSchemaElements(metadata.schema, lines);
+
+  metadata.row_groups.forEach((rowGroup, index) => {
+    const details = [
+      `${format(rowGroup.num_rows)} rows`,
+      `${format(rowGroup.total_byte_size)} bytes`,
+      rowGroup.total_compressed_size !== undefined
+        ? `${format(rowGroup.total_compressed_size)} compressed`
+        : "",
+      rowGroup.file_offset !== undefined ? `offset ${format(rowGroup.file_offset)}` : "",
+    ].filter(Boolean);
+    lines.push(`row group ${rowGroup.ordinal ?? index}: ${details.join(", ")}`);
+
+    if (rowGroup.sorting_columns && rowGroup.sorting_columns.length > 0) {
+      const sorting = rowGroup.sorting_columns.map((column) => {
+        const name = rowGroup.columns[column.column_idx]?.meta_data?.path_in_schema.join(".");
+        return `${name ?? `#${column.column_idx}`} ${column.descending ? "desc" : "asc"} nulls ${
+          column.nulls_first ? "first" : "last"
+        }`;
+      });
+      lines.push(`  sorted by: ${sorting.join(", ")}`);
+    }
+
+    for (const chunk of rowGroup.columns) {
+      lines.push(...formatColumnChunk(decodeChunkStatistics(chunk, elements), format));
+    }
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+function formatColumnChunk(
+  chunk: DecodedColumnChunk,
+  format: (value: unknown) => string,
+): string[] {
+  const meta = chunk.meta_data;
+  if (!meta) {
+    return [`  (column metadata not available, offset ${format(chunk.file_offset)})`];
+  }
+
+  const offsets = [
+    `data page ${format(meta.data_page_offset)}`,
+    meta.dictionary_page_offset !== undefined
+      ? `dictionary page ${format(meta.dictionary_page_offset)}`
+      : "",
+    chunk.column_index_offset !== undefined
+      ? `column index ${format(chunk.column_index_offset)}+${chunk.column_index_length ?? 0}`
+      : "",
+    chunk.offset_index_offset !== undefined
+      ? `offset index ${format(chunk.offset_index_offset)}+${chunk.offset_index_length ?? 0}`
+      : "",
+    meta.bloom_filter_offset !== undefined
+      ? `bloom filter ${format(meta.bloom_filter_offset)}+${meta.bloom_filter_length ?? "?"}`
+      : "",
+  ].filter(Boolean);
+
+  const lines = [
+    `  ${meta.path_in_schema.join(".")}: ${meta.type} ${meta.codec}, ${format(meta.num_values)} values, ${format(
+      meta.total_compressed_size,
+    )} / ${format(meta.total_uncompressed_size)} bytes compressed / uncompressed`,
+    `    encodings: ${meta.encodings.join(", ")}`,
+    `    offsets: ${offsets.join(", ")}`,
+  ];
+
+  const statistics = meta.statistics ? formatStatistics(meta.statistics, format) : "";
+  if (statistics) {
+    lines.push(`    statistics: ${statistics}`);
+  }
+  if (meta.key_value_metadata && meta.key_value_metadata.length > 0) {
+    const entries = meta.key_value_metadata.map(
+      (entry) => `${entry.key}=${truncateText(entry.value ?? "", META_VALUE_WIDTH)}`,
+    );
+    lines.push(`    key-value metadata: ${entries.join(", ")}`);
+  }
+  return lines;
+}
+
+function formatStatistics(
+  statistics: DecodedStatistics,
+  format: (value: unknown) => string,
+): string {
+  const parts: string[] = [];
+  const min = statistics.min_value ?? statistics.min;
+  const max = statistics.max_value ?? statistics.max;
+  if (min !== undefined) {
+    parts.push(`min ${format(min)}${statistics.is_min_value_exact === false ? " (inexact)" : ""}`);
+  }
+  if (max !== undefined) {
+    parts.push(`max ${format(max)}${statistics.is_max_value_exact === false ? " (inexact)" : ""}`);
+  }
+  if (statistics.min_value === undefined && statistics.min !== undefined) {
+    parts.push("legacy min/max");
+  }
+  if (statistics.null_count !== undefined) {
+    parts.push(`nulls ${format(statistics.null_count)}`);
+  }
+  if (statistics.distinct_count !== undefined) {
+    parts.push(`distinct ${format(statistics.distinct_count)}`);
+  }
+  return parts.join(", ");
+}
+
+function formatSchemaElements(schema: ParquetSchemaElement[], lines: string[]): void {
+  let index = 0;
+  const visit = (depth: number) => {
+    const element = schema[index];
+    index += 1;
+    if (!element) {
+      return;
+    }
+    const details = [
+      element.type,
+      element.type_length !== undefined ? `length ${element.type_length}` : "",
+      element.repetition_type?.toLowerCase(),
+      element.converted_type ? `converted ${element.converted_type}` : "",
+      element.logical_type ? `logical ${JSON.stringify(element.logical_type)}` : "",
+      element.precision !== undefined
+        ? `precision ${element.precision}, scale ${element.scale ?? 0}`
+        : "",
+      element.field_id !== undefined ? `field id ${element.field_id}` : "",
+      element.num_children ? `${element.num_children} children` : "",
+    ].filter(Boolean);
+    lines.push(`${"  ".repeat(depth + 1)}${element.name}: ${details.join(", ")}`);
+    for (let child = 0; child < (element.num_children ?? 0); child += 1) {
+      visit(depth + 1);
+    }
+  };
+  visit(0);
+}
+
+/** Map dotted leaf paths (as in `path_in_schema`) to their schema elements. */
+function indexSchemaElements(schema: ParquetSchemaElement[]): Map<string, ParquetSchemaElement> {
+  const elements = new Map<string, ParquetSchemaElement>();
+  let index = 1;
+  const visit = (parent: string[]) => {
+    const element = schema[index];
+    index += 1;
+    if (!element) {
+      return;
+    }
+    const path = [...parent, element.name];
+    if (!element.num_children) {
+      elements.set(path.join("."), element);
+    }
+    for (let child = 0; child < (element.num_children ?? 0); child += 1) {
+      visit(path);
+    }
+  };
+  for (let child = 0; child < (schema[0]?.num_children ?? 0); child += 1) {
+    visit([]);
+  }
+  return elements;
+}
+
+function decodeChunkStatistics(
+  chunk: RawColumnChunk,
+  elements: Map<string, ParquetSchemaElement>,
+): DecodedColumnChunk {
+  const statistics = chunk.meta_data?.statistics;
+  if (!chunk.meta_data || !statistics) {
+    return chunk;
+  }
+  const element = elements.get(chunk.meta_data.path_in_schema.join("."));
+  const decoded: DecodedStatistics = { ...statistics };
+  for (const field of STATISTICS_VALUE_FIELDS) {
+    decoded[field] = decodeStatisticsValue(statistics[field], element);
+  }
+  return { ...chunk, meta_data: { ...chunk.meta_data, statistics: decoded } };
+}
+
+function formatMetaValue(value: unknown, encoding: ValueEncoding): string {
+  const encoded = encodeValue(value, encoding);
+  return typeof encoded === "object" && encoded !== null
+    ? JSON.stringify(encoded)
+    : String(encoded);
+}
+
+function omitUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(omitUndefined);
+  }
+  if (
+    value === null ||
+    typeof value !== "object" ||
+    value instanceof Date ||
+    value instanceof Uint8Array
+  ) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => [key, omitUndefined(item)]),
+  );
+}
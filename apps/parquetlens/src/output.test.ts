@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_VALUE_ENCODING } from "./encoding.js";
+import { createRowFormatter, type OutputFormat } from "./output.js";
+
+function render(format: Exclude<OutputFormat, "table">, rows: Record<string, unknown>[]): string {
+  const formatter = createRowFormatter(format, ["id", "note", "tags"], DEFAULT_VALUE_ENCODING);
+  return formatter.begin() + rows.map(formatter.row).join("") + formatter.end();
+}
+
+const ROWS = [
+  { id: 1n, note: 'say "hi", then\nleave', tags: ["a", "b"] },
+  { id: 2n, note: null, tags: { x: 1 } },
+];
+
+describe("createRowFormatter", () => {
+  it("quotes csv fields and writes nested values as json", () => {
+    expect(render("csv", ROWS)).toBe(
+      'id,note,tags\n1,"say ""hi"", then\nleave","[""a"",""b""]"\n2,,"{""x"":1}"\n',
+    );
+  });
+
+  it("escapes tabs and line breaks in tsv", () => {
+    const formatter = createRowFormatter("tsv", ["a"], DEFAULT_VALUE_ENCODING);
+
+    expect(formatter.row({ a: "x\ty\nz\\" })).toBe("x\\ty\\nz\\\\\n");
+  });
+
+  it("escapes pipes and line breaks in markdown tables", () => {
+    expect(render("markdown", [{ id: 1n, note: "a|b\nc", tags: null }])).toBe(
+      "| id | note | tags |\n| --- | --- | --- |\n| 1 | a\\|b<br>c |  |\n",
+    );
+  });
+
+  it("writes a json array and an empty array without rows", () => {
+    expect(JSON.parse(render("json", ROWS))).toEqual([
+      { id: "1", note: 'say "hi", then\nleave', tags: ["a", "b"] },
+      { id: "2", note: null, tags: { x: 1 } },
+    ]);
+    expect(render("json", [])).toBe("[]\n");
+  });
+});
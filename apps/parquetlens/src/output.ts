@@ -0,0 +1,116 @@
+import { encodeRow, encodeValue, type ValueEncoding } from "./encoding.js";
+import { safeStringify } from "./formatting.js";
+
+export type OutputFormat = "table" | "csv" | "tsv" | "markdown" | "ndjson" | "json";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["table", "csv", "tsv", "markdown", "ndjson", "json"];
+
+/**
+ * Renders rows one at a time so callers can write output incrementally.
+ * `begin` and `end` return the text surrounding the rows (headers, brackets).
+ */
+export type RowFormatter = {
+  begin: () => string;
+  row: (row: Record<string, unknown>) => string;
+  end: () => string;
+};
+
+export function createRowFormatter(
+  format: Exclude<OutputFormat, "table">,
+  columns: string[],
+  encoding: ValueEncoding,
+): RowFormatter {
+  switch (format) {
+    case "csv":
+      return createDelimitedFormatter(columns, encoding, ",", escapeCsvField);
+    case "tsv":
+      return createDelimitedFormatter(columns, encoding, "\t", escapeTsvField);
+    case "markdown":
+      return createMarkdownFormatter(columns, encoding);
+    case "ndjson":
+      return {
+        begin: () => "",
+        row: (row) => `${JSON.stringify(encodeRow(row, columns, encoding))}\n`,
+        end: () => "",
+      };
+    case "json": {
+      let count = 0;
+      return {
+        begin: () => "[",
+        row: (row) => {
+          const separator = count === 0 ? "\n" : ",\n";
+          count += 1;
+          return `${separator}  ${JSON.stringify(encodeRow(row, columns, encoding))}`;
+        },
+        end: () => (count === 0 ? "]\n" : "\n]\n"),
+      };
+    }
+  }
+}
+
+/**
+ * Flatten a value into a single text cell. Lists and structs are written as
+ * JSON so they survive a round trip through spreadsheets and docs.
+ */
+export function formatTextCell(value: unknown, encoding: ValueEncoding): string {
+  const encoded = encodeValue(value, encoding);
+  if (encoded === null) {
+    return "";
+  }
+  if (typeof encoded === "object") {
+    return safeStringify(encoded);
+  }
+  return String(encoded);
+}
+
+/** RFC 4180 quoting: fields with delimiters, quotes or line breaks are quoted. */
+export function escapeCsvField(value: string): string {
+  if (!/[",\r\n]/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/** TSV has no quoting, so tabs, line breaks and backslashes are escaped instead. */
+export function escapeTsvField(value: string): string {
+  return value.replace(/[\\\t\n\r]/g, (char) => {
+    switch (char) {
+      case "\t":
+        return "\\t";
+      case "\n":
+        return "\\n";
+      case "\r":
+        return "\\r";
+      default:
+        return "\\\\";
+    }
+  });
+}
+
+export function escapeMarkdownCell(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function createDelimitedFormatter(
+  columns: string[],
+  encoding: ValueEncoding,
+  delimiter: string,
+  escape: (value: string) => string,
+): RowFormatter {
+  return {
+    begin: () => `${columns.map(escape).join(delimiter)}\n`,
+    row: (row) =>
+      `${columns.map((name) => escape(formatTextCell(row[name], encoding))).join(delimiter)}\n`,
+    end: () => "",
+  };
+}
+
+function createMarkdownFormatter(columns: string[], encoding: ValueEncoding): RowFormatter {
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |\n`;
+  return {
+    begin: () => line(columns.map(escapeMarkdownCell)) + line(columns.map(() => "---")),
+    row: (row) =>
+      line(columns.map((name) => escapeMarkdownCell(formatTextCell(row[name], encoding)))),
+    end: () => "",
+  };
+}
@@ -0,0 +1,159 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough, Readable } from "node:stream";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { DEFAULT_VALUE_ENCODING } from "./encoding.js";
+import { getConfigDirectory, runSqlRepl, splitSqlStatements, type ReplOptions } from "./repl.js";
+
+function collect(stream: PassThrough): () => string {
+  let text = "";
+  stream.on("data", (chunk: Buffer) => {
+    text += chunk.toString();
+  });
+  return () => text;
+}
+
+async function run(lines: string[], overrides: Partial<ReplOptions> = {}) {
+  const queries: string[] = [];
+  const output = new PassThrough();
+  const errorOutput = new PassThrough();
+  const readOutput = collect(output);
+  const readErrors = collect(errorOutput);
+
+  await runSqlRepl({
+    session: {
+      query: async (sql) => {
+        queries.push(sql);
+        if (sql.startsWith("fail")) {
+          throw new Error("Parser Error: nope");
+        }
+        return [
+          { id: 1, name: "a" },
+          { id: 2, name: "b" },
+        ];
+      },
+    },
+    input: Readable.from(lines.map((line) => `${line}\n`)),
+    output,
+    errorOutput,
+    terminal: false,
+    printTable: (rows, out) => out.write(`table:${rows.length}\n`),
+    limit: Number.POSITIVE_INFINITY,
+    format: "table",
+    encoding: DEFAULT_VALUE_ENCODING,
+    ...overrides,
+  });
+
+  return { queries, output: readOutput(), errors: readErrors() };
+}
+
+describe("splitSqlStatements", () => {
+  it("ignores semicolons in strings, quoted names and comments", () => {
+    expect(splitSqlStatements("select ';' as \"a;b\"; -- x;\nselect 2; sel")).toEqual({
+      statements: ["select ';' as \"a;b\"", "-- x;\nselect 2"],
+      rest: " sel",
+    });
+  });
+
+  it("drops empty and comment-only statements", () => {
+    expect(splitSqlStatements(";; /* only; a comment */;").statements).toEqual([]);
+  });
+});
+
+describe("getConfigDirectory", () => {
+  it("prefers XDG_CONFIG_HOME, then APPDATA on Windows, then ~/.config", () => {
+    expect(getConfigDirectory({ XDG_CONFIG_HOME: "/xdg" }, "linux", "/home/u")).toBe(
+      path.join("/xdg", "parquetlens"),
+    );
+    expect(getConfigDirectory({ APPDATA: "C:\\AppData" }, "win32", "C:\\Users\\u")).toBe(
+      path.join("C:\\AppData", "parquetlens"),
+    );
+    expect(getConfigDirectory({}, "darwin", "/Users/u")).toBe(
+      path.join("/Users/u", ".config", "parquetlens"),
+    );
+  });
+});
+
+describe("runSqlRepl", () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it("runs statements spanning lines and a final one without a semicolon", async () => {
+    const result = await run(["select", "  1;", "select 2"]);
+
+    expect(result.queries).toEqual(["select\n  1", "select 2"]);
+    expect(result.output).toBe("table:2\ntable:2\n");
+  });
+
+  it("reports errors and unknown commands and keeps going", async () => {
+    const result = await run(["fail;", ".nope", "select 1;"]);
+
+    expect(result.errors).toBe(
+      "Error: Parser Error: nope\nError: unknown command .nope (try .help)\n",
+    );
+    expect(result.queries).toEqual(["fail", "select 1"]);
+  });
+
+  it("switches modes, times statements and stops at .quit", async () => {
+    const result = await run([".mode csv", ".timer on", "select 1;", ".quit", "select 2;"]);
+
+    expect(result.queries).toEqual(["select 1"]);
+    expect(result.output).toMatch(/^id,name\n1,a\n2,b\nRun Time: \d+\.\d{3}s\n$/);
+  });
+
+  it("notes how many rows the table limit hides", async () => {
+    const result = await run(["select 1;"], { limit: 1 });
+
+    expect(result.output).toBe("table:1\n(2 rows, showing first 1)\n");
+  });
+
+  it("writes results to a file until .output is given no file", async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "parquetlens-repl-"));
+    const file = path.join(directory, "out.json");
+
+    const result = await run([`.output ${file}`, ".mode json", "select 1;", ".output", ".schema"]);
+
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual([
+      { id: 1, name: "a" },
+      { id: 2, name: "b" },
+    ]);
+    expect(result.queries).toEqual(["select 1", "DESCRIBE data"]);
+    expect(result.output).toContain('"id"');
+  });
+
+  it("saves entered lines to the history file", async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "parquetlens-repl-"));
+    const historyPath = path.join(directory, "nested", "sql_history");
+    const input = new PassThrough();
+    const output = new PassThrough();
+    output.resume();
+
+    const done = runSqlRepl({
+      session: { query: async () => [] },
+      input,
+      output,
+      errorOutput: output,
+      terminal: true,
+      historyPath,
+      printTable: () => {},
+      limit: 10,
+      format: "table",
+      encoding: DEFAULT_VALUE_ENCODING,
+    });
+    input.write("select 1;\r");
+    input.write("select 2;\r");
+    input.end(".quit\r");
+    await done;
+
+    expect(await readFile(historyPath, "utf8")).toBe("select 1;\nselect 2;\n.quit\n");
+  });
+});
@@ -0,0 +1,281 @@
+import { createWriteStream, type WriteStream } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { performance } from "node:perf_hooks";
+import readline from "node:readline";
+
+import type { ParquetRow } from "@parquetlens/parquet-reader";
+
+import type { ValueEncoding } from "./encoding.js";
+import { createRowFormatter, OUTPUT_FORMATS, type OutputFormat } from "./output.js";
+import { tokenizeSql } from "./tui/sql-syntax.js";
+
+export type ReplSession = {
+  query: (sql: string) => Promise<ParquetRow[]>;
+};
+
+export type ReplOptions = {
+  session: ReplSession;
+  input: NodeJS.ReadableStream;
+  /** Prompts, messages and timings; results go here too until `.output` redirects them. */
+  output: NodeJS.WritableStream;
+  errorOutput: NodeJS.WritableStream;
+  /** Line editing and prompts; without it the REPL reads statements from a pipe. */
+  terminal: boolean;
+  /** Input lines are loaded from and saved to this file when set. */
+  historyPath?: string;
+  /** Renders rows in `table` mode, at most `limit` of them. */
+  printTable: (rows: ParquetRow[], out: NodeJS.WritableStream) => void;
+  limit: number;
+  /** Initial `.mode`. */
+  format: OutputFormat;
+  encoding: ValueEncoding;
+};
+
+const HISTORY_SIZE = 1000;
+const PROMPT = "sql> ";
+const CONTINUATION_PROMPT = "...> ";
+
+const HELP_TEXT = `.help                  show this help
+.schema [table]        show the columns of a table or view (default: data)
+.tables                list tables and views
+.mode csv|json|table   set the output format (also tsv, markdown, ndjson)
+.output [file]         write results to a file; no file writes to the terminal again
+.timer on|off          print how long each statement takes
+.quit, .exit           leave the shell
+
+Statements end with ";" and may span lines. The file is the "data" view.
+`;
+
+/**
+ * Split buffered input into complete statements, ignoring semicolons inside
+ * strings, quoted names and comments, and dropping statements with nothing but
+ * comments. Whatever follows the last semicolon is returned as `rest` to be
+ * continued on the next line.
+ */
+export function splitSqlStatements(buffer: string): { statements: string[]; rest: string } {
+  const statements: string[] = [];
+  let start = 0;
+  let hasCode = false;
+  for (const token of tokenizeSql(buffer)) {
+    if (token.kind === "operator" && token.text === ";") {
+      if (hasCode) {
+        statements.push(buffer.slice(start, token.start).trim());
+      }
+      start = token.start + 1;
+      hasCode = false;
+    } else if (token.kind !== "space" && token.kind !== "comment") {
+      hasCode = true;
+    }
+  }
+  return { statements, rest: buffer.slice(start) };
+}
+
+/** `$XDG_CONFIG_HOME/parquetlens`, `%APPDATA%\parquetlens` on Windows, else `~/.config/parquetlens`. */
+export function getConfigDirectory(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform,
+  home = os.homedir(),
+): string {
+  if (env.XDG_CONFIG_HOME) {
+    return path.join(env.XDG_CONFIG_HOME, "parquetlens");
+  }
+  if (platform === "win32" && env.APPDATA) {
+    return path.join(env.APPDATA, "parquetlens");
+  }
+  return path.join(home, ".config", "parquetlens");
+}
+
+/**
+ * Read statements and dot-commands until `.quit` or the end of input. Query
+ * errors are reported and the shell carries on.
+ */
+export async function runSqlRepl(options: ReplOptions): Promise<void> {
+  const { session, output, errorOutput, terminal } = options;
+  const history = options.historyPath ? await loadHistory(options.historyPath) : [];
+  const rl = readline.createInterface({
+    input: options.input,
+    output,
+    terminal,
+    history,
+    historySize: HISTORY_SIZE,
+    removeHistoryDuplicates: true,
+  });
+  let savedHistory = history;
+  rl.on("history", (lines) => {
+    savedHistory = lines;
+  });
+
+  let mode = options.format;
+  let timer = false;
+  let redirect: WriteStream | null = null;
+  let buffer = "";
+
+  const results = () => redirect ?? output;
+  const report = (message: string) => errorOutput.write(`${message}\n`);
+
+  const closeRedirect = async () => {
+    const current = redirect;
+    redirect = null;
+    if (current) {
+      await new Promise<void>((resolve, reject) => {
+        current.end((error?: Error | null) => (error ? reject(error) : resolve()));
+      });
+    }
+  };
+
+  const writeResult = (rows: ParquetRow[]) => {
+    const out = results();
+    if (mode === "table") {
+      options.printTable(rows.slice(0, Math.max(0, options.limit)), out);
+      if (rows.length > options.limit) {
+        out.write(`(${rows.length} rows, showing first ${options.limit})\n`);
+      }
+      return;
+    }
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+    const formatter = createRowFormatter(mode, columns, options.encoding);
+    out.write(formatter.begin());
+    for (const row of rows) {
+      out.write(formatter.row(row));
+    }
+    out.write(formatter.end());
+  };
+
+  const runStatement = async (statement: string) => {
+    const started = performance.now();
+    try {
+      writeResult(await session.query(statement));
+    } catch (caught) {
+      report(`Error: ${caught instanceof Error ? caught.message : String(caught)}`);
+    }
+    if (timer) {
+      output.write(`Run Time: ${((performance.now() - started) / 1000).toFixed(3)}s\n`);
+    }
+  };
+
+  // Returns false to leave the shell.
+  const runDotCommand = async (line: string): Promise<boolean> => {
+    const [command, ...args] = line.split(/\s+/);
+    switch (command) {
+      case ".quit":
+      case ".exit":
+        return false;
+      case ".help":
+        output.write(HELP_TEXT);
+        return true;
+      case ".schema": {
+        const table = args[0] ?? "data";
+        await runStatement(`DESCRIBE ${quoteIdentifier(table)}`);
+        return true;
+      }
+      case ".tables":
+        await runStatement(
+          "SELECT name FROM (SELECT table_name AS name FROM duckdb_tables() " +
+            "UNION SELECT view_name FROM duckdb_views() WHERE NOT internal) ORDER BY name",
+        );
+        return true;
+      case ".mode": {
+        const next = OUTPUT_FORMATS.find((format) => format === args[0]);
+        if (!next) {
+          report(`Error: .mode expects one of ${OUTPUT_FORMATS.join(", ")}`);
+        } else {
+          mode = next;
+        }
+        return true;
+      }
+      case ".output": {
+        try {
+          await closeRedirect();
+          if (args[0]) {
+            const stream = createWriteStream(args[0]);
+            await new Promise<void>((resolve, reject) => {
+              stream.once("open", () => resolve());
+              stream.once("error", reject);
+            });
+            redirect = stream;
+          }
+        } catch (caught) {
+          report(`Error: ${caught instanceof Error ? caught.message : String(caught)}`);
+        }
+        return true;
+      }
+      case ".timer":
+        if (args[0] !== "on" && args[0] !== "off") {
+          report("Error: .timer expects on or off");
+        } else {
+          timer = args[0] === "on";
+        }
+        return true;
+      default:
+        report(`Error: unknown command ${command} (try .help)`);
+        return true;
+    }
+  };
+
+  const prompt = () => {
+    if (terminal) {
+      rl.setPrompt(buffer.trim() === "" ? PROMPT : CONTINUATION_PROMPT);
+      rl.prompt();
+    }
+  };
+
+  try {
+    prompt();
+    for await (const line of rl) {
+      if (buffer.trim() === "" && line.trim().startsWith(".")) {
+        buffer = "";
+        if (!(await runDotCommand(line.trim()))) {
+          break;
+        }
+        prompt();
+        continue;
+      }
+
+      buffer += `${line}\n`;
+      const { statements, rest } = splitSqlStatements(buffer);
+      buffer = rest;
+      for (const statement of statements) {
+        await runStatement(statement);
+      }
+      prompt();
+    }
+
+    // Like other SQL shells, a last statement without a semicolon still runs.
+    const { statements } = splitSqlStatements(`${buffer};`);
+    for (const statement of statements) {
+      await runStatement(statement);
+    }
+  } finally {
+    rl.close();
+    await closeRedirect();
+    if (options.historyPath) {
+      await saveHistory(options.historyPath, savedHistory).catch((caught) => {
+        report(
+          `warning: could not save history: ${caught instanceof Error ? caught.message : caught}`,
+        );
+      });
+    }
+  }
+}
+
+/** History files list the oldest line first; readline wants the newest first. */
+async function loadHistory(historyPath: string): Promise<string[]> {
+  try {
+    const text = await readFile(historyPath, "utf8");
+    return text.split("\n").filter(Boolean).reverse().slice(0, HISTORY_SIZE);
+  } catch {
+    return [];
+  }
+}
+
+async function saveHistory(historyPath: string, lines: string[]): Promise<void> {
+  await mkdir(path.dirname(historyPath), { recursive: true });
+  const text = [...lines].reverse().join("\n");
+  await writeFile(historyPath, text === "" ? "" : `${text}\n`);
+}
+
+function quoteIdentifier(name: string): string {
+  return /^[A-Za-z_][\w]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
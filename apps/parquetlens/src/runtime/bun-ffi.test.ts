@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import { JSCallback, ptr, toArrayBuffer } from "./bun-ffi.js";
+
+describe("bun:ffi shim", () => {
+  it("views a buffer's memory through its address without copying", () => {
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+    const view = new Uint8Array(toArrayBuffer(ptr(bytes), 1, 2));
+
+    expect(Array.from(view)).toEqual([2, 3]);
+
+    view[0] = 9;
+    expect(bytes[1]).toBe(9);
+  });
+
+  it("offsets addresses of subarrays", () => {
+    const bytes = new Uint8Array(16);
+
+    expect(ptr(bytes.subarray(4))).toBe(ptr(bytes) + 4);
+    expect(ptr(bytes, 8)).toBe(ptr(bytes) + 8);
+  });
+
+  it("exposes callbacks as numeric function pointers until closed", () => {
+    const callback = new JSCallback(() => {}, { args: ["ptr", "usize"], returns: "void" });
+
+    expect(typeof callback.ptr).toBe("number");
+    expect(callback.ptr).toBeGreaterThan(0);
+
+    callback.close();
+    expect(callback.ptr).toBeNull();
+  });
+});
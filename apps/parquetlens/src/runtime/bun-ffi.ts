@@ -0,0 +1,156 @@
+import koffi from "koffi";
+
+/**
+ * The subset of `bun:ffi` that OpenTUI uses, implemented with koffi so the
+ * renderer loads under Node. The loader hooks in `loader.ts` resolve
+ * `bun:ffi` imports to this module.
+ *
+ * Pointers cross the boundary as plain numbers, as they do in Bun: native
+ * functions take `uintptr_t` and typed arrays passed where a pointer is
+ * expected are converted with `ptr()`.
+ */
+
+type FFIType =
+  | "ptr"
+  | "pointer"
+  | "void"
+  | "bool"
+  | "u8"
+  | "i8"
+  | "u16"
+  | "i16"
+  | "u32"
+  | "i32"
+  | "u64"
+  | "i64"
+  | "usize"
+  | "f32"
+  | "f64";
+
+type FFIFunction = {
+  args?: FFIType[];
+  returns?: FFIType;
+};
+
+type Pointer = number;
+
+const KOFFI_TYPES: Record<FFIType, string> = {
+  ptr: "uintptr_t",
+  pointer: "uintptr_t",
+  void: "void",
+  bool: "bool",
+  u8: "uint8_t",
+  i8: "int8_t",
+  u16: "uint16_t",
+  i16: "int16_t",
+  u32: "uint32_t",
+  i32: "int32_t",
+  u64: "uint64_t",
+  i64: "int64_t",
+  usize: "size_t",
+  f32: "float",
+  f64: "double",
+};
+
+let callbackCount = 0;
+
+/** Address of a buffer's memory. */
+export function ptr(view: ArrayBufferLike | ArrayBufferView, byteOffset = 0): Pointer {
+  if (ArrayBuffer.isView(view)) {
+    // Reading `.buffer` moves small on-heap typed arrays off the V8 heap, so the address stays valid.
+    return Number(koffi.address(view.buffer)) + view.byteOffset + byteOffset;
+  }
+  return Number(koffi.address(view)) + byteOffset;
+}
+
+/** A zero-copy view of native memory. */
+export function toArrayBuffer(address: Pointer, byteOffset = 0, byteLength?: number): ArrayBuffer {
+  if (byteLength === undefined) {
+    throw new Error("toArrayBuffer needs a byte length under node");
+  }
+  return koffi.view(address + byteOffset, byteLength);
+}
+
+export function dlopen<Definitions extends Record<string, FFIFunction>>(
+  path: string,
+  definitions: Definitions,
+): {
+  symbols: { [Name in keyof Definitions]: (...args: unknown[]) => unknown };
+  close: () => void;
+} {
+  const library = koffi.load(path);
+  const symbols = {} as { [Name in keyof Definitions]: (...args: unknown[]) => unknown };
+
+  for (const name of Object.keys(definitions) as (keyof Definitions & string)[]) {
+    const { args = [], returns = "void" } = definitions[name];
+    const native = library.func(
+      name,
+      KOFFI_TYPES[returns],
+      args.map((type) => KOFFI_TYPES[type]),
+    );
+    const pointerArgs = args.flatMap((type, index) => (isPointerType(type) ? [index] : []));
+    symbols[name] = (...values: unknown[]) => {
+      for (const index of pointerArgs) {
+        values[index] = toPointerArg(values[index]);
+      }
+      return fromNative(returns, native(...values));
+    };
+  }
+
+  return { symbols, close: () => library.unload() };
+}
+
+/** A native function pointer that calls back into JavaScript. */
+export class JSCallback {
+  ptr: Pointer | null;
+  private handle: bigint | null;
+
+  constructor(callback: (...args: unknown[]) => unknown, definition: FFIFunction) {
+    const { args = [], returns = "void" } = definition;
+    callbackCount += 1;
+    const prototype = koffi.proto(
+      `parquetlens_callback_${callbackCount}`,
+      KOFFI_TYPES[returns],
+      args.map((type) => KOFFI_TYPES[type]),
+    );
+    this.handle = koffi.register(
+      (...values: unknown[]) =>
+        callback(...values.map((value, index) => fromNative(args[index], value))),
+      koffi.pointer(prototype),
+    );
+    this.ptr = Number(this.handle);
+  }
+
+  close(): void {
+    if (this.handle !== null) {
+      koffi.unregister(this.handle);
+      this.handle = null;
+      this.ptr = null;
+    }
+  }
+}
+
+function isPointerType(type: FFIType): boolean {
+  return type === "ptr" || type === "pointer";
+}
+
+function toPointerArg(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    return ptr(value);
+  }
+  return value;
+}
+
+// Bun hands out null for null pointers and BigInts for 64-bit integers.
+function fromNative(type: FFIType, value: unknown): unknown {
+  if (isPointerType(type)) {
+    return value === 0 || value === 0n ? null : Number(value);
+  }
+  if (type === "u64" || type === "i64") {
+    return BigInt(value as number | bigint);
+  }
+  return value;
+}
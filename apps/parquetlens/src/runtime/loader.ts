@@ -0,0 +1,89 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath as nodeFileURLToPath } from "node:url";
+
+/**
+ * Module loader hooks that let OpenTUI's Bun build load under Node:
+ *
+ * - `bun:ffi` resolves to the koffi shim in `bun-ffi.ts`.
+ * - `import x from "./file" with { type: "file" }` yields the file's path, as in Bun.
+ * - The platform package's `index.ts` entry is loaded as plain JavaScript.
+ * - Extensionless relative imports inside OpenTUI get their `.js` extension.
+ */
+
+type ResolveContext = {
+  parentURL?: string;
+  importAttributes: Record<string, string>;
+};
+
+type ResolveResult = {
+  url: string;
+  format?: string | null;
+  importAttributes?: Record<string, string>;
+  shortCircuit?: boolean;
+};
+
+type LoadResult = {
+  format: string;
+  source?: string | ArrayBuffer | Uint8Array;
+  shortCircuit?: boolean;
+};
+
+type NextResolve = (specifier: string, context?: ResolveContext) => Promise<ResolveResult>;
+type NextLoad = (url: string, context?: object) => Promise<LoadResult>;
+
+const OPENTUI_PATH = "/node_modules/@opentui/";
+const FILE_IMPORT_PARAM = "parquetlens-file";
+const BUN_FFI_URL = new URL(
+  `./bun-ffi${path.extname(nodeFileURLToPath(import.meta.url))}`,
+  import.meta.url,
+).href;
+
+export async function resolve(
+  specifier: string,
+  context: ResolveContext,
+  nextResolve: NextResolve,
+): Promise<ResolveResult> {
+  if (specifier === "bun:ffi") {
+    return nextResolve(BUN_FFI_URL, context);
+  }
+
+  if (context.importAttributes.type === "file") {
+    const resolved = await nextResolve(specifier, { ...context, importAttributes: {} });
+    const url = new URL(resolved.url);
+    url.searchParams.set(FILE_IMPORT_PARAM, "");
+    return { url: url.href, importAttributes: {}, shortCircuit: true };
+  }
+
+  try {
+    return await nextResolve(specifier, context);
+  } catch (caught) {
+    const fromOpenTui = context.parentURL?.includes(OPENTUI_PATH) ?? false;
+    if (
+      !fromOpenTui ||
+      path.extname(specifier) === ".js" ||
+      (caught as NodeJS.ErrnoException).code !== "ERR_MODULE_NOT_FOUND"
+    ) {
+      throw caught;
+    }
+    return nextResolve(`${specifier}.js`, context);
+  }
+}
+
+export async function load(url: string, context: object, nextLoad: NextLoad): Promise<LoadResult> {
+  const parsed = new URL(url);
+  if (parsed.searchParams.has(FILE_IMPORT_PARAM)) {
+    parsed.search = "";
+    return {
+      format: "module",
+      source: `export default ${JSON.stringify(nodeFileURLToPath(parsed))};`,
+      shortCircuit: true,
+    };
+  }
+
+  if (parsed.protocol === "file:" && url.includes(OPENTUI_PATH) && url.endsWith(".ts")) {
+    return { format: "module", source: await readFile(parsed, "utf8"), shortCircuit: true };
+  }
+
+  return nextLoad(url, context);
+}
@@ -0,0 +1,35 @@
+import { register } from "node:module";
+import path from "node:path";
+import { fileURLToPath as nodeFileURLToPath } from "node:url";
+import { stripVTControlCharacters } from "node:util";
+import stringWidth from "string-width";
+
+type BunGlobals = {
+  stringWidth: (text: string) => number;
+  stripANSI: (text: string) => string;
+  sleep: (ms: number) => Promise<void>;
+};
+
+let installed = false;
+
+/**
+ * Prepare Node to load OpenTUI, which is built for Bun: install the loader
+ * hooks that map `bun:ffi` onto koffi, and the `Bun` helpers the renderer
+ * calls at runtime. Must run before the TUI module is imported.
+ */
+export function installNodeRuntime(): void {
+  if (installed) {
+    return;
+  }
+  installed = true;
+
+  const extension = path.extname(nodeFileURLToPath(import.meta.url));
+  register(`./loader${extension}`, import.meta.url);
+
+  const globals: BunGlobals = {
+    stringWidth: (text) => stringWidth(text),
+    stripANSI: stripVTControlCharacters,
+    sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  };
+  (globalThis as { Bun?: BunGlobals }).Bun ??= globals;
+}
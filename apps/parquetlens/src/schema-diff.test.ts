@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import type { ParquetFileMetadata, ParquetSchemaNode } from "@parquetlens/parquet-reader";
+
+import { diffSchemas } from "./schema-diff.js";
+
+function field(
+  name: string,
+  type: string,
+  extra: Partial<ParquetSchemaNode> = {},
+  parent: string[] = [],
+): ParquetSchemaNode {
+  return {
+    name,
+    path: [...parent, name],
+    type,
+    repetition: "OPTIONAL",
+    physicalType: type,
+    maxDefinitionLevel: 1,
+    maxRepetitionLevel: 0,
+    children: [],
+    ...extra,
+  };
+}
+
+function metadata(
+  schema: ParquetSchemaNode[],
+  keyValueMetadata: Record<string, string> = {},
+): ParquetFileMetadata {
+  return { keyValueMetadata, columns: [], schema };
+}
+
+describe("diffSchemas", () => {
+  it("reports type, repetition, added and removed fields", () => {
+    const changes = diffSchemas(
+      metadata([field("id", "INT64"), field("state", "BYTE_ARRAY"), field("score", "DOUBLE")]),
+      metadata([
+        field("id", "INT32"),
+        field("score", "DOUBLE", { repetition: "REQUIRED" }),
+        field("country", "BYTE_ARRAY"),
+      ]),
+    );
+
+    expect(changes).toEqual([
+      { type: "type-changed", path: "id", from: "INT64", to: "INT32" },
+      { type: "repetition-changed", path: "score", from: "optional", to: "required" },
+      { type: "removed", path: "state", from: "BYTE_ARRAY optional" },
+      { type: "added", path: "country", to: "BYTE_ARRAY optional" },
+    ]);
+  });
+
+  it("pairs renamed fields by field id or position", () => {
+    const changes = diffSchemas(
+      metadata([field("a", "INT64", { fieldId: 7 }), field("city", "BYTE_ARRAY")]),
+      metadata([field("city_name", "BYTE_ARRAY"), field("b", "INT32", { fieldId: 7 })]),
+    );
+
+    // `city` and `city_name` share a shape but not a position, so they stay apart.
+    expect(changes).toEqual([
+      { type: "renamed", path: "b", from: "a" },
+      { type: "removed", path: "city", from: "BYTE_ARRAY optional" },
+      { type: "added", path: "city_name", to: "BYTE_ARRAY optional" },
+    ]);
+  });
+
+  it("compares nested fields and key-value metadata", () => {
+    const point = (y: string) =>
+      field("point", "GROUP", {
+        physicalType: undefined,
+        children: [field("x", "DOUBLE", {}, ["point"]), field("y", y, {}, ["point"])],
+      });
+    const changes = diffSchemas(
+      metadata([point("DOUBLE"), field("name", "UTF8", { physicalType: "BYTE_ARRAY" })], {
+        writer: "v1",
+        dropped: "x",
+      }),
+      metadata([point("FLOAT"), field("name", "STRING", { physicalType: "BYTE_ARRAY" })], {
+        writer: "v2",
+      }),
+    );
+
+    expect(changes).toEqual([
+      { type: "type-changed", path: "point.y", from: "DOUBLE", to: "FLOAT" },
+      { type: "metadata-changed", path: "writer", from: "v1", to: "v2" },
+      { type: "metadata-removed", path: "dropped", from: "x" },
+    ]);
+  });
+
+  it("treats metadata keys named like object properties as plain keys", () => {
+    const changes = diffSchemas(
+      metadata([], { constructor: "a" }),
+      metadata([], { toString: "b" }),
+    );
+
+    expect(changes).toEqual([
+      { type: "metadata-removed", path: "constructor", from: "a" },
+      { type: "metadata-added", path: "toString", to: "b" },
+    ]);
+  });
+});
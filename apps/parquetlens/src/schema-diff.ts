@@ -0,0 +1,157 @@
+import type { ParquetFileMetadata, ParquetSchemaNode } from "@parquetlens/parquet-reader";
+
+export type SchemaChangeType =
+  | "added"
+  | "removed"
+  | "renamed"
+  | "type-changed"
+  | "repetition-changed"
+  | "metadata-added"
+  | "metadata-removed"
+  | "metadata-changed";
+
+/**
+ * One schema difference. `path` is the dotted field path (the key for metadata
+ * changes); `from`/`to` hold the old and new type, repetition, name or value.
+ */
+export type SchemaChange = {
+  type: SchemaChangeType;
+  path: string;
+  from?: string;
+  to?: string;
+};
+
+// Writers that predate logical types only set the converted type.
+const LEGACY_TYPE_NAMES: Record<string, string> = {
+  UTF8: "STRING",
+  MAP_KEY_VALUE: "MAP",
+};
+
+/**
+ * Compare the schemas and key-value metadata of two footers. Fields are matched
+ * by path; a removed and an added field under the same parent are reported as a
+ * rename when they have the same shape and the same field id or position.
+ */
+export function diffSchemas(left: ParquetFileMetadata, right: ParquetFileMetadata): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  diffFields(left.schema, right.schema, changes);
+  diffKeyValueMetadata(left.keyValueMetadata, right.keyValueMetadata, changes);
+  return changes;
+}
+
+/** Render a field type as `DECIMAL(9,2) (INT32)`, keeping the physical type when it adds detail. */
+export function formatSchemaFieldType(node: ParquetSchemaNode): string {
+  const type = LEGACY_TYPE_NAMES[node.type] ?? node.type;
+  if (!node.physicalType || node.physicalType === type) {
+    return type;
+  }
+  const physicalType =
+    node.typeLength !== undefined ? `${node.physicalType}(${node.typeLength})` : node.physicalType;
+  return `${type} (${physicalType})`;
+}
+
+function diffFields(
+  left: ParquetSchemaNode[],
+  right: ParquetSchemaNode[],
+  changes: SchemaChange[],
+): void {
+  const rightByName = new Map(right.map((node) => [node.name, node]));
+  const leftNames = new Set(left.map((node) => node.name));
+  const removed = left.filter((node) => !rightByName.has(node.name));
+  const added = right.filter((node) => !leftNames.has(node.name));
+
+  for (const node of left) {
+    const match = rightByName.get(node.name);
+    if (match) {
+      diffField(node, match, changes);
+    }
+  }
+
+  const renamed = new Set<ParquetSchemaNode>();
+  for (const node of removed) {
+    const match = added.find(
+      (candidate) => !renamed.has(candidate) && looksRenamed(node, candidate, left, right),
+    );
+    if (match) {
+      renamed.add(match);
+      changes.push({ type: "renamed", path: formatPath(match), from: formatPath(node) });
+    } else {
+      changes.push({ type: "removed", path: formatPath(node), from: describeField(node) });
+    }
+  }
+
+  for (const node of added) {
+    if (!renamed.has(node)) {
+      changes.push({ type: "added", path: formatPath(node), to: describeField(node) });
+    }
+  }
+}
+
+function diffField(left: ParquetSchemaNode, right: ParquetSchemaNode, changes: SchemaChange[]) {
+  const path = formatPath(right);
+  const leftType = formatSchemaFieldType(left);
+  const rightType = formatSchemaFieldType(right);
+  if (leftType !== rightType) {
+    changes.push({ type: "type-changed", path, from: leftType, to: rightType });
+  }
+  if (left.repetition !== right.repetition) {
+    changes.push({
+      type: "repetition-changed",
+      path,
+      from: formatRepetition(left),
+      to: formatRepetition(right),
+    });
+  }
+  diffFields(left.children, right.children, changes);
+}
+
+function looksRenamed(
+  left: ParquetSchemaNode,
+  right: ParquetSchemaNode,
+  leftSiblings: ParquetSchemaNode[],
+  rightSiblings: ParquetSchemaNode[],
+): boolean {
+  if (left.fieldId !== undefined && right.fieldId !== undefined) {
+    return left.fieldId === right.fieldId;
+  }
+  return (
+    leftSiblings.indexOf(left) === rightSiblings.indexOf(right) &&
+    fieldShape(left) === fieldShape(right)
+  );
+}
+
+function fieldShape(node: ParquetSchemaNode): string {
+  const children = node.children.map((child) => `${child.name}:${fieldShape(child)}`);
+  return `${formatSchemaFieldType(node)} ${formatRepetition(node)}{${children.join(",")}}`;
+}
+
+function describeField(node: ParquetSchemaNode): string {
+  return `${formatSchemaFieldType(node)} ${formatRepetition(node)}`;
+}
+
+function formatRepetition(node: ParquetSchemaNode): string {
+  return (node.repetition ?? "REQUIRED").toLowerCase();
+}
+
+function formatPath(node: ParquetSchemaNode): string {
+  return node.path.join(".");
+}
+
+function diffKeyValueMetadata(
+  left: Record<string, string>,
+  right: Record<string, string>,
+  changes: SchemaChange[],
+): void {
+  for (const [key, value] of Object.entries(left)) {
+    if (!Object.hasOwn(right, key)) {
+      changes.push({ type: "metadata-removed", path: key, from: value });
+    } else if (right[key] !== value) {
+      changes.push({ type: "metadata-changed", path: key, from: value, to: right[key] });
+    }
+  }
+  for (const [key, value] of Object.entries(right)) {
+    if (!Object.hasOwn(left, key)) {
+      changes.push({ type: "metadata-added", path: key, to: value });
+    }
+  }
+}
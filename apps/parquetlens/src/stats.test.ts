@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { createColumnProfiler, createHyperLogLog, profileFromFooter } from "./stats.js";
+
+describe("createHyperLogLog", () => {
+  it("estimates distinct counts within a few percent", () => {
+    const sketch = createHyperLogLog();
+    for (let index = 0; index < 50000; index += 1) {
+      sketch.add(`value-${index}`);
+      sketch.add(`value-${index}`);
+    }
+
+    expect(Math.abs(sketch.estimate() - 50000) / 50000).toBeLessThan(0.03);
+  });
+});
+
+describe("createColumnProfiler", () => {
+  it("tracks nulls, min/max, mean and stddev for numbers", () => {
+    const profiler = createColumnProfiler("score", "DOUBLE");
+    [2, 4, null, 4, 4, 5, 5, 7, 9, undefined].forEach(profiler.add);
+
+    const profile = profiler.finish();
+    expect(profile).toMatchObject({ rows: 10, nullCount: 2, distinct: 5, min: 2, max: 9, mean: 5 });
+    expect(profile.stddev).toBeCloseTo(2.138, 3);
+  });
+
+  it("lists top values and length stats for strings", () => {
+    const profiler = createColumnProfiler("city", "STRING", 2);
+    ["b", "a", "ccc", "a", "b", "a"].forEach(profiler.add);
+
+    expect(profiler.finish()).toMatchObject({
+      top: [
+        { value: "a", count: 3 },
+        { value: "b", count: 2 },
+      ],
+      topApproximate: false,
+      length: { min: 1, max: 3, mean: 8 / 6 },
+      min: "a",
+      max: "ccc",
+    });
+  });
+
+  it("keeps top values bounded on high-cardinality columns", () => {
+    const profiler = createColumnProfiler("id", "STRING", 1);
+    for (let index = 0; index < 5000; index += 1) {
+      profiler.add(index % 2 === 0 ? "hot" : `cold-${index}`);
+    }
+
+    const profile = profiler.finish();
+    expect(profile.topApproximate).toBe(true);
+    expect(profile.top?.[0]?.value).toBe("hot");
+  });
+});
+
+describe("profileFromFooter", () => {
+  it("requires complete and exact statistics", () => {
+    const complete = { min: 1n, max: 9n, nullCount: 0n, legacy: false };
+
+    expect(profileFromFooter("id", "INT64", 10, complete)).toMatchObject({
+      source: "footer",
+      rows: 10,
+      nullCount: 0,
+      min: 1n,
+      max: 9n,
+    });
+    expect(profileFromFooter("id", "INT64", 10, { ...complete, nullCount: undefined })).toBeNull();
+    expect(profileFromFooter("id", "INT64", 10, { ...complete, isMaxExact: false })).toBeNull();
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  compareStatisticsValues,
+  type ParquetColumnStatistics,
+  type ParquetStatisticsValue,
+} from "@parquetlens/parquet-reader";
+
+import { valueKey } from "./formatting.js";
+
+export type ValueCount = {
+  value: string;
+  count: number;
+};
+
+export type LengthStats = {
+  min: number;
+  max: number;
+  mean: number;
+};
+
+export type ColumnProfile = {
+  name: string;
+  type: string;
+  /** `footer` profiles were built from footer statistics without reading rows. */
+  source: "scan" | "footer";
+  rows: number;
+  nullCount: number;
+  /** HyperLogLog estimate for scans, the footer distinct count otherwise. */
+  distinct?: number;
+  min?: unknown;
+  max?: unknown;
+  mean?: number;
+  stddev?: number;
+  top?: ValueCount[];
+  /** Top counts are lower bounds once more distinct values were seen than tracked. */
+  topApproximate?: boolean;
+  length?: LengthStats;
+};
+
+export type ColumnProfiler = {
+  add: (value: unknown) => void;
+  finish: () => ColumnProfile;
+};
+
+export type HyperLogLog = {
+  add: (key: string) => void;
+  estimate: () => number;
+};
+
+export const DEFAULT_TOP_K = 5;
+
+// 2^14 registers give a standard error of about 0.8%.
+const HLL_PRECISION = 14;
+// Candidate slots kept per column for top-k; bounds memory on high-cardinality columns.
+const TOP_K_CAPACITY = 1024;
+
+export function createHyperLogLog(precision = HLL_PRECISION): HyperLogLog {
+  const registerCount = 1 << precision;
+  const registers = new Uint8Array(registerCount);
+  const alpha = 0.7213 / (1 + 1.079 / registerCount);
+
+  return {
+    add: (key) => {
+      const hash = hashString(key);
+      const index = hash >>> (32 - precision);
+      // Rank of the first set bit in the remaining bits, counted from 1.
+      const remaining = (hash << precision) >>> 0;
+      const rank = remaining === 0 ? 32 - precision + 1 : Math.clz32(remaining) + 1;
+      if (rank > registers[index]) {
+        registers[index] = rank;
+      }
+    },
+    estimate: () => {
+      let sum = 0;
+      let zeros = 0;
+      for (const register of registers) {
+        sum += 2 ** -register;
+        if (register === 0) {
+          zeros += 1;
+        }
+      }
+      const raw = (alpha * registerCount * registerCount) / sum;
+      // Linear counting is more accurate while many registers are still empty.
+      if (raw <= 2.5 * registerCount && zeros > 0) {
+        return Math.round(registerCount * Math.log(registerCount / zeros));
+      }
+      return Math.round(raw);
+    },
+  };
+}
+
+/**
+ * Accumulate a profile for one column in constant memory: nulls, a distinct
+ * estimate, min/max, mean/stddev for numbers, top values for strings and length
+ * stats for strings and binary values.
+ */
+export function createColumnProfiler(
+  name: string,
+  type: string,
+  topK = DEFAULT_TOP_K,
+): ColumnProfiler {
+  const distinct = createHyperLogLog();
+  const topCounts = new Map<string, number>();
+  let topApproximate = false;
+  let rows = 0;
+  let nullCount = 0;
+  let min: ParquetStatisticsValue | undefined;
+  let max: ParquetStatisticsValue | undefined;
+  let orderable = true;
+  // Welford's online mean and variance.
+  let numericCount = 0;
+  let mean = 0;
+  let squaredDeltas = 0;
+  let lengthCount = 0;
+  let lengthMin = Number.POSITIVE_INFINITY;
+  let lengthMax = 0;
+  let lengthSum = 0;
+
+  const addTopValue = (key: string) => {
+    const current = topCounts.get(key);
+    if (current !== undefined) {
+      topCounts.set(key, current + 1);
+      return;
+    }
+    if (topCounts.size < TOP_K_CAPACITY) {
+      topCounts.set(key, 1);
+      return;
+    }
+    // Misra-Gries: a new value with no free slot decrements every candidate.
+    topApproximate = true;
+    for (const [candidate, count] of topCounts) {
+      if (count <= 1) {
+        topCounts.delete(candidate);
+      } else {
+        topCounts.set(candidate, count - 1);
+      }
+    }
+  };
+
+  const addOrderedValue = (value: unknown) => {
+    if (typeof value === "number" && Number.isNaN(value)) {
+      return;
+    }
+    if (!orderable || !isOrderedValue(value)) {
+      orderable = false;
+      min = undefined;
+      max = undefined;
+      return;
+    }
+    if (min === undefined || max === undefined) {
+      min = value;
+      max = value;
+      return;
+    }
+    const lower = compareStatisticsValues(value, min);
+    const upper = compareStatisticsValues(value, max);
+    if (lower === null || upper === null) {
+      // Mixed kinds; skip the value rather than give up on the column.
+      return;
+    }
+    if (lower < 0) {
+      min = value;
+    }
+    if (upper > 0) {
+      max = value;
+    }
+  };
+
+  const addLength = (length: number) => {
+    lengthCount += 1;
+    lengthSum += length;
+    lengthMin = Math.min(lengthMin, length);
+    lengthMax = Math.max(lengthMax, length);
+  };
+
+  return {
+    add: (value: unknown) => {
+      rows += 1;
+      if (value === null || value === undefined) {
+        nullCount += 1;
+        return;
+      }
+
+      distinct.add(valueKey(value));
+      addOrderedValue(value);
+
+      if (typeof value === "number" || typeof value === "bigint") {
+        const numeric = Number(value);
+        if (Number.isFinite(numeric)) {
+          numericCount += 1;
+          const delta = numeric - mean;
+          mean += delta / numericCount;
+          squaredDeltas += delta * (numeric - mean);
+        }
+      } else if (typeof value === "string") {
+        addTopValue(value);
+        addLength(value.length);
+      } else if (value instanceof Uint8Array) {
+        addLength(value.byteLength);
+      }
+    },
+    finish: (): ColumnProfile => {
+      const profile: ColumnProfile = {
+        name,
+        type,
+        source: "scan",
+        rows,
+        nullCount,
+        distinct: rows > nullCount ? distinct.estimate() : 0,
+        min,
+        max,
+      };
+      if (numericCount > 0) {
+        profile.mean = mean;
+        profile.stddev = numericCount > 1 ? Math.sqrt(squaredDeltas / (numericCount - 1)) : 0;
+      }
+      if (topCounts.size > 0) {
+        profile.top = Array.from(topCounts, ([value, count]) => ({ value, count }))
+          .sort((left, right) => right.count - left.count || compareKeys(left.value, right.value))
+          .slice(0, Math.max(0, topK));
+        profile.topApproximate = topApproximate;
+      }
+      if (lengthCount > 0) {
+        profile.length = { min: lengthMin, max: lengthMax, mean: lengthSum / lengthCount };
+      }
+      return profile;
+    },
+  };
+}
+
+/**
+ * Build a profile from merged footer statistics. Returns null unless null count,
+ * min and max are all present and exact, i.e. the footer fully answers them.
+ */
+export function profileFromFooter(
+  name: string,
+  type: string,
+  rows: number,
+  statistics: ParquetColumnStatistics | undefined,
+): ColumnProfile | null {
+  if (
+    !statistics ||
+    statistics.nullCount === undefined ||
+    statistics.min === undefined ||
+    statistics.max === undefined ||
+    statistics.isMinExact === false ||
+    statistics.isMaxExact === false
+  ) {
+    return null;
+  }
+
+  return {
+    name,
+    type,
+    source: "footer",
+    rows,
+    nullCount: Number(statistics.nullCount),
+    distinct: statistics.distinctCount !== undefined ? Number(statistics.distinctCount) : undefined,
+    min: statistics.min,
+    max: statistics.max,
+  };
+}
+
+function isOrderedValue(value: unknown): value is ParquetStatisticsValue {
+  return (
+    typeof value === "number" ||
+    typeof value === "bigint" ||
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    value instanceof Date ||
+    value instanceof Uint8Array
+  );
+}
+
+function compareKeys(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// FNV-1a followed by the murmur3 finalizer, so nearby strings spread across registers.
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
@@ -2,12 +2,13 @@ import { createCliRenderer } from "@opentui/core";
 import { createRoot } from "@opentui/react";
 import React from "react";
 
-import type { ParquetReadOptions, ParquetRow } from "@parquetlens/parquet-reader";
+import type { ParquetReadOptions } from "@parquetlens/parquet-reader";
 import { openParquetSource } from "@parquetlens/parquet-reader";
 
-import { App, StaticApp } from "./tui/app.js";
+import { App } from "./tui/app.js";
 import { RESERVED_LINES } from "./tui/constants.js";
-import type { GridState, TuiOptions } from "./tui/types.js";
+import { DiffViewer } from "./tui/diff-viewer.js";
+import type { DiffTuiOptions, GridState, TuiOptions } from "./tui/types.js";
 import { buildColumnInfo, resolveInitialTotal } from "./tui/utils.js";
 
 async function createTuiRenderer() {
@@ -33,22 +34,47 @@ export async function runTui(input: string, options: TuiOptions): Promise<void>
   const terminalRows = process.stdout.rows ?? 24;
   const pageSize = Math.max(1, terminalRows - RESERVED_LINES);
   const windowSize = Math.max(50, pageSize * 3);
-  const initialLimit = options.maxRows ? Math.min(windowSize, options.maxRows) : windowSize;
+  const metadataPromise = source.readMetadata().catch(() => null);
+
+  // Opening away from the top needs the row count first: --tail counts from the
+  // end, and like scrolling, the first page is kept full when the end is near.
+  let initialOffset = options.offset ?? 0;
+  if (options.tail !== undefined || initialOffset > 0) {
+    const fileTotal = resolveInitialTotal(await metadataPromise, [], 0, options.rowGroups);
+    const total = options.maxRows ?? fileTotal;
+    if (options.tail !== undefined) {
+      initialOffset = total === null ? 0 : Math.max(0, total - options.tail);
+    }
+    if (total !== null) {
+      initialOffset = Math.min(initialOffset, Math.max(0, total - pageSize));
+    }
+  }
+
+  const initialLimit = options.maxRows
+    ? Math.max(0, Math.min(windowSize, options.maxRows - initialOffset))
+    : windowSize;
   const readOptions: ParquetReadOptions = {
     batchSize: options.batchSize ?? 1024,
     columns: options.columns.length > 0 ? options.columns : undefined,
+    rowGroups: options.rowGroups,
     limit: initialLimit,
-    offset: 0,
+    offset: initialOffset,
   };
 
   const [initialRows, metadata] = await Promise.all([
     source.readTable(readOptions),
-    source.readMetadata().catch(() => null),
+    metadataPromise,
   ]);
 
   const initialColumns = buildColumnInfo(metadata, initialRows, options.columns);
   const initialGrid: GridState = { columns: initialColumns, rows: initialRows };
-  const initialKnownTotal = resolveInitialTotal(metadata, initialRows, initialLimit);
+  const initialKnownTotal = resolveInitialTotal(
+    metadata,
+    initialRows,
+    initialLimit,
+    options.rowGroups,
+    initialOffset,
+  );
 
   const { root, handleExit } = await createTuiRenderer();
   root.render(
@@ -60,15 +86,14 @@ export async function runTui(input: string, options: TuiOptions): Promise<void>
       initialGrid={initialGrid}
       initialMetadata={metadata}
       initialKnownTotal={initialKnownTotal}
+      initialOffset={initialOffset}
     />,
   );
 }
 
-export async function runTuiWithRows(
-  rows: ParquetRow[],
-  title: string,
-  options: TuiOptions,
-): Promise<void> {
+export async function runDiffTui(options: DiffTuiOptions): Promise<void> {
+  const terminalRows = process.stdout.rows ?? 24;
+  const pageSize = Math.max(1, terminalRows - RESERVED_LINES);
   const { root, handleExit } = await createTuiRenderer();
-  root.render(<StaticApp rows={rows} title={title} options={options} onExit={handleExit} />);
+  root.render(<DiffViewer {...options} pageSize={pageSize} onExit={handleExit} />);
 }
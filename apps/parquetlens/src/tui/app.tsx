@@ -1,18 +1,31 @@
 import { useTerminalDimensions } from "@opentui/react";
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
+import { matchesFilter } from "@parquetlens/parquet-reader";
 import type {
   ParquetFileMetadata,
   ParquetReadOptions,
   ParquetRow,
 } from "@parquetlens/parquet-reader";
+import type { SqlSession } from "@parquetlens/sql";
 
 import { BytesViewer } from "./bytes-viewer.js";
-import { RESERVED_LINES } from "./constants.js";
+import { RESERVED_LINES, SCAN_WINDOW_ROWS, SORT_MEMORY_ROWS } from "./constants.js";
 import { LayoutViewer } from "./layout-viewer.js";
+import { SchemaViewer } from "./schema-viewer.js";
+import { sortRows, sortRowsInMemory, sortRowsWithSql, type SortedRows } from "./sort.js";
 import { TableViewer } from "./table-viewer.js";
-import type { ColumnInfo, GridState, TuiOptions, ViewerTab } from "./types.js";
-import { buildColumnInfo, copyToClipboard } from "./utils.js";
+import type {
+  ColumnInfo,
+  GridState,
+  RowFilter,
+  RowFilterStatus,
+  SortKey,
+  SqlResult,
+  TuiOptions,
+  ViewerTab,
+} from "./types.js";
+import { buildColumnInfo, copyToClipboard, getAvailableTabs } from "./utils.js";
 
 type AppProps = {
   source: import("@parquetlens/parquet-reader").ParquetSource;
@@ -22,6 +35,7 @@ type AppProps = {
   initialGrid?: GridState;
   initialMetadata?: ParquetFileMetadata | null;
   initialKnownTotal?: number | null;
+  initialOffset?: number;
 };
 
 export function App({
@@ -32,29 +46,56 @@ export function App({
   initialGrid,
   initialMetadata,
   initialKnownTotal,
+  initialOffset = 0,
 }: AppProps) {
   const { height } = useTerminalDimensions();
   const pageSize = Math.max(1, height - RESERVED_LINES);
   const windowSize = Math.max(50, pageSize * 3);
   const cacheLimit = 8;
 
-  const [offset, setOffset] = useState(0);
-  const [pendingOffset, setPendingOffset] = useState(0);
-  const [windowStart, setWindowStart] = useState(0);
+  const [offset, setOffset] = useState(initialOffset);
+  const [pendingOffset, setPendingOffset] = useState(initialOffset);
+  const [windowStart, setWindowStart] = useState(initialOffset);
   const [windowRows, setWindowRows] = useState<ParquetRow[]>(initialGrid?.rows ?? []);
   const [columns, setColumns] = useState<ColumnInfo[]>(initialGrid?.columns ?? []);
-  const [activeTab, setActiveTab] = useState<ViewerTab>("table");
+  const [activeTab, setActiveTab] = useState<ViewerTab>(options.sql ? "sql" : "table");
   const [loading, setLoading] = useState(!initialGrid);
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<ParquetFileMetadata | null>(initialMetadata ?? null);
   const [knownTotalRows, setKnownTotalRows] = useState<number | null>(initialKnownTotal ?? null);
+  const [filter, setFilter] = useState<RowFilter | null>(null);
+  // Offsets and totals count matching rows while a filter is active. Their total
+  // is only known once a window read comes back short.
+  const [filteredTotal, setFilteredTotal] = useState<number | null>(null);
+  const [matchedRows, setMatchedRows] = useState(0);
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
+  const [sorted, setSorted] = useState<{ key: SortKey; rows: SortedRows } | null>(null);
+  const [sortProgress, setSortProgress] = useState<string | null>(null);
+  // Each result gets an id so that the result view starts over at the top.
+  const [sqlResult, setSqlResult] = useState<(SqlResult & { id: number }) | null>(
+    options.sql ? { ...options.sql, id: 0 } : null,
+  );
+  const [sqlHistory, setSqlHistory] = useState<string[]>(options.sql ? [options.sql.query] : []);
+  const sqlSessionRef = useRef<Promise<SqlSession> | null>(null);
+  const sqlTables = useMemo(
+    () => ["data", ...(options.sqlTables ?? []).map((table) => table.name)],
+    [options.sqlTables],
+  );
   const noticeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const windowCacheRef = useRef(new Map<string, ParquetRow[]>());
   const inflightWindowLoadsRef = useRef(new Map<string, Promise<ParquetRow[]>>());
   const hasLayout = (metadata?.layout?.rowGroups.length ?? 0) > 0;
-
-  const effectiveTotal = options.maxRows ?? knownTotalRows;
+  const availableTabs = getAvailableTabs(hasLayout, sqlResult !== null);
+
+  const selectionTotal = filter ? filteredTotal : knownTotalRows;
+  const effectiveTotal = filter
+    ? filteredTotal !== null
+      ? Math.min(filteredTotal, options.maxRows ?? filteredTotal)
+      : options.maxRows !== undefined && matchedRows >= options.maxRows
+        ? options.maxRows
+        : null
+    : (options.maxRows ?? knownTotalRows);
   const maxOffset =
     effectiveTotal === undefined || effectiveTotal === null
       ? undefined
@@ -63,11 +104,15 @@ export function App({
   const columnsToRead = options.columns;
   const columnsKey = columnsToRead.join("\u001f");
   const batchSizeKey = options.batchSize ?? 1024;
+  const rowGroupsToRead = options.rowGroups;
+  const rowGroupsKey = rowGroupsToRead?.join(",") ?? "";
+  const filterKey = filter?.text ?? "";
+  const sortedKey = sorted ? `${sorted.key.column}:${sorted.key.direction}` : "";
 
   useEffect(() => {
     windowCacheRef.current.clear();
     inflightWindowLoadsRef.current.clear();
-  }, [source, columnsKey, batchSizeKey]);
+  }, [source, columnsKey, batchSizeKey, rowGroupsKey]);
   const visibleRows = useMemo(() => {
     if (windowRows.length === 0) return [];
     const startIndex = offset - windowStart;
@@ -76,6 +121,179 @@ export function App({
   }, [offset, pageSize, windowRows, windowStart]);
   const grid = useMemo(() => ({ columns, rows: visibleRows }), [columns, visibleRows]);
 
+  // Search and sort read straight from the source rather than through the window
+  // cache, so a scan over the whole file does not evict the pages being viewed.
+  const readSelection = useCallback(
+    (start: number, limit: number) => {
+      const bounded =
+        options.maxRows === undefined ? limit : Math.min(limit, options.maxRows - start);
+      if (bounded <= 0) {
+        return Promise.resolve([]);
+      }
+      return source.readTable({
+        batchSize: batchSizeKey,
+        columns: columnsToRead.length > 0 ? columnsToRead : undefined,
+        rowGroups: rowGroupsToRead,
+        filter: filter?.filter,
+        limit: bounded,
+        offset: start,
+      });
+    },
+    [batchSizeKey, columnsToRead, filter, options.maxRows, rowGroupsToRead, source],
+  );
+  const searchRows = sorted ? sorted.rows.readRows : readSelection;
+
+  const resetWindow = useCallback(() => {
+    setWindowStart(0);
+    setWindowRows([]);
+    setOffset(0);
+    setPendingOffset(0);
+  }, []);
+  const handleFilterChange = useCallback(
+    (next: RowFilter | null) => {
+      setFilter(next);
+      setFilteredTotal(null);
+      setMatchedRows(0);
+      resetWindow();
+    },
+    [resetWindow],
+  );
+  const handleSortChange = (next: SortKey | null) => {
+    setSortKey(next);
+    if (sorted) {
+      resetWindow();
+    }
+  };
+
+  // One SQL session serves the editor and sorting, so temp tables created by one
+  // query are visible to the next. It opens on first use.
+  const openSqlSession = useCallback(() => {
+    if (!sqlSessionRef.current) {
+      const opening = import("@parquetlens/sql")
+        .catch((caught) => {
+          const message = caught instanceof Error ? caught.message : String(caught);
+          throw new Error(
+            `SQL support requires the optional @parquetlens/sql package (${message})`,
+          );
+        })
+        .then((sql) => sql.openSqlSession(filePath, options.sqlTables));
+      opening.catch(() => {
+        if (sqlSessionRef.current === opening) {
+          sqlSessionRef.current = null;
+        }
+      });
+      sqlSessionRef.current = opening;
+    }
+    return sqlSessionRef.current;
+  }, [filePath, options.sqlTables]);
+
+  useEffect(() => {
+    return () => {
+      const session = sqlSessionRef.current;
+      sqlSessionRef.current = null;
+      void session?.then((opened) => opened.close()).catch(() => {});
+    };
+  }, [filePath]);
+
+  // Sort the current selection in the background; rows stay in file order until
+  // it finishes. Large files go to DuckDB when the SQL package is installed.
+  useEffect(() => {
+    setSorted(null);
+    if (!sortKey) {
+      setSortProgress(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const label = `sorting by ${sortKey.column} ${sortKey.direction}`;
+    let opened: SortedRows | null = null;
+    setSortProgress(`${label}... | esc cancel`);
+
+    const openSorted = async () => {
+      const estimatedRows = options.maxRows ?? knownTotalRows ?? Number.POSITIVE_INFINITY;
+      if (estimatedRows > SORT_MEMORY_ROWS && !rowGroupsToRead) {
+        const session = await openSqlSession().catch(() => null);
+        if (session) {
+          return sortRowsWithSql({
+            runSql: session.query,
+            relation: session.numberedData,
+            key: sortKey,
+            columns: columnsToRead,
+            filter: filter ?? undefined,
+            maxRows: options.maxRows,
+          });
+        }
+      }
+      return sortRows({
+        readRows: readSelection,
+        key: sortKey,
+        windowSize: SCAN_WINDOW_ROWS,
+        memoryRows: SORT_MEMORY_ROWS,
+        signal: controller.signal,
+        onProgress: (rowsRead) => {
+          setSortProgress(`${label}... ${rowsRead.toLocaleString()} rows read | esc cancel`);
+        },
+      });
+    };
+
+    openSorted()
+      .then((rows) => {
+        opened = rows;
+        if (controller.signal.aborted) {
+          void rows.close();
+          return;
+        }
+        setSorted({ key: sortKey, rows });
+        setSortProgress(null);
+        if (filter) {
+          setFilteredTotal(rows.totalRows);
+        }
+        resetWindow();
+      })
+      .catch((caught) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        const message = caught instanceof Error ? caught.message : String(caught);
+        setSortKey(null);
+        setSortProgress(`sort failed: ${message}`);
+      });
+
+    return () => {
+      controller.abort();
+      void opened?.close();
+    };
+  }, [
+    columnsToRead,
+    filter,
+    knownTotalRows,
+    openSqlSession,
+    options.maxRows,
+    readSelection,
+    resetWindow,
+    rowGroupsToRead,
+    sortKey,
+  ]);
+
+  // Queries run against the whole file through the `data` view, independent of
+  // the table's columns, filter and sort. Failures reject, for the editor to show.
+  const handleSqlSubmit = async (query: string) => {
+    setSqlHistory((current) => (current.at(-1) === query ? current : [...current, query]));
+    const session = await openSqlSession();
+    const rows = await session.query(query);
+    setSqlResult((current) => ({ query, rows, id: (current?.id ?? 0) + 1 }));
+    setActiveTab("sql");
+  };
+
+  const sortStatus = sortKey ? { ...sortKey, pending: sorted?.key !== sortKey } : null;
+  const filterStatus: RowFilterStatus | null = filter
+    ? {
+        text: filter.text,
+        matchedRows: filteredTotal ?? matchedRows,
+        complete: filteredTotal !== null,
+      }
+    : null;
+
   // Cleanup source on unmount
   useEffect(() => {
     return () => {
@@ -91,13 +309,13 @@ export function App({
       return Math.max(0, snappedPage * pageSize - pageSize);
     };
     const getWindowLimit = (start: number) => {
-      const maxRows = options.maxRows ?? knownTotalRows;
+      const maxRows = options.maxRows ?? selectionTotal;
       const remaining =
         maxRows === undefined || maxRows === null ? undefined : Math.max(0, maxRows - start);
       return remaining === undefined ? windowSize : Math.min(windowSize, remaining);
     };
     const getWindowKey = (start: number, limit: number) => {
-      return `${start}:${limit}:${columnsKey}:${batchSizeKey}`;
+      return `${start}:${limit}:${columnsKey}:${batchSizeKey}:${rowGroupsKey}:${filterKey}:${sortedKey}`;
     };
     const cacheWindow = (key: string, rows: ParquetRow[]) => {
       const cache = windowCacheRef.current;
@@ -127,11 +345,14 @@ export function App({
       const readOptions: ParquetReadOptions = {
         batchSize: batchSizeKey,
         columns: columnsToRead.length > 0 ? columnsToRead : undefined,
+        rowGroups: rowGroupsToRead,
+        filter: filter?.filter,
         limit,
         offset: start,
       };
-      const readPromise = source
-        .readTable(readOptions)
+      const readPromise = (
+        sorted ? sorted.rows.readRows(start, limit) : source.readTable(readOptions)
+      )
         .then((rowsPage) => {
           cacheWindow(key, rowsPage);
           return rowsPage;
@@ -181,7 +402,16 @@ export function App({
           setWindowRows(rowsPage);
           setColumns(nextColumns);
           setOffset(targetOffset);
-          if (rowsPage.length < limit && options.maxRows === undefined && knownTotalRows === null) {
+          if (filter) {
+            setMatchedRows((current) => Math.max(current, start + rowsPage.length));
+            if (rowsPage.length < limit && filteredTotal === null) {
+              setFilteredTotal(start + rowsPage.length);
+            }
+          } else if (
+            rowsPage.length < limit &&
+            options.maxRows === undefined &&
+            knownTotalRows === null
+          ) {
             setKnownTotalRows(start + rowsPage.length);
           }
         }
@@ -213,7 +443,12 @@ export function App({
     columnsToRead,
     columnsKey,
     batchSizeKey,
+    rowGroupsKey,
+    rowGroupsToRead,
     cacheLimit,
+    filter,
+    filterKey,
+    filteredTotal,
     knownTotalRows,
     loading,
     metadata,
@@ -221,6 +456,9 @@ export function App({
     options.maxRows,
     offset,
     pageSize,
+    selectionTotal,
+    sorted,
+    sortedKey,
     source,
     windowSize,
     windowRows.length,
@@ -251,10 +489,10 @@ export function App({
   }, [columnsToRead, metadata, windowRows]);
 
   useEffect(() => {
-    if (!hasLayout && activeTab !== "table") {
+    if (!availableTabs.includes(activeTab)) {
       setActiveTab("table");
     }
-  }, [activeTab, hasLayout]);
+  }, [activeTab, availableTabs]);
 
   // Cleanup notice timer
   useEffect(() => {
@@ -283,6 +521,26 @@ export function App({
         activeTab={activeTab}
         setActiveTab={setActiveTab}
         hasLayout={hasLayout}
+        hasSqlResult={sqlResult !== null}
+        loadPages={source.readColumnPages}
+        onExit={onExit}
+      />
+    );
+  }
+
+  if (activeTab === "schema" && hasLayout) {
+    return (
+      <SchemaViewer
+        title={filePath}
+        pageSize={pageSize}
+        loading={loading}
+        error={error}
+        notice={notice}
+        metadata={metadata}
+        activeTab={activeTab}
+        setActiveTab={setActiveTab}
+        hasLayout={hasLayout}
+        hasSqlResult={sqlResult !== null}
         onExit={onExit}
       />
     );
@@ -300,12 +558,31 @@ export function App({
         activeTab={activeTab}
         setActiveTab={setActiveTab}
         hasLayout={hasLayout}
+        hasSqlResult={sqlResult !== null}
         onExit={onExit}
         onCopyError={handleCopyError}
       />
     );
   }
 
+  if (activeTab === "sql" && sqlResult) {
+    return (
+      <SqlResultViewer
+        key={sqlResult.id}
+        result={sqlResult}
+        notice={notice}
+        activeTab={activeTab}
+        setActiveTab={setActiveTab}
+        hasLayout={hasLayout}
+        onExit={onExit}
+        sqlHistory={sqlHistory}
+        sqlColumns={metadata?.columns}
+        sqlTables={sqlTables}
+        onSqlSubmit={handleSqlSubmit}
+      />
+    );
+  }
+
   return (
     <TableViewer
       grid={grid}
@@ -317,45 +594,89 @@ export function App({
       pageSize={pageSize}
       loading={loading}
       error={error}
-      notice={notice}
+      notice={notice ?? sortProgress}
       metadata={metadata}
       activeTab={activeTab}
       setActiveTab={setActiveTab}
       hasLayout={hasLayout}
+      hasSqlResult={sqlResult !== null}
       onExit={onExit}
       onCopyError={handleCopyError}
+      searchRows={searchRows}
+      filter={filterStatus}
+      onFilterChange={handleFilterChange}
+      sort={sortStatus}
+      onSortChange={handleSortChange}
+      sqlHistory={sqlHistory}
+      sqlColumns={metadata?.columns}
+      sqlTables={sqlTables}
+      onSqlSubmit={handleSqlSubmit}
     />
   );
 }
 
-type StaticAppProps = {
-  rows: ParquetRow[];
-  title: string;
-  options: TuiOptions;
+type SqlResultViewerProps = {
+  result: SqlResult;
+  notice: string | null;
+  activeTab: ViewerTab;
+  setActiveTab: React.Dispatch<React.SetStateAction<ViewerTab>>;
+  hasLayout: boolean;
   onExit: () => void;
+  sqlHistory: string[];
+  sqlColumns?: ColumnInfo[];
+  sqlTables: string[];
+  onSqlSubmit: (query: string) => Promise<void>;
 };
 
-export function StaticApp({ rows, title, options, onExit }: StaticAppProps) {
+/** Shows a query result held in memory, where filter and sort apply directly to the rows. */
+function SqlResultViewer({
+  result,
+  notice,
+  activeTab,
+  setActiveTab,
+  hasLayout,
+  onExit,
+  sqlHistory,
+  sqlColumns,
+  sqlTables,
+  onSqlSubmit,
+}: SqlResultViewerProps) {
   const { height } = useTerminalDimensions();
   const pageSize = Math.max(1, height - RESERVED_LINES);
+  const { query, rows } = result;
+  const title = `SQL: ${query.slice(0, 50)}${query.length > 50 ? "..." : ""}`;
 
   const [offset, setOffset] = useState(0);
-  const [activeTab, setActiveTab] = useState<ViewerTab>("table");
+  const [filter, setFilter] = useState<RowFilter | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
 
-  const columns = useMemo(
-    () => buildColumnInfo(null, rows, options.columns),
-    [rows, options.columns],
-  );
+  const columns = useMemo(() => buildColumnInfo(null, rows, []), [rows]);
+  const selectedRows = useMemo(() => {
+    const matching = filter ? rows.filter((row) => matchesFilter(filter.filter, row)) : rows;
+    return sortKey ? sortRowsInMemory(matching, sortKey) : matching;
+  }, [filter, rows, sortKey]);
 
-  const totalRows = rows.length;
+  const totalRows = selectedRows.length;
   const maxOffset = Math.max(0, totalRows - pageSize);
 
   const visibleRows = useMemo(
-    () => rows.slice(offset, offset + pageSize),
-    [rows, offset, pageSize],
+    () => selectedRows.slice(offset, offset + pageSize),
+    [selectedRows, offset, pageSize],
   );
 
   const grid: GridState = useMemo(() => ({ columns, rows: visibleRows }), [columns, visibleRows]);
+  const searchRows = useCallback(
+    (start: number, limit: number) => Promise.resolve(selectedRows.slice(start, start + limit)),
+    [selectedRows],
+  );
+  const handleFilterChange = useCallback((next: RowFilter | null) => {
+    setFilter(next);
+    setOffset(0);
+  }, []);
+  const handleSortChange = useCallback((next: SortKey | null) => {
+    setSortKey(next);
+    setOffset(0);
+  }, []);
 
   return (
     <TableViewer
@@ -366,10 +687,21 @@ export function StaticApp({ rows, title, options, onExit }: StaticAppProps) {
       maxOffset={maxOffset}
       totalRows={totalRows}
       pageSize={pageSize}
+      notice={notice}
       activeTab={activeTab}
       setActiveTab={setActiveTab}
-      hasLayout={false}
+      hasLayout={hasLayout}
+      hasSqlResult
       onExit={onExit}
+      searchRows={searchRows}
+      filter={filter && { text: filter.text, matchedRows: totalRows, complete: true }}
+      onFilterChange={handleFilterChange}
+      sort={sortKey && { ...sortKey, pending: false }}
+      onSortChange={handleSortChange}
+      sqlHistory={sqlHistory}
+      sqlColumns={sqlColumns}
+      sqlTables={sqlTables}
+      onSqlSubmit={onSqlSubmit}
     />
   );
 }
@@ -21,6 +21,7 @@ import {
   clampNumber,
   computeBytesSummary,
   cycleTab,
+  formatCellDetail,
   formatBigInt,
   formatBytes,
   formatPercent,
@@ -42,6 +43,7 @@ type BytesViewerProps = {
   activeTab: ViewerTab;
   setActiveTab: React.Dispatch<React.SetStateAction<ViewerTab>>;
   hasLayout: boolean;
+  hasSqlResult?: boolean;
   onExit: () => void;
   onCopyError?: () => void;
 };
@@ -56,6 +58,7 @@ export function BytesViewer({
   activeTab,
   setActiveTab,
   hasLayout,
+  hasSqlResult = false,
   onExit,
   onCopyError,
 }: BytesViewerProps) {
@@ -71,7 +74,7 @@ export function BytesViewer({
   const maxRowGroupBytes = rows.reduce((max, row) => {
     return row.rowGroup.bytes > max ? row.rowGroup.bytes : max;
   }, 0n);
-  const availableTabs = getAvailableTabs(hasLayout);
+  const availableTabs = getAvailableTabs(hasLayout, hasSqlResult);
   const metaFlags = getMetadataFlags(metadata);
 
   const columnTotals = useMemo(() => (model ? buildColumnTotals(model) : []), [model]);
@@ -285,6 +288,7 @@ export function BytesViewer({
           createdBy: metaFlags.createdBy,
           activeTab,
           hasLayout,
+          hasSqlResult,
           summaryText,
           onTabSelect: setActiveTab,
         })}
@@ -472,7 +476,7 @@ export function BytesViewer({
         ) : null}
       </box>
       <box backgroundColor={THEME.header} border borderColor={THEME.border}>
-        {renderFooter(activeTab, !!error, notice, hasLayout)}
+        {renderFooter(activeTab, !!error, notice, hasLayout, hasSqlResult)}
       </box>
     </box>
   );
@@ -576,6 +580,25 @@ function renderBytesDetail(
         label="byte range"
         value={`${formatBigInt(chunk.totalRange.start)} → ${formatBigInt(chunk.totalRange.end)}`}
       />
+      {chunk.statistics ? (
+        <>
+          <text wrapMode="none" fg={THEME.text}>
+            {" "}
+          </text>
+          {chunk.statistics.min !== undefined ? (
+            <LayoutInfoRow label="min" value={formatCellDetail(chunk.statistics.min)} />
+          ) : null}
+          {chunk.statistics.max !== undefined ? (
+            <LayoutInfoRow label="max" value={formatCellDetail(chunk.statistics.max)} />
+          ) : null}
+          {chunk.statistics.nullCount !== undefined ? (
+            <LayoutInfoRow label="nulls" value={formatBigInt(chunk.statistics.nullCount)} />
+          ) : null}
+          {chunk.statistics.distinctCount !== undefined ? (
+            <LayoutInfoRow label="distinct" value={formatBigInt(chunk.statistics.distinctCount)} />
+          ) : null}
+        </>
+      ) : null}
     </box>
   );
 }
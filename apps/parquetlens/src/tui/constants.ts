@@ -11,6 +11,11 @@ export const SIDEBAR_WIDTH_RATIO = 0.35;
 export const SIDEBAR_MIN_WIDTH = 24;
 export const CONTENT_BORDER_WIDTH = 2;
 export const PANEL_GAP = 1;
+export const SCAN_WINDOW_ROWS = 4096;
+export const SORT_MEMORY_ROWS = 200_000;
+export const FILTER_LABEL_WIDTH = 32;
+export const SQL_EDITOR_MAX_LINES = 8;
+export const SQL_COMPLETION_ROWS = 5;
 
 export const COLUMN_COLORS = [
   "#50fa7b", "#ff79c6", "#8be9fd", "#ffb86c", "#bd93f9",
@@ -28,4 +33,6 @@ export const THEME = {
   text: "#c5cee0",
   muted: "#6272a4",
   stripe: "#252733",
+  match: "#f1fa8c",
+  currentMatch: "#ffb86c",
 };
@@ -0,0 +1,252 @@
+import { useKeyboard } from "@opentui/react";
+import React, { useEffect, useState } from "react";
+
+import { formatDiffKey } from "../diff.js";
+import { THEME } from "./constants.js";
+import type { DiffTuiOptions } from "./types.js";
+import { clampNumber, formatCellDetail, normalizeCell } from "./utils.js";
+
+type DiffViewerProps = DiffTuiOptions & {
+  pageSize: number;
+  onExit: () => void;
+};
+
+const CHANGE_COLORS = {
+  added: "#50fa7b",
+  removed: "#ff5555",
+  changed: "#f1fa8c",
+} as const;
+
+const CHANGE_MARKERS = {
+  added: "+",
+  removed: "-",
+  changed: "~",
+} as const;
+
+// Lines kept for the selected change's detail panel, borders included.
+const DETAIL_LINES = 10;
+
+export function DiffViewer({
+  title,
+  keyColumns,
+  columns,
+  changes,
+  summary,
+  pageSize,
+  onExit,
+}: DiffViewerProps) {
+  const [selected, setSelected] = useState(0);
+  const [scrollOffset, setScrollOffset] = useState(0);
+  const visibleCount = Math.max(1, pageSize - DETAIL_LINES);
+  const selectedChange = changes[selected] ?? null;
+  const truncated = summary.added + summary.removed + summary.changed - changes.length;
+
+  // Keep the selected change inside the visible window.
+  useEffect(() => {
+    setScrollOffset((current) => {
+      if (selected < current) {
+        return selected;
+      }
+      if (selected >= current + visibleCount) {
+        return selected - visibleCount + 1;
+      }
+      return clampNumber(current, 0, Math.max(0, changes.length - visibleCount));
+    });
+  }, [changes.length, selected, visibleCount]);
+
+  const moveSelection = (delta: number) => {
+    setSelected((current) => clampNumber(current + delta, 0, Math.max(0, changes.length - 1)));
+  };
+
+  useKeyboard((key) => {
+    if ((key.ctrl && key.name === "c") || key.name === "escape" || key.name === "q") {
+      onExit();
+      return;
+    }
+
+    if (key.name === "down" || key.name === "j") {
+      moveSelection(1);
+      return;
+    }
+
+    if (key.name === "up" || key.name === "k") {
+      moveSelection(-1);
+      return;
+    }
+
+    if (key.name === "pagedown") {
+      moveSelection(visibleCount);
+      return;
+    }
+
+    if (key.name === "pageup") {
+      moveSelection(-visibleCount);
+      return;
+    }
+
+    if (key.name === "home" || (key.name === "g" && !key.shift)) {
+      setSelected(0);
+      return;
+    }
+
+    if (key.name === "end" || (key.name === "g" && key.shift)) {
+      setSelected(Math.max(0, changes.length - 1));
+    }
+  });
+
+  const summaryText = `rows ${summary.leftRows.toLocaleString()} → ${summary.rightRows.toLocaleString()} | +${summary.added.toLocaleString()} -${summary.removed.toLocaleString()} ~${summary.changed.toLocaleString()} | unchanged ${summary.unchanged.toLocaleString()}`;
+  const keyText = keyColumns.length > 0 ? `key ${keyColumns.join(", ")}` : "by position";
+  const visibleChanges = changes.slice(scrollOffset, scrollOffset + visibleCount);
+
+  return (
+    <box flexDirection="column" width="100%" height="100%" backgroundColor={THEME.background}>
+      <box backgroundColor={THEME.header} border borderColor={THEME.border}>
+        <box flexDirection="row" alignItems="center" gap={2} width="100%">
+          <text wrapMode="none" fg={THEME.accent}>
+            {"◈ parquetlens diff"}
+          </text>
+          <text wrapMode="none" fg={THEME.muted}>
+            {"│"}
+          </text>
+          <text wrapMode="none" fg={THEME.text}>
+            {title}
+          </text>
+          <text wrapMode="none" fg={THEME.muted}>
+            {"│"}
+          </text>
+          <text wrapMode="none" fg={THEME.text}>
+            {summaryText}
+          </text>
+          <box flexGrow={1} />
+          <text wrapMode="none" fg={THEME.muted}>
+            {keyText}
+          </text>
+        </box>
+      </box>
+      <box
+        flexGrow={1}
+        flexDirection="column"
+        backgroundColor={THEME.panel}
+        border
+        borderColor={THEME.border}
+        title="changes"
+        titleAlignment="left"
+        onMouseScroll={(event) => {
+          if (!event.scroll) return;
+          const step = Math.max(1, event.scroll.delta);
+          if (event.scroll.direction === "up") {
+            moveSelection(-step);
+          } else if (event.scroll.direction === "down") {
+            moveSelection(step);
+          }
+        }}
+      >
+        {changes.length === 0 ? (
+          <text wrapMode="none" fg={THEME.muted}>
+            {"no differences"}
+          </text>
+        ) : (
+          visibleChanges.map((change, index) => {
+            const changeIndex = scrollOffset + index;
+            const isSelected = changeIndex === selected;
+            const summaryCells =
+              change.type === "changed"
+                ? change.columns
+                    .map(
+                      (name) =>
+                        `${name}: ${formatDiffCell(change.left[name])} → ${formatDiffCell(change.right[name])}`,
+                    )
+                    .join("  ")
+                : columns.map((name) => `${name}: ${formatDiffCell(change.row[name])}`).join("  ");
+
+            return (
+              <box
+                key={`diff-change-${changeIndex}`}
+                flexDirection="row"
+                backgroundColor={isSelected ? THEME.header : THEME.panel}
+                onMouseDown={() => setSelected(changeIndex)}
+              >
+                <text wrapMode="none" fg={CHANGE_COLORS[change.type]}>
+                  {`${CHANGE_MARKERS[change.type]} `}
+                </text>
+                <text wrapMode="none" fg={isSelected ? THEME.accent : THEME.text}>
+                  {formatDiffKey(change.key)}
+                </text>
+                <text wrapMode="none" truncate fg={THEME.muted}>
+                  {`  ${summaryCells}`}
+                </text>
+              </box>
+            );
+          })
+        )}
+      </box>
+      <box
+        height={DETAIL_LINES}
+        flexDirection="column"
+        backgroundColor={THEME.panel}
+        border
+        borderColor={THEME.border}
+        title={selectedChange ? formatDiffKey(selectedChange.key) : "detail"}
+        titleAlignment="left"
+      >
+        {selectedChange
+          ? columns.map((name) => {
+              if (selectedChange.type !== "changed") {
+                return (
+                  <text
+                    key={`diff-detail-${name}`}
+                    wrapMode="none"
+                    truncate
+                    fg={CHANGE_COLORS[selectedChange.type]}
+                  >
+                    {`${name}: ${formatDiffCell(selectedChange.row[name])}`}
+                  </text>
+                );
+              }
+              const isChanged = selectedChange.columns.includes(name);
+              return (
+                <box key={`diff-detail-${name}`} flexDirection="row">
+                  <text wrapMode="none" fg={isChanged ? THEME.accent : THEME.muted}>
+                    {`${name}: `}
+                  </text>
+                  {isChanged ? (
+                    <>
+                      <text wrapMode="none" fg={CHANGE_COLORS.removed}>
+                        {formatDiffCell(selectedChange.left[name])}
+                      </text>
+                      <text wrapMode="none" fg={THEME.muted}>
+                        {" → "}
+                      </text>
+                      <text wrapMode="none" truncate fg={CHANGE_COLORS.added}>
+                        {formatDiffCell(selectedChange.right[name])}
+                      </text>
+                    </>
+                  ) : (
+                    <text wrapMode="none" truncate fg={THEME.text}>
+                      {formatDiffCell(selectedChange.right[name])}
+                    </text>
+                  )}
+                </box>
+              );
+            })
+          : null}
+      </box>
+      <box backgroundColor={THEME.header} border borderColor={THEME.border}>
+        <box flexDirection="column" width="100%">
+          {truncated > 0 ? (
+            <text wrapMode="none" truncate fg={THEME.badge}>
+              {`showing the first ${changes.length.toLocaleString()} changes; use --json for all`}
+            </text>
+          ) : null}
+          <text wrapMode="none" truncate fg={THEME.muted}>
+            {"q exit | arrows/jk select | pgup/pgdn page | home/end | mouse wheel scroll"}
+          </text>
+        </box>
+      </box>
+    </box>
+  );
+}
+
+function formatDiffCell(value: unknown): string {
+  return value === null || value === undefined ? "null" : normalizeCell(formatCellDetail(value));
+}
@@ -0,0 +1,117 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { describe, expect, it } from "vitest";
+
+import { matchesFilter, openParquetSourceFromPath } from "@parquetlens/parquet-reader";
+
+import { parseFilterExpression } from "./filter.js";
+
+const columns = [
+  { name: "city", type: "STRING" },
+  { name: "pop", type: "INT64" },
+  { name: "founded", type: "DATE" },
+  { name: "state code", type: "STRING" },
+];
+
+describe("parseFilterExpression", () => {
+  it("parses comparisons joined by and/or with and binding tighter", () => {
+    expect(parseFilterExpression("city = 'Seattle' and pop > 1000 or pop < 10", columns)).toEqual({
+      op: "or",
+      filters: [
+        {
+          op: "and",
+          filters: [
+            { op: "=", column: "city", value: "Seattle" },
+            { op: ">", column: "pop", value: 1000 },
+          ],
+        },
+        { op: "<", column: "pop", value: 10 },
+      ],
+    });
+  });
+
+  it("parses in lists, null checks, quoted names and escaped quotes", () => {
+    expect(parseFilterExpression(`"state code" not in ('WA', 'O''R')`, columns)).toEqual({
+      op: "not in",
+      column: "state code",
+      values: ["WA", "O'R"],
+    });
+    expect(parseFilterExpression("city IS NOT NULL", columns)).toEqual({
+      op: "is not null",
+      column: "city",
+    });
+  });
+
+  it("pushes not down to the predicates", () => {
+    expect(parseFilterExpression("not (pop >= 5 or city is null)", columns)).toEqual({
+      op: "and",
+      filters: [
+        { op: "<", column: "pop", value: 5 },
+        { op: "is not null", column: "city" },
+      ],
+    });
+  });
+
+  it("negates lists with a null candidate the way SQL does", () => {
+    const inList = parseFilterExpression("pop in (1, null)", columns);
+    const negated = parseFilterExpression("not (pop in (1, null))", columns);
+
+    for (const pop of [1, 2, null]) {
+      expect(matchesFilter(negated, { pop }), String(pop)).toBe(false);
+    }
+    expect(matchesFilter(inList, { pop: 1 })).toBe(true);
+    expect(matchesFilter(inList, { pop: 2 })).toBe(false);
+  });
+
+  it("reads large integers as bigint and dates for date columns", () => {
+    const filter = parseFilterExpression(
+      "pop = 9007199254740993 and founded >= '1851-11-13'",
+      columns,
+    );
+
+    expect(filter).toEqual({
+      op: "and",
+      filters: [
+        { op: "=", column: "pop", value: 9007199254740993n },
+        { op: ">=", column: "founded", value: new Date("1851-11-13T00:00:00Z") },
+      ],
+    });
+    expect(
+      matchesFilter(filter, { pop: 9007199254740993n, founded: new Date("1900-01-01T00:00:00Z") }),
+    ).toBe(true);
+  });
+
+  it("reports unknown columns and syntax errors", () => {
+    expect(() => parseFilterExpression("town = 'x'", columns)).toThrow(/unknown column "town"/);
+    expect(() => parseFilterExpression("pop >", columns)).toThrow(/expected a value/);
+    expect(() => parseFilterExpression("city = 'x", columns)).toThrow(/unterminated/);
+    expect(() => parseFilterExpression("pop > 1 pop", columns)).toThrow(/"pop" at 9/);
+  });
+});
+
+describe("filtered window reads", () => {
+  const fixture = path.join(
+    path.dirname(fileURLToPath(import.meta.url)),
+    "../../test/fixtures/row-groups.parquet",
+  );
+
+  it("return the same rows in any order as one read of the whole selection", async () => {
+    const filter = parseFilterExpression("id != 4 and id != 7", [{ name: "id", type: "INT64" }]);
+    const expected = await (await openParquetSourceFromPath(fixture)).readTable({ filter });
+    const source = await openParquetSourceFromPath(fixture);
+    const readWindow = (offset: number) =>
+      source.readTable({ filter, batchSize: 2, offset, limit: 3 });
+
+    // Later windows resume from positions earlier reads reached, in either direction.
+    const windows = [];
+    for (const offset of [0, 3, 6, 9, 6, 3, 0, 9]) {
+      windows.push({ offset, rows: await readWindow(offset) });
+    }
+
+    expect(expected.map((row) => row.id)).toEqual([1n, 2n, 3n, 5n, 6n, 8n, 9n, 10n, 11n, 12n]);
+    for (const { offset, rows } of windows) {
+      expect(rows).toEqual(expected.slice(offset, offset + 3));
+    }
+  });
+});
@@ -0,0 +1,275 @@
+import type {
+  ParquetComparisonOperator,
+  ParquetFilter,
+  ParquetFilterValue,
+} from "@parquetlens/parquet-reader";
+
+import type { ColumnInfo } from "./types.js";
+
+type Token =
+  | { kind: "word"; text: string; quoted: boolean; at: number }
+  | { kind: "string"; text: string; at: number }
+  | { kind: "number"; text: string; at: number }
+  | { kind: "symbol"; text: string; at: number };
+
+const COMPARISON_OPERATORS: Record<string, ParquetComparisonOperator> = {
+  "=": "=",
+  "==": "=",
+  "!=": "!=",
+  "<>": "!=",
+  "<": "<",
+  "<=": "<=",
+  ">": ">",
+  ">=": ">=",
+};
+
+const NEGATED_OPERATORS: Record<ParquetComparisonOperator, ParquetComparisonOperator> = {
+  "=": "!=",
+  "!=": "=",
+  "<": ">=",
+  "<=": ">",
+  ">": "<=",
+  ">=": "<",
+};
+
+/**
+ * Parse a filter expression such as `city = 'Seattle' and pop > 1000` into a
+ * reader predicate. Supports comparisons, `in (...)`, `is [not] null`, `and`,
+ * `or`, `not` and parentheses. String literals compared against DATE and
+ * TIMESTAMP columns are read as dates.
+ */
+export function parseFilterExpression(text: string, columns: ColumnInfo[]): ParquetFilter {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const fail = (expected: string): never => {
+    const token = peek();
+    const found = token ? `"${token.text}" at ${token.at + 1}` : "end of input";
+    throw new Error(`invalid filter: expected ${expected}, found ${found}`);
+  };
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.kind === "word" && !token.quoted && token.text.toLowerCase() === keyword;
+  const acceptKeyword = (keyword: string) => {
+    if (isKeyword(peek(), keyword)) {
+      position += 1;
+      return true;
+    }
+    return false;
+  };
+  const expectSymbol = (symbol: string) => {
+    const token = peek();
+    if (token?.kind !== "symbol" || token.text !== symbol) {
+      fail(`"${symbol}"`);
+    }
+    position += 1;
+  };
+
+  const parseLiteral = (column: ColumnInfo): ParquetFilterValue => {
+    const token = peek();
+    if (!token) {
+      return fail("a value");
+    }
+    if (token.kind === "string") {
+      position += 1;
+      return /^(DATE|TIMESTAMP)\b/.test(column.type) ? parseDate(token.text, column) : token.text;
+    }
+    if (token.kind === "number") {
+      position += 1;
+      const value = Number(token.text);
+      return /^-?\d+$/.test(token.text) && !Number.isSafeInteger(value)
+        ? BigInt(token.text)
+        : value;
+    }
+    for (const [keyword, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      if (acceptKeyword(keyword)) {
+        return value;
+      }
+    }
+    return fail("a value");
+  };
+
+  const parseColumn = (): ColumnInfo => {
+    const token = peek();
+    if (token?.kind !== "word") {
+      return fail("a column name");
+    }
+    const column = columns.find((candidate) => candidate.name === token.text);
+    if (!column) {
+      throw new Error(`invalid filter: unknown column "${token.text}"`);
+    }
+    position += 1;
+    return column;
+  };
+
+  const parsePredicate = (): ParquetFilter => {
+    const column = parseColumn();
+    if (acceptKeyword("is")) {
+      const negated = acceptKeyword("not");
+      if (!acceptKeyword("null")) {
+        fail('"null"');
+      }
+      return { op: negated ? "is not null" : "is null", column: column.name };
+    }
+
+    const negated = acceptKeyword("not");
+    if (acceptKeyword("in")) {
+      expectSymbol("(");
+      const values = [parseLiteral(column)];
+      while (peek()?.kind === "symbol" && peek()?.text === ",") {
+        position += 1;
+        values.push(parseLiteral(column));
+      }
+      expectSymbol(")");
+      return { op: negated ? "not in" : "in", column: column.name, values };
+    }
+    if (negated) {
+      fail('"in"');
+    }
+
+    const token = peek();
+    const op = token?.kind === "symbol" ? COMPARISON_OPERATORS[token.text] : undefined;
+    if (!op) {
+      return fail("a comparison operator");
+    }
+    position += 1;
+    return { op, column: column.name, value: parseLiteral(column) };
+  };
+
+  const parseUnary = (): ParquetFilter => {
+    if (acceptKeyword("not")) {
+      return negateFilter(parseUnary());
+    }
+    if (peek()?.kind === "symbol" && peek()?.text === "(") {
+      position += 1;
+      const inner = parseOr();
+      expectSymbol(")");
+      return inner;
+    }
+    return parsePredicate();
+  };
+
+  const parseAnd = (): ParquetFilter => {
+    const filters = [parseUnary()];
+    while (acceptKeyword("and")) {
+      filters.push(parseUnary());
+    }
+    return filters.length === 1 ? filters[0] : { op: "and", filters };
+  };
+
+  const parseOr = (): ParquetFilter => {
+    const filters = [parseAnd()];
+    while (acceptKeyword("or")) {
+      filters.push(parseAnd());
+    }
+    return filters.length === 1 ? filters[0] : { op: "or", filters };
+  };
+
+  const filter = parseOr();
+  if (position < tokens.length) {
+    fail('"and", "or" or end of input');
+  }
+  return filter;
+}
+
+/**
+ * Push `not` down to the leaves, since predicates have no negation node. Like
+ * SQL, neither `a > 1` nor its negation `a <= 1` matches null, and neither
+ * `a in (1, null)` nor `a not in (1, null)` matches a row whose `a` is 2.
+ */
+function negateFilter(filter: ParquetFilter): ParquetFilter {
+  switch (filter.op) {
+    case "and":
+      return { op: "or", filters: filter.filters.map(negateFilter) };
+    case "or":
+      return { op: "and", filters: filter.filters.map(negateFilter) };
+    case "in":
+      return { ...filter, op: "not in" };
+    case "not in":
+      return { ...filter, op: "in" };
+    case "is null":
+      return { ...filter, op: "is not null" };
+    case "is not null":
+      return { ...filter, op: "is null" };
+    default:
+      return { ...filter, op: NEGATED_OPERATORS[filter.op] };
+  }
+}
+
+function parseDate(text: string, column: ColumnInfo): Date {
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`invalid filter: "${text}" is not a date for column "${column.name}"`);
+  }
+  return date;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    const at = index;
+    if (char === "'" || char === '"' || char === "`") {
+      // Single quotes delimit strings; double quotes and backticks delimit column
+      // names. A doubled quote inside either stands for the quote itself.
+      let value = "";
+      index += 1;
+      for (;;) {
+        if (index >= text.length) {
+          throw new Error(`invalid filter: unterminated ${char} at ${at + 1}`);
+        }
+        if (text[index] === char) {
+          if (text[index + 1] !== char) {
+            break;
+          }
+          index += 1;
+        }
+        value += text[index];
+        index += 1;
+      }
+      index += 1;
+      tokens.push(
+        char === "'"
+          ? { kind: "string", text: value, at }
+          : { kind: "word", text: value, quoted: true, at },
+      );
+      continue;
+    }
+
+    const number = /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(text.slice(index));
+    if (number) {
+      tokens.push({ kind: "number", text: number[0], at });
+      index += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][\w.$]*/.exec(text.slice(index));
+    if (word) {
+      tokens.push({ kind: "word", text: word[0], quoted: false, at });
+      index += word[0].length;
+      continue;
+    }
+
+    const symbol = /^(==|!=|<>|<=|>=|[=<>(),])/.exec(text.slice(index));
+    if (symbol) {
+      tokens.push({ kind: "symbol", text: symbol[0], at });
+      index += symbol[0].length;
+      continue;
+    }
+
+    throw new Error(`invalid filter: unexpected "${char}" at ${at + 1}`);
+  }
+
+  return tokens;
+}
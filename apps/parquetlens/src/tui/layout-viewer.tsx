@@ -2,6 +2,8 @@ import { useKeyboard } from "@opentui/react";
 import React, { useEffect, useState } from "react";
 
 import type {
+  ParquetColumnChunkLayout,
+  ParquetColumnChunkPages,
   ParquetFileMetadata,
   ParquetLayout,
   ParquetRowGroupLayout,
@@ -9,12 +11,15 @@ import type {
 
 import { PANEL_GAP, THEME } from "./constants.js";
 import { LayoutCompactRangeRow, LayoutInfoRow, renderFooter, renderHeader } from "./shared.js";
-import type { ViewerTab } from "./types.js";
+import type { PagesState, ViewerTab } from "./types.js";
 import {
   clampNumber,
   cycleTab,
   formatBigInt,
+  formatColumnIndexEntry,
+  formatPageSummary,
   formatPercent,
+  formatStatisticsSummary,
   getAvailableTabs,
   getMetadataFlags,
   getTabFromKeyName,
@@ -30,6 +35,8 @@ type LayoutViewerProps = {
   activeTab: ViewerTab;
   setActiveTab: React.Dispatch<React.SetStateAction<ViewerTab>>;
   hasLayout: boolean;
+  hasSqlResult?: boolean;
+  loadPages?: (rowGroup: number, column: string) => Promise<ParquetColumnChunkPages>;
   onExit: () => void;
 };
 
@@ -43,20 +50,66 @@ export function LayoutViewer({
   activeTab,
   setActiveTab,
   hasLayout,
+  hasSqlResult = false,
+  loadPages,
   onExit,
 }: LayoutViewerProps) {
   const layout = metadata?.layout;
   const rowGroups = layout?.rowGroups ?? [];
   const [selectedRowGroup, setSelectedRowGroup] = useState(0);
-  const availableTabs = getAvailableTabs(hasLayout);
+  const availableTabs = getAvailableTabs(hasLayout, hasSqlResult);
   const metaFlags = getMetadataFlags(metadata);
   const totalLayoutBytes = rowGroups.reduce((sum, rowGroup) => sum + rowGroup.bytes, 0n);
   const selectedGroup = rowGroups[selectedRowGroup] ?? null;
+  const chunks = selectedGroup?.columns ?? [];
+  const [selectedChunk, setSelectedChunk] = useState(0);
+  const [expandedChunk, setExpandedChunk] = useState<string | null>(null);
+  const [pagesByChunk, setPagesByChunk] = useState<Record<string, PagesState>>({});
 
   useEffect(() => {
     setSelectedRowGroup((current) => clampNumber(current, 0, Math.max(0, rowGroups.length - 1)));
   }, [rowGroups.length]);
 
+  useEffect(() => {
+    setSelectedChunk((current) => clampNumber(current, 0, Math.max(0, chunks.length - 1)));
+  }, [chunks.length]);
+
+  const togglePages = (chunk: ParquetColumnChunkLayout | undefined) => {
+    if (!selectedGroup || !chunk || !loadPages) {
+      return;
+    }
+
+    const key = getChunkKey(selectedGroup.index, chunk.name);
+    if (expandedChunk === key) {
+      setExpandedChunk(null);
+      return;
+    }
+
+    setExpandedChunk(key);
+    const existing = pagesByChunk[key];
+    if (existing && existing.status !== "error") {
+      return;
+    }
+
+    setPagesByChunk((current) => ({ ...current, [key]: { status: "loading" } }));
+    loadPages(selectedGroup.index, chunk.name).then(
+      (pages) => {
+        setPagesByChunk((current) => ({ ...current, [key]: { status: "ready", pages } }));
+      },
+      (caught: unknown) => {
+        const message = caught instanceof Error ? caught.message : String(caught);
+        setPagesByChunk((current) => ({ ...current, [key]: { status: "error", message } }));
+      },
+    );
+  };
+
+  const moveChunk = (delta: number) => {
+    if (chunks.length === 0) {
+      return;
+    }
+    setSelectedChunk((current) => clampNumber(current + delta, 0, chunks.length - 1));
+  };
+
   const selectRowGroup = (index: number) => {
     if (rowGroups.length === 0) {
       return;
@@ -90,17 +143,37 @@ export function LayoutViewer({
       return;
     }
 
+    if (key.name === "escape" && expandedChunk) {
+      setExpandedChunk(null);
+      return;
+    }
+
     if ((key.ctrl && key.name === "c") || key.name === "escape" || key.name === "q") {
       onExit();
       return;
     }
 
-    if (key.name === "down" || key.name === "j" || key.name === "right" || key.name === "l") {
+    if (key.name === "return" || key.name === "enter" || key.name === "p") {
+      togglePages(chunks[selectedChunk]);
+      return;
+    }
+
+    if (key.name === "down" || key.name === "j") {
+      moveChunk(1);
+      return;
+    }
+
+    if (key.name === "up" || key.name === "k") {
+      moveChunk(-1);
+      return;
+    }
+
+    if (key.name === "right" || key.name === "l") {
       moveSelection(1);
       return;
     }
 
-    if (key.name === "up" || key.name === "k" || key.name === "left" || key.name === "h") {
+    if (key.name === "left" || key.name === "h") {
       moveSelection(-1);
       return;
     }
@@ -149,6 +222,7 @@ export function LayoutViewer({
           createdBy: metaFlags.createdBy,
           activeTab,
           hasLayout,
+          hasSqlResult,
           summaryText,
           onTabSelect: setActiveTab,
         })}
@@ -241,13 +315,17 @@ export function LayoutViewer({
                   ) : null}
                 </box>
 
-                {selectedGroup.columns.map((chunk) => (
+                {chunks.map((chunk, chunkIndex) => (
                   <box
                     key={`layout-column-${selectedGroup.index}-${chunk.name}`}
                     flexDirection="column"
                     backgroundColor={THEME.background}
                     border
-                    borderColor={THEME.border}
+                    borderColor={chunkIndex === selectedChunk ? THEME.accent : THEME.border}
+                    onMouseDown={() => {
+                      setSelectedChunk(chunkIndex);
+                      togglePages(chunk);
+                    }}
                   >
                     <LayoutInfoRow
                       label={`Column '${chunk.name}'`}
@@ -268,6 +346,25 @@ export function LayoutViewer({
                       range={chunk.dataRange}
                       titleColor={THEME.text}
                     />
+
+                    {chunk.statistics ? (
+                      <LayoutInfoRow
+                        label="Stats"
+                        value={formatStatisticsSummary(chunk.statistics)}
+                        labelColor="#50fa7b"
+                        valueColor={THEME.muted}
+                      />
+                    ) : null}
+
+                    {expandedChunk === getChunkKey(selectedGroup.index, chunk.name) ? (
+                      <LayoutPageRows
+                        state={
+                          pagesByChunk[getChunkKey(selectedGroup.index, chunk.name)] ?? {
+                            status: "loading",
+                          }
+                        }
+                      />
+                    ) : null}
                   </box>
                 ))}
               </box>
@@ -276,8 +373,75 @@ export function LayoutViewer({
         </box>
       </box>
       <box backgroundColor={THEME.header} border borderColor={THEME.border}>
-        {renderFooter(activeTab, !!error, notice, hasLayout)}
+        {renderFooter(activeTab, !!error, notice, hasLayout, hasSqlResult)}
       </box>
     </box>
   );
 }
+
+function LayoutPageRows({ state }: { state: PagesState }) {
+  if (state.status === "loading") {
+    return (
+      <LayoutInfoRow label="Pages" value="loading…" labelColor="#f1fa8c" valueColor={THEME.muted} />
+    );
+  }
+
+  if (state.status === "error") {
+    return (
+      <LayoutInfoRow
+        label="Pages"
+        value={state.message}
+        labelColor="#f1fa8c"
+        valueColor="#ef4444"
+      />
+    );
+  }
+
+  const { pages, columnIndex, offsetIndex } = state.pages;
+  const indexSummary = [
+    columnIndex ? `column index ${columnIndex.boundaryOrder.toLowerCase()}` : null,
+    offsetIndex ? "offset index" : null,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+  // The ColumnIndex has one entry per data page, skipping dictionary pages.
+  let dataPageIndex = 0;
+
+  return (
+    <box flexDirection="column">
+      <LayoutInfoRow
+        label={`Pages ${pages.length.toLocaleString()}`}
+        value={indexSummary || "no page index"}
+        labelColor="#f1fa8c"
+        valueColor={THEME.muted}
+      />
+      {pages.map((page) => {
+        const isDataPage = page.type === "DATA_PAGE" || page.type === "DATA_PAGE_V2";
+        const indexEntry = isDataPage ? columnIndex?.pages[dataPageIndex++] : undefined;
+        const boundsText = indexEntry
+          ? formatColumnIndexEntry(indexEntry)
+          : page.statistics
+            ? formatStatisticsSummary(page.statistics)
+            : "";
+
+        return (
+          <box key={`layout-page-${page.index}`} flexDirection="column">
+            <LayoutInfoRow
+              label={`  #${page.index} ${page.type}`}
+              value={formatPageSummary(page)}
+              labelColor={page.type === "DICTIONARY_PAGE" ? "#ffb86c" : THEME.text}
+              valueColor={THEME.muted}
+            />
+            {boundsText ? (
+              <LayoutInfoRow label="    bounds" value={boundsText} valueColor={THEME.muted} />
+            ) : null}
+          </box>
+        );
+      })}
+    </box>
+  );
+}
+
+function getChunkKey(rowGroup: number, column: string): string {
+  return `${rowGroup}:${column}`;
+}
@@ -0,0 +1,254 @@
+import { useKeyboard } from "@opentui/react";
+import React, { useEffect, useMemo, useState } from "react";
+
+import type { ParquetFileMetadata } from "@parquetlens/parquet-reader";
+
+import { formatSchemaNodeDetails } from "../formatting.js";
+import { THEME } from "./constants.js";
+import { renderFooter, renderHeader } from "./shared.js";
+import type { SchemaLine, ViewerTab } from "./types.js";
+import {
+  clampNumber,
+  cycleTab,
+  flattenSchemaTree,
+  getAvailableTabs,
+  getMetadataFlags,
+  getTabFromKeyName,
+} from "./utils.js";
+
+type SchemaViewerProps = {
+  title: string;
+  pageSize: number;
+  loading?: boolean;
+  error?: string | null;
+  notice?: string | null;
+  metadata?: ParquetFileMetadata | null;
+  activeTab: ViewerTab;
+  setActiveTab: React.Dispatch<React.SetStateAction<ViewerTab>>;
+  hasLayout: boolean;
+  hasSqlResult?: boolean;
+  onExit: () => void;
+};
+
+export function SchemaViewer({
+  title,
+  pageSize,
+  loading = false,
+  error = null,
+  notice = null,
+  metadata = null,
+  activeTab,
+  setActiveTab,
+  hasLayout,
+  hasSqlResult = false,
+  onExit,
+}: SchemaViewerProps) {
+  const nodes = metadata?.schema ?? [];
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [selectedLine, setSelectedLine] = useState(0);
+  const [scrollOffset, setScrollOffset] = useState(0);
+  const lines = useMemo(() => flattenSchemaTree(nodes, collapsed), [nodes, collapsed]);
+  const availableTabs = getAvailableTabs(hasLayout, hasSqlResult);
+  const metaFlags = getMetadataFlags(metadata);
+  const visibleCount = Math.max(1, pageSize);
+  const selected = lines[selectedLine] ?? null;
+
+  useEffect(() => {
+    setSelectedLine((current) => clampNumber(current, 0, Math.max(0, lines.length - 1)));
+  }, [lines.length]);
+
+  // Keep the selected line inside the visible window.
+  useEffect(() => {
+    setScrollOffset((current) => {
+      if (selectedLine < current) {
+        return selectedLine;
+      }
+      if (selectedLine >= current + visibleCount) {
+        return selectedLine - visibleCount + 1;
+      }
+      return clampNumber(current, 0, Math.max(0, lines.length - visibleCount));
+    });
+  }, [lines.length, selectedLine, visibleCount]);
+
+  const moveSelection = (delta: number) => {
+    if (lines.length === 0) {
+      return;
+    }
+    setSelectedLine((current) => clampNumber(current + delta, 0, lines.length - 1));
+  };
+
+  const setExpanded = (line: SchemaLine | null, expanded: boolean) => {
+    if (!line || line.node.children.length === 0 || line.expanded === expanded) {
+      return;
+    }
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (expanded) {
+        next.delete(line.key);
+      } else {
+        next.add(line.key);
+      }
+      return next;
+    });
+  };
+
+  useKeyboard((key) => {
+    const directTab = getTabFromKeyName(key.name, availableTabs);
+    if (directTab) {
+      setActiveTab(directTab);
+      return;
+    }
+
+    if (key.name === "tab") {
+      setActiveTab((current) => cycleTab(current, availableTabs, key.shift ? -1 : 1));
+      return;
+    }
+
+    if (key.name === "[") {
+      setActiveTab((current) => cycleTab(current, availableTabs, -1));
+      return;
+    }
+
+    if (key.name === "]") {
+      setActiveTab((current) => cycleTab(current, availableTabs, 1));
+      return;
+    }
+
+    if ((key.ctrl && key.name === "c") || key.name === "escape" || key.name === "q") {
+      onExit();
+      return;
+    }
+
+    if (key.name === "return" || key.name === "enter" || key.name === "space") {
+      setExpanded(selected, !selected?.expanded);
+      return;
+    }
+
+    if (key.name === "right" || key.name === "l") {
+      setExpanded(selected, true);
+      return;
+    }
+
+    if (key.name === "left" || key.name === "h") {
+      setExpanded(selected, false);
+      return;
+    }
+
+    if (key.name === "down" || key.name === "j") {
+      moveSelection(1);
+      return;
+    }
+
+    if (key.name === "up" || key.name === "k") {
+      moveSelection(-1);
+      return;
+    }
+
+    if (key.name === "pagedown") {
+      moveSelection(visibleCount);
+      return;
+    }
+
+    if (key.name === "pageup") {
+      moveSelection(-visibleCount);
+      return;
+    }
+
+    if (key.name === "home" || (key.name === "g" && !key.shift)) {
+      setSelectedLine(0);
+      return;
+    }
+
+    if (key.name === "end" || (key.name === "g" && key.shift)) {
+      setSelectedLine(Math.max(0, lines.length - 1));
+    }
+  });
+
+  const leafCount = metadata?.layout?.rowGroups[0]?.columns.length;
+  const summaryText = `fields ${nodes.length.toLocaleString()}${
+    leafCount !== undefined ? ` | leaf columns ${leafCount.toLocaleString()}` : ""
+  }`;
+  const visibleLines = lines.slice(scrollOffset, scrollOffset + visibleCount);
+
+  return (
+    <box flexDirection="column" width="100%" height="100%" backgroundColor={THEME.background}>
+      <box backgroundColor={THEME.header} border borderColor={THEME.border}>
+        {renderHeader({
+          filePath: title,
+          offset: scrollOffset,
+          rows: visibleLines.length,
+          columns: nodes.length,
+          loading,
+          error,
+          optimized: metaFlags.optimized,
+          createdBy: metaFlags.createdBy,
+          activeTab,
+          hasLayout,
+          hasSqlResult,
+          summaryText,
+          onTabSelect: setActiveTab,
+        })}
+      </box>
+      <box
+        flexGrow={1}
+        flexDirection="column"
+        backgroundColor={THEME.panel}
+        border
+        borderColor={THEME.border}
+        title="schema"
+        titleAlignment="left"
+        onMouseScroll={(event) => {
+          if (!event.scroll) return;
+          const step = Math.max(1, event.scroll.delta);
+          if (event.scroll.direction === "up") {
+            moveSelection(-step);
+          } else if (event.scroll.direction === "down") {
+            moveSelection(step);
+          }
+        }}
+      >
+        {lines.length === 0 ? (
+          <text wrapMode="none" fg={THEME.muted}>
+            {"schema unavailable"}
+          </text>
+        ) : (
+          visibleLines.map((line, index) => {
+            const lineIndex = scrollOffset + index;
+            const isSelected = lineIndex === selectedLine;
+            const isGroup = line.node.children.length > 0;
+            const marker = isGroup ? (line.expanded ? "▾ " : "▸ ") : "  ";
+
+            return (
+              <box
+                key={`schema-line-${line.key}`}
+                flexDirection="row"
+                backgroundColor={isSelected ? THEME.header : THEME.panel}
+                onMouseDown={() => {
+                  setSelectedLine(lineIndex);
+                  setExpanded(line, !line.expanded);
+                }}
+              >
+                <text wrapMode="none" fg={isSelected ? THEME.accent : THEME.muted}>
+                  {`${"  ".repeat(line.depth)}${marker}`}
+                </text>
+                <text wrapMode="none" fg={isGroup ? THEME.accent : THEME.text}>
+                  {line.node.name}
+                </text>
+                <text wrapMode="none" fg="#8be9fd">
+                  {`  ${line.node.type}`}
+                </text>
+                <box flexGrow={1} />
+                <text wrapMode="none" fg={THEME.muted}>
+                  {formatSchemaNodeDetails(line.node)}
+                </text>
+              </box>
+            );
+          })
+        )}
+      </box>
+      <box backgroundColor={THEME.header} border borderColor={THEME.border}>
+        {renderFooter(activeTab, !!error, notice, hasLayout, hasSqlResult)}
+      </box>
+    </box>
+  );
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import type { ParquetRow } from "@parquetlens/parquet-reader";
+
+import { findNextMatch, parseSearchQuery } from "./search.js";
+
+const rows: ParquetRow[] = [
+  { id: 1n, city: "Seattle", state: "WA" },
+  { id: 2n, city: "Portland", state: "OR" },
+  { id: 3n, city: "Salem", state: "OR" },
+  { id: 4n, city: "Spokane", state: "WA" },
+  { id: 5n, city: "Eugene", state: "OR" },
+];
+const columns = ["id", "city", "state"];
+
+function createReader() {
+  const reads: Array<[number, number]> = [];
+  const readRows = async (offset: number, limit: number) => {
+    reads.push([offset, limit]);
+    return rows.slice(offset, offset + limit);
+  };
+  return { reads, readRows };
+}
+
+describe("parseSearchQuery", () => {
+  it("matches substrings case-insensitively unless the query has uppercase", () => {
+    expect(parseSearchQuery("sea").test("Seattle")).toBe(true);
+    expect(parseSearchQuery("Sea").test("seattle")).toBe(false);
+  });
+
+  it("treats slashes as a regular expression and reports bad patterns", () => {
+    const query = parseSearchQuery("/^s.*e$/i");
+
+    expect(query.test("Spokane")).toBe(true);
+    expect(query.test("Portland")).toBe(false);
+    expect(() => parseSearchQuery("/(/")).toThrow(/invalid search pattern/);
+  });
+});
+
+describe("findNextMatch", () => {
+  it("scans forward window by window and wraps around", async () => {
+    const { reads, readRows } = createReader();
+    const query = parseSearchQuery("or");
+    const scan = { readRows, query, columns, direction: 1 as const, windowSize: 2 };
+
+    expect(await findNextMatch({ ...scan, from: { row: 0, column: -1 } })).toEqual({
+      row: 1,
+      column: 1,
+      wrapped: false,
+    });
+    expect(await findNextMatch({ ...scan, from: { row: 1, column: 1 } })).toEqual({
+      row: 1,
+      column: 2,
+      wrapped: false,
+    });
+    expect(reads.every(([, limit]) => limit <= 2)).toBe(true);
+
+    const last = await findNextMatch({ ...scan, from: { row: 4, column: 2 }, totalRows: 5 });
+    expect(last).toEqual({ row: 1, column: 1, wrapped: true });
+  });
+
+  it("scans backward and limits matches to one column", async () => {
+    const { readRows } = createReader();
+    const query = parseSearchQuery("wa", "state");
+    const scan = { readRows, query, columns, direction: -1 as const, windowSize: 2 };
+
+    expect(await findNextMatch({ ...scan, from: { row: 3, column: 2 }, totalRows: 5 })).toEqual({
+      row: 0,
+      column: 2,
+      wrapped: false,
+    });
+    expect(await findNextMatch({ ...scan, from: { row: 0, column: 2 }, totalRows: 5 })).toEqual({
+      row: 3,
+      column: 2,
+      wrapped: true,
+    });
+  });
+
+  it("stops when aborted or when nothing matches", async () => {
+    const { readRows } = createReader();
+    const controller = new AbortController();
+    controller.abort();
+    const scan = {
+      readRows,
+      columns,
+      direction: 1 as const,
+      windowSize: 2,
+      from: { row: 0, column: -1 },
+    };
+
+    expect(
+      await findNextMatch({ ...scan, query: parseSearchQuery("or"), signal: controller.signal }),
+    ).toBeNull();
+    expect(await findNextMatch({ ...scan, query: parseSearchQuery("boise") })).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import type { ParquetRow } from "@parquetlens/parquet-reader";
+
+import type { RowReader } from "./types.js";
+import { formatCellValue } from "./utils.js";
+
+export type SearchQuery = {
+  /** Text as typed in the prompt. */
+  text: string;
+  /** Restricts matching to one column; null searches every column. */
+  column: string | null;
+  test: (value: string) => boolean;
+};
+
+export type SearchPosition = {
+  row: number;
+  /** Index into the searched columns. */
+  column: number;
+};
+
+export type SearchScan = {
+  readRows: RowReader;
+  query: SearchQuery;
+  columns: string[];
+  /** Position of the current match or cursor; the scan starts just after (or before) it. */
+  from: SearchPosition;
+  direction: 1 | -1;
+  /** Total row count when known; without it a backward scan cannot wrap to the end. */
+  totalRows?: number;
+  windowSize: number;
+  signal?: AbortSignal;
+  onProgress?: (scannedRows: number) => void;
+};
+
+export type SearchResult = SearchPosition & {
+  /** The scan passed the end (or start) of the data and continued from the other side. */
+  wrapped: boolean;
+};
+
+/**
+ * Parse prompt text into a matcher. `/pattern/flags` is a regular expression;
+ * anything else is a substring match, case-insensitive unless it contains an
+ * uppercase letter.
+ */
+export function parseSearchQuery(text: string, column: string | null = null): SearchQuery {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(text);
+  if (regex) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : String(caught);
+      throw new Error(`invalid search pattern: ${message}`);
+    }
+    return { text, column, test: (value) => pattern.test(value) };
+  }
+
+  if (text !== text.toLowerCase()) {
+    return { text, column, test: (value) => value.includes(text) };
+  }
+  return { text, column, test: (value) => value.toLowerCase().includes(text) };
+}
+
+/** Indexes of the columns whose displayed value in `row` matches the query. */
+export function findMatchingColumns(
+  row: ParquetRow,
+  columns: string[],
+  query: SearchQuery,
+): number[] {
+  const matches: number[] = [];
+  columns.forEach((name, index) => {
+    if (query.column !== null && name !== query.column) {
+      return;
+    }
+    if (query.test(formatCellValue(row[name]))) {
+      matches.push(index);
+    }
+  });
+  return matches;
+}
+
+/**
+ * Find the next matching cell after (or before) `from`, reading rows in windows
+ * so that only one window is held at a time. Wraps around once; resolves to
+ * null when nothing matches or the signal aborts.
+ */
+export async function findNextMatch(scan: SearchScan): Promise<SearchResult | null> {
+  const { columns, direction, from, query, windowSize } = scan;
+  let scanned = 0;
+
+  const matchInRow = (row: ParquetRow, after: number | null) => {
+    const matches = findMatchingColumns(row, columns, query);
+    if (direction > 0) {
+      return matches.find((column) => after === null || column > after);
+    }
+    return matches.reverse().find((column) => after === null || column < after);
+  };
+
+  // The row the scan starts on is checked for the remaining cells only; it is
+  // revisited whole once the scan wraps around to it.
+  const scanRange = async (start: number, end: number | undefined, firstAfter: number | null) => {
+    if (direction > 0) {
+      for (let offset = start; end === undefined || offset < end; offset += windowSize) {
+        if (scan.signal?.aborted) {
+          return null;
+        }
+        const limit = end === undefined ? windowSize : Math.min(windowSize, end - offset);
+        const rows = await scan.readRows(offset, limit);
+        for (let index = 0; index < rows.length; index += 1) {
+          const row = offset + index;
+          const column = matchInRow(rows[index], row === from.row ? firstAfter : null);
+          if (column !== undefined) {
+            return { row, column };
+          }
+        }
+        scanned += rows.length;
+        scan.onProgress?.(scanned);
+        if (rows.length < limit) {
+          break;
+        }
+      }
+      return null;
+    }
+
+    // Backward: `start` is the last row to check, `end` the first.
+    for (let last = start; last >= (end ?? 0); last -= windowSize) {
+      if (scan.signal?.aborted) {
+        return null;
+      }
+      const offset = Math.max(end ?? 0, last - windowSize + 1);
+      const rows = await scan.readRows(offset, last - offset + 1);
+      for (let index = rows.length - 1; index >= 0; index -= 1) {
+        const row = offset + index;
+        const column = matchInRow(rows[index], row === from.row ? firstAfter : null);
+        if (column !== undefined) {
+          return { row, column };
+        }
+      }
+      scanned += rows.length;
+      scan.onProgress?.(scanned);
+    }
+    return null;
+  };
+
+  if (direction > 0) {
+    const ahead = await scanRange(from.row, scan.totalRows, from.column);
+    if (ahead || scan.signal?.aborted) {
+      return ahead && { ...ahead, wrapped: false };
+    }
+    const wrapped = await scanRange(0, from.row + 1, null);
+    return wrapped && { ...wrapped, wrapped: true };
+  }
+
+  const behind = await scanRange(from.row, 0, from.column);
+  if (behind || scan.signal?.aborted || scan.totalRows === undefined) {
+    return behind && { ...behind, wrapped: false };
+  }
+  const wrapped = await scanRange(scan.totalRows - 1, from.row, null);
+  return wrapped && { ...wrapped, wrapped: true };
+}
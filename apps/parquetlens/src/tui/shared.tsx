@@ -1,8 +1,8 @@
 import React from "react";
 
-import { THEME } from "./constants.js";
-import type { ViewerTab } from "./types.js";
-import { formatBigInt, getAvailableTabs } from "./utils.js";
+import { FILTER_LABEL_WIDTH, THEME } from "./constants.js";
+import type { RowFilterStatus, ViewerTab } from "./types.js";
+import { formatBigInt, getAvailableTabs, padCell } from "./utils.js";
 
 type LayoutInfoRowProps = {
   label: string;
@@ -65,7 +65,9 @@ type HeaderProps = {
   optimized: boolean;
   activeTab: ViewerTab;
   hasLayout: boolean;
+  hasSqlResult?: boolean;
   summaryText?: string;
+  filter?: RowFilterStatus | null;
   onTabSelect: (tab: ViewerTab) => void;
 };
 
@@ -82,7 +84,9 @@ export function renderHeader(props: HeaderProps) {
     optimized,
     activeTab,
     hasLayout,
+    hasSqlResult = false,
     summaryText,
+    filter,
     onTabSelect,
   } = props;
 
@@ -124,6 +128,16 @@ export function renderHeader(props: HeaderProps) {
       <text wrapMode="none" fg={THEME.text}>
         {summary}
       </text>
+      {filter ? (
+        <>
+          <text wrapMode="none" fg={THEME.muted}>
+            {"│"}
+          </text>
+          <text wrapMode="none" fg={THEME.badge}>
+            {`& ${padCell(filter.text, FILTER_LABEL_WIDTH).trimEnd()} (${filter.matchedRows.toLocaleString()}${filter.complete ? "" : "+"} matched)`}
+          </text>
+        </>
+      ) : null}
       {createdBy ? (
         <>
           <text wrapMode="none" fg={THEME.muted}>
@@ -136,7 +150,7 @@ export function renderHeader(props: HeaderProps) {
       ) : null}
       <box flexGrow={1} />
       <box flexDirection="row" gap={1}>
-        {renderTabChips(activeTab, hasLayout, onTabSelect)}
+        {renderTabChips(activeTab, hasLayout, hasSqlResult, onTabSelect)}
       </box>
       {loading ? (
         <text wrapMode="none" fg={THEME.badge}>
@@ -152,19 +166,32 @@ export function renderHeader(props: HeaderProps) {
   );
 }
 
-function renderFooterLine(activeTab: ViewerTab, hasError: boolean, hasLayout: boolean): string {
-  const tabHints = hasLayout ? " | 1 table 2 layout 3 bytes | tab/[ ] switch | click tabs" : "";
+function renderFooterLine(
+  activeTab: ViewerTab,
+  hasError: boolean,
+  hasLayout: boolean,
+  hasSqlResult: boolean,
+): string {
+  const tabs = getAvailableTabs(hasLayout, hasSqlResult);
+  const tabHints =
+    tabs.length > 1
+      ? ` | ${tabs.map((tab, index) => `${index + 1} ${tab}`).join(" ")} | tab/[ ] switch | click tabs`
+      : "";
   const errorHint = hasError ? " | e view error | y copy error" : "";
 
   if (activeTab === "layout") {
-    return `q exit | arrows/jk select rowgroup | pgup/pgdn jump | home/end | mouse wheel scroll${tabHints}`;
+    return `q exit | h/l rowgroup | j/k column | enter/p pages | pgup/pgdn jump | home/end | mouse wheel scroll${tabHints}`;
+  }
+
+  if (activeTab === "schema") {
+    return `q exit | arrows/jk select | enter/space toggle | h collapse | l expand | pgup/pgdn page | home/end${tabHints}`;
   }
 
   if (activeTab === "bytes") {
     return `q exit | arrows/jk row | h/l column | t toggle totals | click segment for detail | s/enter toggle panel${errorHint}${tabHints}`;
   }
 
-  return `q exit | arrows/jk scroll | pgup/pgdn page | h/l col jump | mouse wheel scroll | click cell for detail | s/enter toggle panel${errorHint}${tabHints}`;
+  return `q exit | arrows/jk scroll | pgup/pgdn page | h/l col jump | / search | n/N next/prev | & filter | o sort | : sql | mouse wheel scroll | click cell for detail | s/enter toggle panel${errorHint}${tabHints}`;
 }
 
 export function renderFooter(
@@ -172,8 +199,9 @@ export function renderFooter(
   hasError: boolean,
   notice: string | null,
   hasLayout: boolean,
+  hasSqlResult = false,
 ) {
-  const controls = renderFooterLine(activeTab, hasError, hasLayout);
+  const controls = renderFooterLine(activeTab, hasError, hasLayout, hasSqlResult);
 
   return (
     <box flexDirection="column" width="100%">
@@ -192,9 +220,10 @@ export function renderFooter(
 function renderTabChips(
   activeTab: ViewerTab,
   hasLayout: boolean,
+  hasSqlResult: boolean,
   onTabSelect: (tab: ViewerTab) => void,
 ) {
-  return getAvailableTabs(hasLayout).map((tab, index) => {
+  return getAvailableTabs(hasLayout, hasSqlResult).map((tab, index) => {
     const isActive = tab === activeTab;
     const label = `${index + 1} ${tab}`;
 
@@ -0,0 +1,258 @@
+import { readdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { describe, expect, it } from "vitest";
+
+import { matchesFilter, openParquetSourceFromPath } from "@parquetlens/parquet-reader";
+import type { ParquetRow } from "@parquetlens/parquet-reader";
+
+import { parseFilterExpression } from "./filter.js";
+import { buildSortQuery, filterToSql, sortRows, sortRowsWithSql } from "./sort.js";
+
+const describeSql = process.env.PARQUETLENS_SQL_TESTS === "1" ? describe : describe.skip;
+
+const cities: ParquetRow[] = [
+  { id: 1n, city: "Seattle", pop: 737015 },
+  { id: 2n, city: "Portland", pop: null },
+  { id: 3n, city: "Boise", pop: 235684 },
+  { id: 4n, city: "Salem", pop: 175535 },
+  { id: 5n, city: "Eugene", pop: 176654 },
+];
+
+function createReader(rows: ParquetRow[]) {
+  return async (offset: number, limit: number) => rows.slice(offset, offset + limit);
+}
+
+async function listSortDirectories() {
+  const entries = await readdir(tmpdir());
+  return entries.filter((name) => name.startsWith("parquetlens-sort-"));
+}
+
+describe("sortRows", () => {
+  it("sorts in memory with nulls last in both directions", async () => {
+    const scan = { readRows: createReader(cities), windowSize: 2, memoryRows: 100 };
+
+    const ascending = await sortRows({ ...scan, key: { column: "pop", direction: "asc" } });
+    expect((await ascending.readRows(0, 10)).map((row) => row.id)).toEqual([4n, 5n, 3n, 1n, 2n]);
+
+    const descending = await sortRows({ ...scan, key: { column: "pop", direction: "desc" } });
+    expect(descending.totalRows).toBe(5);
+    expect((await descending.readRows(1, 2)).map((row) => row.id)).toEqual([3n, 5n]);
+  });
+
+  it("spills runs to disk and merges them into windows that match an in-memory sort", async () => {
+    const rows: ParquetRow[] = Array.from({ length: 3000 }, (_, index) => ({
+      id: BigInt(index),
+      bucket: (index * 7919) % 97,
+      seen: new Date(Date.UTC(2024, 0, 1 + (index % 31))),
+    }));
+    const key = { column: "bucket", direction: "desc" } as const;
+    const before = await listSortDirectories();
+
+    const expected = await sortRows({
+      readRows: createReader(rows),
+      key,
+      windowSize: 500,
+      memoryRows: 10_000,
+    });
+    const spilled = await sortRows({
+      readRows: createReader(rows),
+      key,
+      windowSize: 500,
+      memoryRows: 700,
+    });
+
+    expect(spilled.totalRows).toBe(3000);
+    for (const [offset, limit] of [
+      [0, 50],
+      [1020, 10],
+      [2048, 1000],
+    ]) {
+      expect(await spilled.readRows(offset, limit)).toEqual(await expected.readRows(offset, limit));
+    }
+    expect((await listSortDirectories()).length).toBe(before.length + 1);
+
+    await spilled.close();
+    expect((await listSortDirectories()).length).toBe(before.length);
+  });
+
+  it("stops reading once canceled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      sortRows({
+        readRows: createReader(cities),
+        key: { column: "city", direction: "asc" },
+        windowSize: 2,
+        memoryRows: 100,
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow(/sort canceled/);
+  });
+});
+
+describe("buildSortQuery", () => {
+  it("ranks a filtered, projected selection with file order breaking ties", () => {
+    const query = buildSortQuery({
+      runSql: async () => [],
+      relation: "read_parquet('f.parquet', file_row_number = true)",
+      key: { column: "pop", direction: "desc" },
+      columns: ["city", "pop"],
+      filter: {
+        filter: {
+          op: "and",
+          filters: [
+            { op: "!=", column: "city", value: "O'Brien" },
+            { op: "in", column: "pop", values: [1, 2n] },
+          ],
+        },
+        columns: [],
+      },
+      maxRows: 100,
+    });
+
+    expect(query).toBe(
+      `SELECT "city", "pop", row_number() OVER (ORDER BY "pop" DESC NULLS LAST, file_row_number) AS __parquetlens_rank FROM (SELECT * FROM read_parquet('f.parquet', file_row_number = true) WHERE ("city" != 'O''Brien' AND "pop" IN (1, 2)) ORDER BY file_row_number LIMIT 100)`,
+    );
+  });
+});
+
+describe("sortRowsWithSql", () => {
+  it("sorts once into a temp table, reads windows by rank and drops it on close", async () => {
+    const queries: string[] = [];
+    const sorted = await sortRowsWithSql({
+      runSql: async (query) => {
+        queries.push(query);
+        return query.includes("count(*)") ? [{ count: 42n }] : [];
+      },
+      relation: "numbered",
+      key: { column: "pop", direction: "asc" },
+      columns: [],
+    });
+    await sorted.readRows(0, 20);
+    await sorted.readRows(20, 20);
+    await sorted.close();
+
+    const table = /CREATE TEMP TABLE ("parquetlens_sort_\w+") AS /.exec(queries[0])?.[1];
+    expect(table).toBeDefined();
+    expect(sorted.totalRows).toBe(42);
+    expect(queries.slice(1)).toEqual([
+      `SELECT count(*) AS count FROM ${table}`,
+      `SELECT * EXCLUDE (__parquetlens_rank) FROM ${table} WHERE __parquetlens_rank > 0 AND __parquetlens_rank <= 20 ORDER BY __parquetlens_rank`,
+      `SELECT * EXCLUDE (__parquetlens_rank) FROM ${table} WHERE __parquetlens_rank > 20 AND __parquetlens_rank <= 40 ORDER BY __parquetlens_rank`,
+      `DROP TABLE IF EXISTS ${table}`,
+    ]);
+  });
+});
+
+describe("filterToSql", () => {
+  it("writes null literals as SQL NULL and empty lists as constant conditions", () => {
+    expect(filterToSql({ op: "!=", column: "pop", value: null }, [])).toBe('"pop" != NULL');
+    expect(filterToSql({ op: "not in", column: "pop", values: [1, null] }, [])).toBe(
+      '"pop" NOT IN (1, NULL)',
+    );
+    expect(filterToSql({ op: "in", column: "pop", values: [] }, [])).toBe("FALSE");
+    expect(filterToSql({ op: "not in", column: "pop", values: [] }, [])).toBe('"pop" IS NOT NULL');
+  });
+
+  it("casts non-finite numbers from their names", () => {
+    expect(filterToSql({ op: "in", column: "x", values: [Infinity, -Infinity, NaN] }, [])).toBe(
+      `"x" IN ('Infinity'::DOUBLE, '-Infinity'::DOUBLE, 'NaN'::DOUBLE)`,
+    );
+  });
+
+  it("writes dates as TIMESTAMPTZ for UTC-adjusted timestamp columns only", () => {
+    const value = new Date("2024-03-01T12:30:00Z");
+    const columns = [
+      { name: "at", type: "TIMESTAMP(MICROS, UTC)" },
+      { name: "local", type: "TIMESTAMP(MILLIS, local)" },
+    ];
+
+    expect(filterToSql({ op: ">=", column: "at", value }, columns)).toBe(
+      `"at" >= TIMESTAMPTZ '2024-03-01 12:30:00.000+00'`,
+    );
+    expect(filterToSql({ op: ">=", column: "local", value }, columns)).toBe(
+      `"local" >= TIMESTAMP '2024-03-01 12:30:00.000'`,
+    );
+  });
+});
+
+describeSql("filterToSql with DuckDB", () => {
+  const fixture = path.join(
+    path.dirname(fileURLToPath(import.meta.url)),
+    "../../test/fixtures/row-groups.parquet",
+  );
+  const columns = [
+    { name: "id", type: "INT64" },
+    { name: "note", type: "STRING" },
+  ];
+
+  it("selects the same rows as matchesFilter", async () => {
+    const { openSqlSession } = await import("@parquetlens/sql");
+    const rows = await (await openParquetSourceFromPath(fixture)).readTable();
+    const session = await openSqlSession(fixture);
+
+    try {
+      for (const text of [
+        "note != 'note 1'",
+        "note not in ('note 1', null)",
+        "not (note in ('note 1', null))",
+        "note in ('note 1', null) or id = 2",
+        "not (note = 'note 1' or id > 10)",
+        "note = null or id < 3",
+        "note is null and id != 1",
+      ]) {
+        const filter = parseFilterExpression(text, columns);
+        const selected = await session.query(
+          `SELECT id FROM data WHERE ${filterToSql(filter, columns)} ORDER BY id`,
+        );
+
+        expect(
+          selected.map((row) => Number(row.id)),
+          text,
+        ).toEqual(rows.filter((row) => matchesFilter(filter, row)).map((row) => Number(row.id)));
+      }
+    } finally {
+      await session.close();
+    }
+  });
+
+  it("sorts with ties in file order, like sortRows", async () => {
+    const { openSqlSession } = await import("@parquetlens/sql");
+    const rows = await (await openParquetSourceFromPath(fixture)).readTable();
+    const session = await openSqlSession(fixture);
+
+    try {
+      for (const key of [
+        { column: "note", direction: "desc" },
+        { column: "city", direction: "asc" },
+      ] as const) {
+        const expected = await sortRows({
+          readRows: createReader(rows.slice(0, 10)),
+          key,
+          windowSize: 4,
+          memoryRows: 100,
+        });
+        const sorted = await sortRowsWithSql({
+          runSql: session.query,
+          relation: session.numberedData,
+          key,
+          columns: ["id", "note"],
+          maxRows: 10,
+        });
+
+        expect(sorted.totalRows).toBe(10);
+        for (const offset of [0, 4, 8]) {
+          const ids = (await sorted.readRows(offset, 4)).map((row) => Number(row.id));
+          expect(ids).toEqual((await expected.readRows(offset, 4)).map((row) => Number(row.id)));
+        }
+        await sorted.close();
+      }
+    } finally {
+      await session.close();
+    }
+  });
+});
@@ -0,0 +1,465 @@
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+import { mkdtemp, open, rm, writeFile } from "node:fs/promises";
+import type { FileHandle } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { deserialize, serialize } from "node:v8";
+
+import { compareStatisticsValues } from "@parquetlens/parquet-reader";
+import type {
+  ParquetFilter,
+  ParquetFilterValue,
+  ParquetRow,
+  ParquetStatisticsValue,
+} from "@parquetlens/parquet-reader";
+
+import type { ColumnInfo, RowFilter, RowReader, SortKey } from "./types.js";
+import { formatCellValue } from "./utils.js";
+
+/** Rows of a selection in sorted order, readable by window like the unsorted source. */
+export type SortedRows = {
+  readRows: RowReader;
+  totalRows: number;
+  /** Releases temporary files or handles held by the sort. */
+  close: () => Promise<void>;
+};
+
+export type SortScan = {
+  /** Reads the unsorted selection. */
+  readRows: RowReader;
+  key: SortKey;
+  /** Rows read per call to `readRows`. */
+  windowSize: number;
+  /** Rows held in memory at once; larger selections are spilled to sorted runs on disk and merged. */
+  memoryRows: number;
+  signal?: AbortSignal;
+  onProgress?: (rowsRead: number) => void;
+};
+
+export type SqlSortScan = {
+  /** Runs a query on the session; temp tables stay visible to later queries. */
+  runSql: (query: string) => Promise<ParquetRow[]>;
+  /** The file as a relation with a `file_row_number` column. */
+  relation: string;
+  key: SortKey;
+  columns: string[];
+  filter?: Pick<RowFilter, "filter" | "columns">;
+  maxRows?: number;
+};
+
+type SortEntry = {
+  /** Position in the unsorted selection; breaks ties so the sort is stable. */
+  index: number;
+  row: ParquetRow;
+};
+
+type RunReader = {
+  next: () => Promise<SortEntry | null>;
+  close: () => Promise<void>;
+};
+
+/** Merged rows whose byte offset is recorded, so a window read seeks close to its first row. */
+const INDEX_STRIDE = 1024;
+const IO_CHUNK_BYTES = 1 << 20;
+// Display types of timestamps with isAdjustedToUTC set, e.g. `TIMESTAMP(MICROS, UTC)`.
+const ZONED_TIMESTAMP_TYPE = /^TIMESTAMP\(\w+, UTC\)$/;
+
+/**
+ * Sort a selection by one column. Nulls sort last in either direction, as in
+ * SQL's default `NULLS LAST`. Selections up to `memoryRows` are sorted in
+ * memory; larger ones become sorted runs in a temporary directory that are
+ * merged into one file read back by window.
+ */
+export async function sortRows(scan: SortScan): Promise<SortedRows> {
+  const compare = compareEntries(scan.key);
+  const runs: string[] = [];
+  let directory: string | null = null;
+  let pending: SortEntry[] = [];
+  let read = 0;
+
+  const spill = async () => {
+    directory ??= await mkdtemp(path.join(tmpdir(), "parquetlens-sort-"));
+    const runPath = path.join(directory, `run-${runs.length}`);
+    pending.sort(compare);
+    await writeFile(runPath, pending.map(encodeEntry));
+    runs.push(runPath);
+    pending = [];
+  };
+
+  try {
+    for (;;) {
+      throwIfCanceled(scan.signal);
+      const rows = await scan.readRows(read, scan.windowSize);
+      rows.forEach((row, index) => pending.push({ index: read + index, row }));
+      read += rows.length;
+      scan.onProgress?.(read);
+      if (pending.length >= scan.memoryRows) {
+        await spill();
+      }
+      if (rows.length < scan.windowSize) {
+        break;
+      }
+    }
+
+    if (runs.length === 0) {
+      const sorted = sortEntries(pending, scan.key);
+      return {
+        readRows: async (offset, limit) => sorted.slice(offset, offset + limit),
+        totalRows: sorted.length,
+        close: async () => {},
+      };
+    }
+
+    if (pending.length > 0) {
+      await spill();
+    }
+    const mergedPath = path.join(directory!, "merged");
+    const index = await mergeRuns(runs, mergedPath, compare, scan.signal);
+    return await openMergedRows(mergedPath, index, read, directory!);
+  } catch (caught) {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+    }
+    throw caught;
+  }
+}
+
+/** Sort rows already in memory; the order matches `sortRows`. */
+export function sortRowsInMemory(rows: ParquetRow[], key: SortKey): ParquetRow[] {
+  return sortEntries(
+    rows.map((row, index) => ({ index, row })),
+    key,
+  );
+}
+
+function sortEntries(entries: SortEntry[], key: SortKey): ParquetRow[] {
+  return entries.sort(compareEntries(key)).map((entry) => entry.row);
+}
+
+/**
+ * Sort with DuckDB through the SQL package. The selection is ranked once into a
+ * temp table, with file order breaking ties as in `sortRows`, and each window
+ * reads a range of ranks from it.
+ */
+export async function sortRowsWithSql(scan: SqlSortScan): Promise<SortedRows> {
+  const table = quoteIdentifier(`parquetlens_sort_${randomUUID().replace(/-/g, "")}`);
+  const drop = async () => {
+    // Temp tables belong to the session, so one that closed first took it along.
+    await scan.runSql(`DROP TABLE IF EXISTS ${table}`).catch(() => {});
+  };
+
+  await scan.runSql(`CREATE TEMP TABLE ${table} AS ${buildSortQuery(scan)}`);
+  try {
+    const [countRow] = await scan.runSql(`SELECT count(*) AS count FROM ${table}`);
+    return {
+      readRows: (offset, limit) => {
+        const start = Math.max(0, Math.trunc(offset));
+        const end = start + Math.max(0, Math.trunc(limit));
+        return scan.runSql(
+          `SELECT * EXCLUDE (__parquetlens_rank) FROM ${table} ` +
+            `WHERE __parquetlens_rank > ${start} AND __parquetlens_rank <= ${end} ` +
+            "ORDER BY __parquetlens_rank",
+        );
+      },
+      totalRows: Number(countRow?.count ?? 0),
+      close: drop,
+    };
+  } catch (caught) {
+    await drop();
+    throw caught;
+  }
+}
+
+/**
+ * Rank the selection by the sort key. `maxRows` keeps the first rows of the
+ * filtered selection in file order, the same rows the unsorted reader returns.
+ */
+export function buildSortQuery(scan: SqlSortScan): string {
+  const direction = scan.key.direction === "asc" ? "ASC" : "DESC";
+  const columns =
+    scan.columns.length > 0
+      ? scan.columns.map(quoteIdentifier).join(", ")
+      : "* EXCLUDE (file_row_number)";
+  const where = scan.filter ? ` WHERE ${filterToSql(scan.filter.filter, scan.filter.columns)}` : "";
+  const limit = scan.maxRows !== undefined ? ` LIMIT ${scan.maxRows}` : "";
+  const order = `${quoteIdentifier(scan.key.column)} ${direction} NULLS LAST, file_row_number`;
+  return [
+    `SELECT ${columns}, row_number() OVER (ORDER BY ${order}) AS __parquetlens_rank`,
+    `FROM (SELECT * FROM ${scan.relation}${where} ORDER BY file_row_number${limit})`,
+  ].join(" ");
+}
+
+/**
+ * Translate a filter to a SQL condition. `matchesFilter` follows SQL null
+ * semantics, so only empty lists, which SQL cannot spell, need special care.
+ * Dates compared against UTC-adjusted timestamp columns become TIMESTAMPTZ
+ * literals, since DuckDB reads those columns as TIMESTAMP WITH TIME ZONE.
+ */
+export function filterToSql(filter: ParquetFilter, columns: ColumnInfo[]): string {
+  const zoned = new Set(
+    columns.filter((column) => ZONED_TIMESTAMP_TYPE.test(column.type)).map((column) => column.name),
+  );
+  const translate = (node: ParquetFilter): string => {
+    switch (node.op) {
+      case "and":
+      case "or":
+        return `(${node.filters.map(translate).join(` ${node.op.toUpperCase()} `)})`;
+      case "is null":
+      case "is not null":
+        return `${quoteIdentifier(node.column)} ${node.op.toUpperCase()}`;
+      case "in":
+      case "not in": {
+        const column = quoteIdentifier(node.column);
+        if (node.values.length === 0) {
+          return node.op === "in" ? "FALSE" : `${column} IS NOT NULL`;
+        }
+        const values = node.values.map((value) => valueToSql(value, zoned.has(node.column)));
+        return `${column} ${node.op.toUpperCase()} (${values.join(", ")})`;
+      }
+      default: {
+        const value = valueToSql(node.value, zoned.has(node.column));
+        return `${quoteIdentifier(node.column)} ${node.op} ${value}`;
+      }
+    }
+  };
+  return translate(filter);
+}
+
+function valueToSql(value: ParquetFilterValue, zoned: boolean): string {
+  if (value === null) {
+    return "NULL";
+  }
+  if (typeof value === "string") {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  if (value instanceof Date) {
+    const timestamp = value.toISOString().replace("T", " ").replace("Z", "");
+    return zoned ? `TIMESTAMPTZ '${timestamp}+00'` : `TIMESTAMP '${timestamp}'`;
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    // DuckDB has no literals for these, only casts from their names.
+    return `'${Number.isNaN(value) ? "NaN" : value > 0 ? "Infinity" : "-Infinity"}'::DOUBLE`;
+  }
+  if (value instanceof Uint8Array) {
+    return `unhex('${Buffer.from(value).toString("hex")}')`;
+  }
+  return String(value);
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function compareEntries(key: SortKey): (left: SortEntry, right: SortEntry) => number {
+  const sign = key.direction === "asc" ? 1 : -1;
+  return (left, right) => {
+    const leftValue = left.row[key.column];
+    const rightValue = right.row[key.column];
+    const leftNull = leftValue === null || leftValue === undefined;
+    const rightNull = rightValue === null || rightValue === undefined;
+    if (leftNull || rightNull) {
+      return leftNull === rightNull ? left.index - right.index : leftNull ? 1 : -1;
+    }
+    return sign * compareValues(leftValue, rightValue) || left.index - right.index;
+  };
+}
+
+function compareValues(left: unknown, right: unknown): number {
+  const leftNaN = typeof left === "number" && Number.isNaN(left);
+  const rightNaN = typeof right === "number" && Number.isNaN(right);
+  if (leftNaN || rightNaN) {
+    // NaN sorts above every number, as in DuckDB.
+    return Number(leftNaN) - Number(rightNaN);
+  }
+  // Returns null for values of different kinds and for nested values.
+  const order = compareStatisticsValues(
+    left as ParquetStatisticsValue,
+    right as ParquetStatisticsValue,
+  );
+  if (order !== null) {
+    return order;
+  }
+  const leftText = formatCellValue(left);
+  const rightText = formatCellValue(right);
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+}
+
+function throwIfCanceled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new Error("sort canceled");
+  }
+}
+
+function encodeEntry(entry: SortEntry): Buffer {
+  const payload = serialize(entry);
+  const header = Buffer.alloc(4);
+  header.writeUInt32LE(payload.length);
+  return Buffer.concat([header, payload]);
+}
+
+async function openRunReader(runPath: string): Promise<RunReader> {
+  const handle = await open(runPath, "r");
+  let buffered = Buffer.alloc(0);
+  let position = 0;
+  let exhausted = false;
+
+  const fill = async (bytes: number) => {
+    while (buffered.length < bytes && !exhausted) {
+      const chunk = Buffer.alloc(Math.max(IO_CHUNK_BYTES, bytes));
+      const { bytesRead } = await handle.read(chunk, 0, chunk.length, position);
+      position += bytesRead;
+      exhausted = bytesRead === 0;
+      buffered = Buffer.concat([buffered, chunk.subarray(0, bytesRead)]);
+    }
+    return buffered.length >= bytes;
+  };
+
+  return {
+    next: async () => {
+      if (!(await fill(4))) {
+        return null;
+      }
+      const length = buffered.readUInt32LE(0);
+      if (!(await fill(4 + length))) {
+        throw new Error(`truncated sort run: ${runPath}`);
+      }
+      const entry = deserialize(buffered.subarray(4, 4 + length)) as SortEntry;
+      buffered = buffered.subarray(4 + length);
+      return entry;
+    },
+    close: () => handle.close(),
+  };
+}
+
+/** K-way merge of sorted runs; returns the byte offset of every INDEX_STRIDE-th row. */
+async function mergeRuns(
+  runs: string[],
+  mergedPath: string,
+  compare: (left: SortEntry, right: SortEntry) => number,
+  signal: AbortSignal | undefined,
+): Promise<number[]> {
+  const readers = await Promise.all(runs.map(openRunReader));
+  const output = await open(mergedPath, "w");
+  const index: number[] = [];
+  const heap: Array<{ entry: SortEntry; reader: RunReader }> = [];
+  const before = (a: number, b: number) => compare(heap[a].entry, heap[b].entry) < 0;
+  const swap = (a: number, b: number) => {
+    [heap[a], heap[b]] = [heap[b], heap[a]];
+  };
+  const siftUp = (start: number) => {
+    for (let child = start; child > 0; ) {
+      const parent = (child - 1) >> 1;
+      if (!before(child, parent)) break;
+      swap(child, parent);
+      child = parent;
+    }
+  };
+  const siftDown = (start: number) => {
+    for (let parent = start; ; ) {
+      const left = parent * 2 + 1;
+      const right = left + 1;
+      let smallest = parent;
+      if (left < heap.length && before(left, smallest)) smallest = left;
+      if (right < heap.length && before(right, smallest)) smallest = right;
+      if (smallest === parent) break;
+      swap(parent, smallest);
+      parent = smallest;
+    }
+  };
+
+  try {
+    for (const reader of readers) {
+      const entry = await reader.next();
+      if (entry) {
+        heap.push({ entry, reader });
+        siftUp(heap.length - 1);
+      }
+    }
+
+    let written = 0;
+    let bytes = 0;
+    let chunks: Buffer[] = [];
+    let chunkBytes = 0;
+    while (heap.length > 0) {
+      if (written % INDEX_STRIDE === 0) {
+        throwIfCanceled(signal);
+        index.push(bytes);
+      }
+      const top = heap[0];
+      const encoded = encodeEntry(top.entry);
+      chunks.push(encoded);
+      chunkBytes += encoded.length;
+      bytes += encoded.length;
+      written += 1;
+      if (chunkBytes >= IO_CHUNK_BYTES) {
+        await output.write(Buffer.concat(chunks));
+        chunks = [];
+        chunkBytes = 0;
+      }
+
+      const next = await top.reader.next();
+      if (next) {
+        top.entry = next;
+      } else {
+        heap[0] = heap[heap.length - 1];
+        heap.pop();
+      }
+      siftDown(0);
+    }
+    if (chunks.length > 0) {
+      await output.write(Buffer.concat(chunks));
+    }
+    return index;
+  } finally {
+    await output.close();
+    await Promise.all(readers.map((reader) => reader.close()));
+    await Promise.all(runs.map((runPath) => rm(runPath, { force: true })));
+  }
+}
+
+async function openMergedRows(
+  mergedPath: string,
+  index: number[],
+  totalRows: number,
+  directory: string,
+): Promise<SortedRows> {
+  const handle: FileHandle = await open(mergedPath, "r");
+  const { size } = await handle.stat();
+
+  return {
+    readRows: async (offset, limit) => {
+      const start = Math.max(0, offset);
+      const end = Math.min(totalRows, start + limit);
+      if (start >= end) {
+        return [];
+      }
+      const firstBlock = Math.floor(start / INDEX_STRIDE);
+      const fromByte = index[firstBlock];
+      const toByte = index[Math.ceil(end / INDEX_STRIDE)] ?? size;
+      const buffer = Buffer.alloc(toByte - fromByte);
+      await handle.read(buffer, 0, buffer.length, fromByte);
+
+      const rows: ParquetRow[] = [];
+      let cursor = 0;
+      for (let row = firstBlock * INDEX_STRIDE; row < end; row += 1) {
+        const length = buffer.readUInt32LE(cursor);
+        if (row >= start) {
+          rows.push(
+            (deserialize(buffer.subarray(cursor + 4, cursor + 4 + length)) as SortEntry).row,
+          );
+        }
+        cursor += 4 + length;
+      }
+      return rows;
+    },
+    totalRows,
+    close: async () => {
+      await handle.close();
+      await rm(directory, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,394 @@
+import { useKeyboard, useTerminalDimensions } from "@opentui/react";
+import type { KeyEvent } from "@opentui/core";
+import React, { useRef, useState } from "react";
+
+import { FOOTER_LINES, SQL_COMPLETION_ROWS, SQL_EDITOR_MAX_LINES, THEME } from "./constants.js";
+import {
+  findSqlErrorPosition,
+  getSqlCompletions,
+  highlightSqlLines,
+  type SqlCompletions,
+  type SqlErrorPosition,
+  type SqlSchema,
+  type SqlSegment,
+  type SqlTokenKind,
+} from "./sql-syntax.js";
+
+const SYNTAX_COLORS: Record<SqlTokenKind, string> = {
+  keyword: "#ff79c6",
+  function: "#8be9fd",
+  identifier: THEME.text,
+  string: "#f1fa8c",
+  number: "#bd93f9",
+  comment: THEME.muted,
+  operator: "#ffb86c",
+  space: THEME.text,
+};
+const ERROR_COLOR = "#ef4444";
+const GUTTER_WIDTH = 4;
+
+type SqlEditorProps = {
+  /**
+   * Whether the editor is open and takes keys. It stays mounted while closed so
+   * that keys typed right after the one that opens it are not lost.
+   */
+  openRef: React.RefObject<boolean>;
+  schema: SqlSchema;
+  /** Queries run so far, oldest first, recalled with up/down from the first or last line. */
+  history: string[];
+  /** Runs the query; the editor stays open and points at the error if it rejects. */
+  onSubmit: (query: string) => Promise<void>;
+  onClose: () => void;
+};
+
+type EditorState = {
+  text: string;
+  cursor: number;
+  /** Position in the query history, or null while editing a new query. */
+  historyIndex: number | null;
+  /** The new query, kept while browsing history. */
+  draft: string;
+  /** Completions show while typing a word and after ctrl-space, until esc or tab. */
+  completing: boolean;
+  selected: number;
+};
+
+type EditorError = {
+  query: string;
+  message: string;
+  position: SqlErrorPosition | null;
+};
+
+/**
+ * Multi-line SQL editor drawn over the bottom of the table. Enter runs the
+ * query, alt-enter or ctrl-j starts a new line, and tab accepts a completion.
+ */
+export function SqlEditor({ openRef, schema, history, onSubmit, onClose }: SqlEditorProps) {
+  const { width } = useTerminalDimensions();
+  const [state, setState] = useState<EditorState>({
+    text: "",
+    cursor: 0,
+    historyIndex: null,
+    draft: "",
+    completing: false,
+    selected: 0,
+  });
+  // Keys that arrive in one chunk are handled before a re-render.
+  const stateRef = useRef(state);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<EditorError | null>(null);
+
+  const update = (next: Partial<EditorState>) => {
+    stateRef.current = { ...stateRef.current, ...next };
+    setState(stateRef.current);
+  };
+  const edit = (text: string, cursor: number) => {
+    update({ text, cursor, completing: true, selected: 0 });
+  };
+  const completionsFor = (current: EditorState) =>
+    current.completing ? getSqlCompletions(current.text, current.cursor, schema) : null;
+
+  const acceptCompletion = (current: EditorState, completions: SqlCompletions) => {
+    const item = completions.items[current.selected] ?? completions.items[0];
+    const text =
+      current.text.slice(0, completions.start) + item.insert + current.text.slice(completions.end);
+    update({ text, cursor: completions.start + item.insert.length, completing: false });
+  };
+
+  const recallHistory = (current: EditorState, step: 1 | -1) => {
+    if (history.length === 0) {
+      return;
+    }
+    const index = (current.historyIndex ?? history.length) + step;
+    if (index >= history.length) {
+      update({ text: current.draft, cursor: current.draft.length, historyIndex: null });
+      return;
+    }
+    const historyIndex = Math.max(0, index);
+    const text = history[historyIndex];
+    update({
+      text,
+      cursor: text.length,
+      historyIndex,
+      draft: current.historyIndex === null ? current.text : current.draft,
+      completing: false,
+    });
+  };
+
+  const submit = (query: string) => {
+    if (query.trim() === "") {
+      return;
+    }
+    setRunning(true);
+    setError(null);
+    onSubmit(query).then(
+      () => setRunning(false),
+      (caught) => {
+        const message = caught instanceof Error ? caught.message : String(caught);
+        setRunning(false);
+        setError({ query, message, position: findSqlErrorPosition(message, query) });
+      },
+    );
+  };
+
+  useKeyboard((key) => {
+    if (!openRef.current) {
+      return;
+    }
+    const current = stateRef.current;
+    if (key.ctrl && key.name === "c") {
+      onClose();
+      return;
+    }
+    if (running) {
+      return;
+    }
+
+    const completions = completionsFor(current);
+    if (key.name === "escape") {
+      if (completions) {
+        update({ completing: false });
+      } else {
+        onClose();
+      }
+      return;
+    }
+    if (key.name === "return" && !key.meta) {
+      submit(current.text);
+      return;
+    }
+    if (key.name === "linefeed" || key.name === "return") {
+      edit(...insertText(current, "\n"));
+      return;
+    }
+    if (key.name === "tab") {
+      if (completions) {
+        acceptCompletion(current, completions);
+      }
+      return;
+    }
+    if (key.ctrl && key.name === "space") {
+      update({ completing: true, selected: 0 });
+      return;
+    }
+
+    if (key.name === "up" || key.name === "down") {
+      const step = key.name === "up" ? -1 : 1;
+      if (completions) {
+        const count = completions.items.length;
+        update({ selected: (current.selected + step + count) % count });
+        return;
+      }
+      const cursor = moveLine(current.text, current.cursor, step);
+      if (cursor === null) {
+        recallHistory(current, step);
+      } else {
+        update({ cursor, completing: false });
+      }
+      return;
+    }
+
+    const cursor = moveCursor(current.text, current.cursor, key);
+    if (cursor !== null) {
+      update({ cursor, completing: false });
+      return;
+    }
+
+    const edited = editText(current, key);
+    if (edited) {
+      edit(...edited);
+    }
+  });
+
+  if (!openRef.current) {
+    return null;
+  }
+
+  const completions = completionsFor(state);
+  const lines = highlightSqlLines(state.text);
+  const { line: cursorLine, column: cursorColumn } = locate(state.text, state.cursor);
+  const contentWidth = Math.max(1, width - 2 - GUTTER_WIDTH);
+  const xOffset = Math.max(0, cursorColumn - contentWidth + 1);
+  const top = Math.max(0, cursorLine - SQL_EDITOR_MAX_LINES + 1);
+  const errorPosition = error?.query === state.text ? error.position : null;
+  const shownCompletions = completions ? pageCompletions(completions, state.selected) : [];
+  const labelWidth = Math.max(0, ...shownCompletions.map(({ item }) => item.label.length));
+
+  const status = running
+    ? "running query..."
+    : error
+      ? error.message.split("\n")[0]
+      : "enter run | alt-enter/ctrl-j newline | tab complete | ctrl-space suggest | up/down history | esc close";
+
+  return (
+    <box
+      position="absolute"
+      left={0}
+      bottom={FOOTER_LINES}
+      width={width}
+      flexDirection="column"
+      backgroundColor={THEME.panel}
+      border
+      borderColor={error ? ERROR_COLOR : THEME.accent}
+      title=" sql "
+      titleAlignment="left"
+    >
+      {lines.slice(top, top + SQL_EDITOR_MAX_LINES).flatMap((segments, index) => {
+        const line = top + index;
+        const visible = sliceSegments(segments, xOffset, xOffset + contentWidth);
+        const rows = [
+          <text key={`line-${line}`} wrapMode="none" truncate fg={THEME.text}>
+            <span fg={THEME.muted}>{`${line + 1}`.padStart(GUTTER_WIDTH - 1)} </span>
+            {line === cursorLine
+              ? renderWithCursor(visible, cursorColumn - xOffset)
+              : renderSegments(visible)}
+          </text>,
+        ];
+        if (errorPosition?.line === line && errorPosition.column >= xOffset) {
+          rows.push(
+            <text key={`caret-${line}`} wrapMode="none" truncate fg={ERROR_COLOR}>
+              {`${" ".repeat(GUTTER_WIDTH + errorPosition.column - xOffset)}^`}
+            </text>,
+          );
+        }
+        return rows;
+      })}
+      {shownCompletions.map(({ item, index }) => (
+        <text
+          key={`completion-${index}`}
+          wrapMode="none"
+          truncate
+          fg={index === state.selected ? THEME.background : THEME.text}
+          bg={index === state.selected ? THEME.accent : THEME.header}
+        >
+          {`${" ".repeat(GUTTER_WIDTH)}${item.label.padEnd(labelWidth)}  `}
+          <span fg={index === state.selected ? THEME.background : THEME.muted}>{item.detail}</span>
+        </text>
+      ))}
+      <text wrapMode="none" truncate fg={error && !running ? ERROR_COLOR : THEME.muted}>
+        {status}
+      </text>
+    </box>
+  );
+}
+
+/** Line and column of a text offset. */
+function locate(text: string, offset: number) {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return { line: before.split("\n").length - 1, column: offset - lineStart };
+}
+
+/** The cursor moved one line up or down at the same column; null on the first or last line. */
+function moveLine(text: string, cursor: number, step: 1 | -1): number | null {
+  const lines = text.split("\n");
+  const { line, column } = locate(text, cursor);
+  const target = line + step;
+  if (target < 0 || target >= lines.length) {
+    return null;
+  }
+  const start = lines.slice(0, target).reduce((total, current) => total + current.length + 1, 0);
+  return start + Math.min(column, lines[target].length);
+}
+
+function moveCursor(
+  text: string,
+  cursor: number,
+  key: Pick<KeyEvent, "name" | "ctrl">,
+): number | null {
+  const lineStart = text.lastIndexOf("\n", cursor - 1) + 1;
+  const lineEnd = text.indexOf("\n", cursor) === -1 ? text.length : text.indexOf("\n", cursor);
+  if (key.name === "left") {
+    return Math.max(0, cursor - 1);
+  }
+  if (key.name === "right") {
+    return Math.min(text.length, cursor + 1);
+  }
+  if (key.name === "home" || (key.ctrl && key.name === "a")) {
+    return lineStart;
+  }
+  if (key.name === "end" || (key.ctrl && key.name === "e")) {
+    return lineEnd;
+  }
+  return null;
+}
+
+function insertText(current: EditorState, inserted: string): [string, number] {
+  const { text, cursor } = current;
+  return [text.slice(0, cursor) + inserted + text.slice(cursor), cursor + inserted.length];
+}
+
+/** Apply an editing key at the cursor; null when the key does not edit. */
+function editText(
+  current: EditorState,
+  key: Pick<KeyEvent, "name" | "sequence" | "ctrl" | "meta">,
+): [string, number] | null {
+  const { text, cursor } = current;
+  const before = text.slice(0, cursor);
+  const after = text.slice(cursor);
+  const lineStart = before.lastIndexOf("\n") + 1;
+
+  if (key.name === "backspace") {
+    return cursor === 0 ? null : [before.slice(0, -1) + after, cursor - 1];
+  }
+  if (key.name === "delete") {
+    return [before + after.slice(1), cursor];
+  }
+  if (key.ctrl && key.name === "u") {
+    return [text.slice(0, lineStart) + after, lineStart];
+  }
+  if (key.ctrl && key.name === "k") {
+    const lineEnd = after.indexOf("\n");
+    return [before + (lineEnd === -1 ? "" : after.slice(lineEnd)), cursor];
+  }
+  if (key.ctrl && key.name === "w") {
+    const kept = before.replace(/\S*[^\S\n]*$/, "");
+    return [kept + after, kept.length];
+  }
+  if (!key.ctrl && !key.meta && key.sequence.length === 1 && key.sequence >= " ") {
+    return insertText(current, key.sequence);
+  }
+  return null;
+}
+
+/** The window of completions around the selected one. */
+function pageCompletions(completions: SqlCompletions, selected: number) {
+  const first = Math.floor(selected / SQL_COMPLETION_ROWS) * SQL_COMPLETION_ROWS;
+  return completions.items
+    .slice(first, first + SQL_COMPLETION_ROWS)
+    .map((item, index) => ({ item, index: first + index }));
+}
+
+function sliceSegments(segments: SqlSegment[], start: number, end: number): SqlSegment[] {
+  const sliced: SqlSegment[] = [];
+  let position = 0;
+  for (const segment of segments) {
+    const from = Math.max(start, position);
+    const to = Math.min(end, position + segment.text.length);
+    if (to > from) {
+      sliced.push({ kind: segment.kind, text: segment.text.slice(from - position, to - position) });
+    }
+    position += segment.text.length;
+  }
+  return sliced;
+}
+
+function renderSegments(segments: SqlSegment[], keyPrefix = "segment") {
+  return segments.map((segment, index) => (
+    <span key={`${keyPrefix}-${index}`} fg={SYNTAX_COLORS[segment.kind]}>
+      {segment.text}
+    </span>
+  ));
+}
+
+function renderWithCursor(segments: SqlSegment[], column: number) {
+  const length = segments.reduce((total, segment) => total + segment.text.length, 0);
+  const under = sliceSegments(segments, column, column + 1)[0]?.text ?? " ";
+  return [
+    ...renderSegments(sliceSegments(segments, 0, column), "before"),
+    <span key="cursor" fg={THEME.background} bg={THEME.accent}>
+      {under}
+    </span>,
+    ...renderSegments(sliceSegments(segments, column + 1, length), "after"),
+  ];
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  findSqlErrorPosition,
+  getSqlCompletions,
+  highlightSqlLines,
+  type SqlSchema,
+} from "./sql-syntax.js";
+
+const schema: SqlSchema = {
+  tables: ["data"],
+  columns: [
+    { name: "city", type: "STRING" },
+    { name: "created", type: "TIMESTAMP(MILLIS,UTC)" },
+    { name: "Total Amount", type: "DOUBLE" },
+  ],
+};
+
+function complete(textWithCursor: string) {
+  const cursor = textWithCursor.indexOf("|");
+  const text = textWithCursor.replace("|", "");
+  return getSqlCompletions(text, cursor, schema);
+}
+
+describe("highlightSqlLines", () => {
+  it("classifies tokens and splits multi-line strings and comments by line", () => {
+    const lines = highlightSqlLines("select count(*), 'a\nb' -- note\nfrom data");
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0].map((segment) => segment.kind)).toEqual([
+      "keyword",
+      "space",
+      "function",
+      "operator",
+      "operator",
+      "operator",
+      "operator",
+      "space",
+      "string",
+    ]);
+    expect(lines[1]).toEqual([
+      { kind: "string", text: "b'" },
+      { kind: "space", text: " " },
+      { kind: "comment", text: "-- note" },
+    ]);
+    expect(lines[2].filter((segment) => segment.kind !== "space")).toEqual([
+      { kind: "keyword", text: "from" },
+      { kind: "identifier", text: "data" },
+    ]);
+  });
+});
+
+describe("getSqlCompletions", () => {
+  it("offers columns with their types before functions and keywords", () => {
+    const completions = complete("select c|");
+
+    expect(completions?.start).toBe(7);
+    expect(completions?.items.slice(0, 2)).toEqual([
+      { label: "city", detail: "STRING", insert: "city" },
+      { label: "created", detail: "TIMESTAMP(MILLIS,UTC)", insert: "created" },
+    ]);
+    expect(completions?.items.map((item) => item.label)).toContain("count");
+    expect(complete("sel|")?.items[0]).toEqual({
+      label: "SELECT",
+      detail: "keyword",
+      insert: "select",
+    });
+  });
+
+  it("offers tables after FROM and quotes names that need it", () => {
+    expect(complete("select * from d|")?.items[0]).toEqual({
+      label: "data",
+      detail: "table",
+      insert: "data",
+    });
+    expect(complete('select "To|" from data')).toMatchObject({
+      start: 7,
+      end: 11,
+      items: [{ label: "Total Amount", insert: '"Total Amount"' }],
+    });
+  });
+
+  it("stays quiet inside strings and comments and after complete words", () => {
+    expect(complete("select * from data where city = 'c|")).toBeNull();
+    expect(complete("-- c|")).toBeNull();
+    expect(complete("select city|")).toBeNull();
+  });
+});
+
+describe("findSqlErrorPosition", () => {
+  it("reads the line and caret DuckDB prints under the query", () => {
+    const query = "select *\nform data";
+    const message = [
+      'Parser Error: syntax error at or near "data"',
+      "",
+      "LINE 2: form data",
+      "             ^",
+    ].join("\n");
+
+    expect(findSqlErrorPosition(message, query)).toEqual({ line: 1, column: 5 });
+  });
+
+  it("maps carets in shortened lines back to the query", () => {
+    const query = `select ${"x, ".repeat(40)}missing from data`;
+    const shown = query.slice(query.indexOf("missing") - 10);
+    const message = `Binder Error: Referenced column "missing" not found\n\nLINE 1: ...${shown}\n${" ".repeat(
+      "LINE 1: ...".length + 10,
+    )}^`;
+
+    expect(findSqlErrorPosition(message, query)).toEqual({
+      line: 0,
+      column: query.indexOf("missing"),
+    });
+  });
+
+  it("falls back to the quoted token or the end of input", () => {
+    expect(
+      findSqlErrorPosition('Parser Error: syntax error at or near "form"', "select 1\nform data"),
+    ).toEqual({ line: 1, column: 0 });
+    expect(findSqlErrorPosition("Parser Error: syntax error at end of input", "select")).toEqual({
+      line: 0,
+      column: 6,
+    });
+    expect(findSqlErrorPosition("Catalog Error: Table does not exist", "select 1")).toBeNull();
+  });
+});
@@ -0,0 +1,306 @@
+import type { ColumnInfo } from "./types.js";
+
+export type SqlTokenKind =
+  | "keyword"
+  | "function"
+  | "identifier"
+  | "string"
+  | "number"
+  | "comment"
+  | "operator"
+  | "space";
+
+export type SqlToken = {
+  kind: SqlTokenKind;
+  text: string;
+  start: number;
+  /** A string, quoted identifier or block comment that runs to the end of the text. */
+  unterminated?: boolean;
+};
+
+export type SqlSegment = {
+  kind: SqlTokenKind;
+  text: string;
+};
+
+export type SqlCompletion = {
+  label: string;
+  /** Column type, or the kind of name for everything else. */
+  detail: string;
+  /** Text that replaces the word being completed. */
+  insert: string;
+};
+
+export type SqlCompletions = {
+  /** Offsets of the word the completions replace. */
+  start: number;
+  end: number;
+  items: SqlCompletion[];
+};
+
+export type SqlSchema = {
+  tables: string[];
+  columns: ColumnInfo[];
+};
+
+export type SqlErrorPosition = {
+  line: number;
+  column: number;
+};
+
+export const SQL_KEYWORDS = `
+  ALL AND ANTI ANY AS ASC ASOF BETWEEN BY CASE CAST COLLATE CROSS CUBE DESC DESCRIBE DISTINCT
+  ELSE END EXCEPT EXCLUDE EXISTS EXPLAIN FALSE FILTER FIRST FOLLOWING FROM FULL GROUP GROUPING
+  HAVING ILIKE IN INNER INTERSECT INTERVAL IS JOIN LAST LATERAL LEFT LIKE LIMIT NATURAL NOT
+  NULL NULLS OFFSET ON OR ORDER OUTER OVER PARTITION PIVOT POSITIONAL PRECEDING QUALIFY RANGE
+  RECURSIVE REPLACE RIGHT ROLLUP ROW ROWS SELECT SEMI SETS SHOW SIMILAR SUMMARIZE TABLESAMPLE
+  THEN TRUE TRY_CAST UNBOUNDED UNION UNNEST UNPIVOT USING VALUES WHEN WHERE WINDOW WITH
+`
+  .trim()
+  .split(/\s+/);
+
+/** A selection of DuckDB's built-in functions; anything called like `name(` is highlighted too. */
+export const SQL_FUNCTIONS = `
+  abs any_value approx_count_distinct approx_quantile arg_max arg_min array_agg avg bit_length
+  bool_and bool_or cardinality ceil coalesce concat concat_ws contains corr count count_star
+  cume_dist current_date date_add date_diff date_part date_sub date_trunc datediff datepart
+  dayname dense_rank ends_with epoch epoch_ms exp extract first first_value floor format
+  greatest hash histogram if ifnull lag last last_value lead least left length list
+  list_aggregate list_contains list_distinct list_sort list_value ln log log10 log2 lower lpad
+  ltrim make_date make_timestamp max max_by md5 mean median min min_by mode month monthname
+  now nth_value ntile nullif percent_rank pow power quantile quantile_cont quantile_disc
+  random rank read_csv read_json read_parquet regexp_extract regexp_full_match regexp_matches
+  regexp_replace regexp_split_to_array repeat replace reverse right round row_number rpad
+  rtrim sha256 sign split_part sqrt starts_with stddev stddev_pop stddev_samp strftime
+  string_agg string_split strlen strptime struct_extract struct_pack substr substring sum
+  time_bucket to_timestamp today trim trunc try_strptime typeof unnest upper uuid var_pop
+  var_samp variance week year
+`
+  .trim()
+  .split(/\s+/);
+
+const KEYWORD_SET = new Set(SQL_KEYWORDS);
+const TABLE_CONTEXT_KEYWORDS = new Set(["FROM", "JOIN", "DESCRIBE", "SUMMARIZE"]);
+const MAX_COMPLETIONS = 50;
+
+/** Split SQL into tokens for highlighting; never fails, unknown characters become operators. */
+export function tokenizeSql(text: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const start = index;
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (/\s/.test(char)) {
+      const space = /^\s+/.exec(rest)![0];
+      tokens.push({ kind: "space", text: space, start });
+      index += space.length;
+      continue;
+    }
+
+    if (rest.startsWith("--")) {
+      const end = text.indexOf("\n", index);
+      const comment = end === -1 ? rest : text.slice(index, end);
+      tokens.push({ kind: "comment", text: comment, start });
+      index += comment.length;
+      continue;
+    }
+
+    if (rest.startsWith("/*")) {
+      const end = text.indexOf("*/", index + 2);
+      const comment = end === -1 ? rest : text.slice(index, end + 2);
+      tokens.push({ kind: "comment", text: comment, start, unterminated: end === -1 });
+      index += comment.length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      // A doubled quote stands for the quote itself.
+      let end = index + 1;
+      for (;;) {
+        end = text.indexOf(char, end);
+        if (end === -1 || text[end + 1] !== char) {
+          break;
+        }
+        end += 2;
+      }
+      const quoted = end === -1 ? rest : text.slice(index, end + 1);
+      tokens.push({
+        kind: char === "'" ? "string" : "identifier",
+        text: quoted,
+        start,
+        unterminated: end === -1,
+      });
+      index += quoted.length;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(rest);
+    if (number) {
+      tokens.push({ kind: "number", text: number[0], start });
+      index += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][\w$]*/.exec(rest);
+    if (word) {
+      const next = /^\s*\(/.test(text.slice(index + word[0].length));
+      const kind = KEYWORD_SET.has(word[0].toUpperCase())
+        ? "keyword"
+        : next
+          ? "function"
+          : "identifier";
+      tokens.push({ kind, text: word[0], start });
+      index += word[0].length;
+      continue;
+    }
+
+    const operator = /^(::|<>|!=|<=|>=|\|\||->>|->|[^\w\s'"])/.exec(rest)![0];
+    tokens.push({ kind: "operator", text: operator, start });
+    index += operator.length;
+  }
+
+  return tokens;
+}
+
+/** Tokens split at line breaks, one segment list per line of `text`. */
+export function highlightSqlLines(text: string): SqlSegment[][] {
+  const lines: SqlSegment[][] = [[]];
+  for (const token of tokenizeSql(text)) {
+    token.text.split("\n").forEach((part, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (part !== "") {
+        lines[lines.length - 1].push({ kind: token.kind, text: part });
+      }
+    });
+  }
+  return lines;
+}
+
+/**
+ * Completions for the word that ends at `cursor`: table names after FROM and
+ * JOIN, otherwise columns first, then functions, keywords and tables. A word
+ * that starts with a double quote completes columns only. Returns null inside
+ * strings and comments, or when nothing matches.
+ */
+export function getSqlCompletions(
+  text: string,
+  cursor: number,
+  schema: SqlSchema,
+): SqlCompletions | null {
+  const before = text.slice(0, cursor);
+  const tokens = tokenizeSql(before);
+  const last = tokens[tokens.length - 1];
+  if (last?.kind === "string" || last?.kind === "comment") {
+    return null;
+  }
+
+  const quoted = last?.kind === "identifier" && last.unterminated === true;
+  const word =
+    last && (quoted || (last.kind !== "space" && /^[A-Za-z_]/.test(last.text))) ? last.text : "";
+  const start = cursor - word.length;
+  // Replace the rest of the word after the cursor too, with any closing quote.
+  const end = start + (quoted ? /^"[^"\n]*"?/ : /^[\w$]*/).exec(text.slice(start))![0].length;
+  const prefix = (quoted ? word.slice(1) : word).toLowerCase();
+
+  const previous = tokens
+    .slice(0, word === "" ? tokens.length : -1)
+    .reverse()
+    .find((token) => token.kind !== "space");
+  const wantsTable =
+    !quoted &&
+    previous?.kind === "keyword" &&
+    TABLE_CONTEXT_KEYWORDS.has(previous.text.toUpperCase());
+
+  const columns: SqlCompletion[] = schema.columns.map((column) => ({
+    label: column.name,
+    detail: column.type,
+    insert: quoted || needsQuoting(column.name) ? quoteIdentifier(column.name) : column.name,
+  }));
+  const tables: SqlCompletion[] = schema.tables.map((table) => ({
+    label: table,
+    detail: "table",
+    insert: needsQuoting(table) ? quoteIdentifier(table) : table,
+  }));
+  const lowercase = word !== "" && word === word.toLowerCase();
+  const functions: SqlCompletion[] = SQL_FUNCTIONS.map((name) => ({
+    label: name,
+    detail: "function",
+    insert: name,
+  }));
+  const keywords: SqlCompletion[] = SQL_KEYWORDS.map((keyword) => ({
+    label: keyword,
+    detail: "keyword",
+    insert: lowercase ? keyword.toLowerCase() : keyword,
+  }));
+
+  const candidates = quoted
+    ? columns
+    : wantsTable
+      ? [...tables, ...functions]
+      : [...columns, ...functions, ...keywords, ...tables];
+  const items = candidates
+    .filter((item) => {
+      const label = item.label.toLowerCase();
+      return label.startsWith(prefix) && label !== prefix;
+    })
+    .slice(0, MAX_COMPLETIONS);
+
+  return items.length > 0 ? { start, end, items } : null;
+}
+
+/**
+ * Locate the token a DuckDB error points at, as a 0-based line and column in
+ * `query`. Uses the `LINE n:` excerpt and caret DuckDB appends to parser and
+ * binder errors, falling back to the quoted token in `at or near "..."`.
+ */
+export function findSqlErrorPosition(message: string, query: string): SqlErrorPosition | null {
+  const lines = query.split("\n");
+  const excerpt = /LINE (\d+): (.*)\n( *)\^/.exec(message);
+  if (excerpt) {
+    const line = Number(excerpt[1]) - 1;
+    const prefixLength = `LINE ${excerpt[1]}: `.length;
+    let caret = excerpt[3].length - prefixLength;
+    // Long lines are cut down to a window around the error, marked with "...".
+    let shown = excerpt[2];
+    if (shown.startsWith("...")) {
+      shown = shown.slice(3);
+      caret -= 3;
+    }
+    shown = shown.replace(/\.\.\.$/, "");
+    const source = lines[line];
+    if (source !== undefined && caret >= 0) {
+      const shift = Math.max(0, source.indexOf(shown));
+      return { line, column: Math.min(source.length, shift + caret) };
+    }
+  }
+
+  if (/at end of input/.test(message)) {
+    return { line: lines.length - 1, column: lines[lines.length - 1].length };
+  }
+
+  const near = /at or near "((?:[^"]|"")*)"/.exec(message);
+  if (near) {
+    const token = near[1].replace(/""/g, '"');
+    for (let line = 0; line < lines.length; line += 1) {
+      const column = lines[line].indexOf(token);
+      if (column !== -1) {
+        return { line, column };
+      }
+    }
+  }
+
+  return null;
+}
+
+function needsQuoting(name: string): boolean {
+  return !/^[a-z_][a-z0-9_]*$/.test(name) || KEYWORD_SET.has(name.toUpperCase());
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
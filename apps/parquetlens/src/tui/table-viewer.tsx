@@ -1,5 +1,5 @@
 import { useKeyboard, useTerminalDimensions } from "@opentui/react";
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 
 import type { ParquetFileMetadata } from "@parquetlens/parquet-reader";
 
@@ -7,14 +7,34 @@ import {
   CONTENT_BORDER_WIDTH,
   PANEL_GAP,
   SCROLL_STEP,
+  SCAN_WINDOW_ROWS,
   SIDEBAR_MIN_WIDTH,
   SIDEBAR_WIDTH_RATIO,
   THEME,
 } from "./constants.js";
+import {
+  findMatchingColumns,
+  findNextMatch,
+  parseSearchQuery,
+  type SearchPosition,
+  type SearchQuery,
+} from "./search.js";
+import { parseFilterExpression } from "./filter.js";
 import { renderFooter, renderHeader } from "./shared.js";
-import type { GridState, ViewerTab } from "./types.js";
+import { SqlEditor } from "./sql-editor.js";
+import type {
+  ColumnInfo,
+  GridState,
+  RowFilter,
+  RowFilterStatus,
+  RowReader,
+  SortKey,
+  SortStatus,
+  ViewerTab,
+} from "./types.js";
 import {
   applyHorizontalScroll,
+  applyTextInput,
   buildDetail,
   buildErrorDetail,
   buildGridLines,
@@ -42,10 +62,38 @@ type TableViewerProps = {
   activeTab: ViewerTab;
   setActiveTab: React.Dispatch<React.SetStateAction<ViewerTab>>;
   hasLayout: boolean;
+  hasSqlResult?: boolean;
   onExit: () => void;
   onCopyError?: () => void;
+  /** Reads rows for `/` search; search is unavailable without it. */
+  searchRows?: RowReader;
+  /** Active row filter, shown in the header. */
+  filter?: RowFilterStatus | null;
+  /** Applies a filter from the `&` prompt, or clears it with null; filtering is unavailable without it. */
+  onFilterChange?: (filter: RowFilter | null) => void;
+  /** Active sort, shown in the column type line. */
+  sort?: SortStatus | null;
+  /** Sorts by a column, or restores file order with null; sorting is unavailable without it. */
+  onSortChange?: (sort: SortKey | null) => void;
+  /** Queries run so far, oldest first, for up/down in the `:` editor. */
+  sqlHistory?: string[];
+  /** Columns of the `data` view, for completion in the `:` editor. */
+  sqlColumns?: ColumnInfo[];
+  /** Views the `:` editor completes after FROM and JOIN. */
+  sqlTables?: string[];
+  /** Runs a query from the `:` editor; the editor is unavailable without it. */
+  onSqlSubmit?: (query: string) => Promise<void>;
 };
 
+type Prompt =
+  | {
+      kind: "search";
+      text: string;
+      /** Limit the search to the selected column. */
+      selectedColumn: boolean;
+    }
+  | { kind: "filter"; text: string };
+
 export function TableViewer({
   grid,
   title,
@@ -61,15 +109,41 @@ export function TableViewer({
   activeTab,
   setActiveTab,
   hasLayout,
+  hasSqlResult = false,
   onExit,
   onCopyError,
+  searchRows,
+  filter = null,
+  onFilterChange,
+  sort = null,
+  onSortChange,
+  sqlHistory = [],
+  sqlColumns = [],
+  sqlTables = ["data"],
+  onSqlSubmit,
 }: TableViewerProps) {
   const { width } = useTerminalDimensions();
 
   const [xOffset, setXOffset] = useState(0);
   const [selection, setSelection] = useState<{ row: number; col: number } | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const availableTabs = getAvailableTabs(hasLayout);
+  const [prompt, setPromptState] = useState<Prompt | null>(null);
+  // Keys that arrive in one chunk (e.g. a paste) are handled before a re-render,
+  // so edits read the prompt from a ref rather than the rendered state.
+  const promptRef = useRef<Prompt | null>(null);
+  // The SQL editor handles its own keys while open. Its key handler is registered
+  // first (child effects run before the parent's), so it skips the key that opens
+  // it; the state only re-renders it when it opens or closes.
+  const sqlEditorOpenRef = useRef(false);
+  const [, setSqlEditorOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState<SearchQuery | null>(null);
+  const [searchMatch, setSearchMatch] = useState<SearchPosition | null>(null);
+  const [promptStatus, setPromptStatus] = useState<string | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  // Latest requested sort, ahead of the prop for keys handled before a re-render.
+  const sortRef = useRef<SortKey | null>(sort);
+  const availableTabs = getAvailableTabs(hasLayout, hasSqlResult);
+  const columnNames = useMemo(() => grid.columns.map((column) => column.name), [grid.columns]);
 
   const sidebarWidth = sidebarOpen
     ? Math.min(width, Math.max(SIDEBAR_MIN_WIDTH, Math.floor(width * SIDEBAR_WIDTH_RATIO)))
@@ -77,10 +151,15 @@ export function TableViewer({
   const tableWidth = Math.max(0, width - (sidebarOpen ? sidebarWidth + PANEL_GAP : 0));
   const tableContentWidth = Math.max(0, tableWidth - CONTENT_BORDER_WIDTH);
 
-  const gridLines = useMemo(
-    () => buildGridLines(grid, offset, tableContentWidth),
-    [grid, offset, tableContentWidth],
-  );
+  const sortColumn = sort?.column;
+  const sortLabel = sort ? `${sort.direction === "asc" ? "▲" : "▼"}${sort.pending ? "…" : ""}` : "";
+  const gridLines = useMemo(() => {
+    // The sort marker rides on the type line so the column is sized to fit it.
+    const columns = grid.columns.map((column) =>
+      column.name === sortColumn ? { ...column, type: `${column.type} ${sortLabel}` } : column,
+    );
+    return buildGridLines({ ...grid, columns }, offset, tableContentWidth);
+  }, [grid, offset, sortColumn, sortLabel, tableContentWidth]);
   const maxScrollX = Math.max(0, gridLines.maxLineLength - tableContentWidth);
 
   useEffect(() => {
@@ -105,7 +184,242 @@ export function TableViewer({
     }
   }, [error]);
 
+  // Select the match once the jump to its page has loaded.
+  useEffect(() => {
+    if (!searchMatch) {
+      return;
+    }
+    const row = searchMatch.row - offset;
+    if (row >= 0 && row < grid.rows.length) {
+      setSelection({ row, col: searchMatch.column });
+    }
+  }, [grid.rows.length, offset, searchMatch]);
+
+  useEffect(() => {
+    return () => searchAbortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    sortRef.current = sort;
+  }, [sort]);
+
+  const setPrompt = (next: Prompt | null) => {
+    promptRef.current = next;
+    setPromptState(next);
+  };
+
+  const clampOffset = (value: number) => {
+    const clamped = Math.max(0, value);
+    return maxOffset === undefined ? clamped : Math.min(clamped, maxOffset);
+  };
+
+  const runSearch = (query: SearchQuery, direction: 1 | -1, from: SearchPosition) => {
+    if (!searchRows) {
+      return;
+    }
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    const label = `/${query.text}${query.column ? ` in ${query.column}` : ""}`;
+    setPromptStatus(`${label}  searching... | esc cancel`);
+
+    findNextMatch({
+      readRows: searchRows,
+      query,
+      columns: columnNames,
+      from,
+      direction,
+      totalRows,
+      windowSize: SCAN_WINDOW_ROWS,
+      signal: controller.signal,
+      onProgress: (scanned) => {
+        const total = totalRows !== undefined ? ` of ${totalRows.toLocaleString()}` : "";
+        setPromptStatus(
+          `${label}  searching... ${scanned.toLocaleString()}${total} rows scanned | esc cancel`,
+        );
+      },
+    })
+      .then((match) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        searchAbortRef.current = null;
+        if (!match) {
+          setPromptStatus(`${label}  no matches`);
+          return;
+        }
+        setSearchMatch({ row: match.row, column: match.column });
+        const wrapped = match.wrapped
+          ? direction > 0
+            ? " (wrapped to top)"
+            : " (wrapped to bottom)"
+          : "";
+        setPromptStatus(
+          `${label}  row ${(match.row + 1).toLocaleString()} • ${columnNames[match.column]}${wrapped} | n/N next/prev`,
+        );
+        if (match.row < offset || match.row >= offset + pageSize) {
+          setOffset(clampOffset(match.row));
+        }
+      })
+      .catch((caught) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        searchAbortRef.current = null;
+        const message = caught instanceof Error ? caught.message : String(caught);
+        setPromptStatus(`${label}  search failed: ${message}`);
+      });
+  };
+
+  const submitSearch = (submitted: Extract<Prompt, { kind: "search" }>) => {
+    setPrompt(null);
+    if (submitted.text === "") {
+      return;
+    }
+    const column = submitted.selectedColumn ? (columnNames[selection?.col ?? 0] ?? null) : null;
+    let query: SearchQuery;
+    try {
+      query = parseSearchQuery(submitted.text, column);
+    } catch (caught) {
+      setPromptStatus(caught instanceof Error ? caught.message : String(caught));
+      return;
+    }
+    setSearchQuery(query);
+    setSearchMatch(null);
+    // Start at the selected cell so a match under the cursor is found first.
+    runSearch(query, 1, { row: offset + (selection?.row ?? 0), column: (selection?.col ?? 0) - 1 });
+  };
+
+  // Cycles ascending, descending, then back to file order.
+  const cycleSort = (columnIndex: number) => {
+    const column = columnNames[columnIndex];
+    if (!onSortChange || column === undefined) {
+      return;
+    }
+    const current = sortRef.current;
+    const next: SortKey | null =
+      current?.column !== column
+        ? { column, direction: "asc" }
+        : current.direction === "asc"
+          ? { column, direction: "desc" }
+          : null;
+    sortRef.current = next;
+    onSortChange(next);
+    setSearchMatch(null);
+  };
+
+  const submitFilter = (text: string) => {
+    setPrompt(null);
+    if (!onFilterChange) {
+      return;
+    }
+    const expression = text.trim();
+    if (expression === "") {
+      if (filter) {
+        onFilterChange(null);
+        setPromptStatus("filter cleared");
+      }
+      return;
+    }
+    let next: RowFilter;
+    try {
+      next = {
+        text: expression,
+        filter: parseFilterExpression(expression, grid.columns),
+        columns: grid.columns,
+      };
+    } catch (caught) {
+      setPromptStatus(caught instanceof Error ? caught.message : String(caught));
+      return;
+    }
+    // Match positions refer to rows of the previous selection.
+    searchAbortRef.current?.abort();
+    searchAbortRef.current = null;
+    setSearchMatch(null);
+    setPromptStatus(null);
+    onFilterChange(next);
+  };
+
+  const toggleSqlEditor = (open: boolean) => {
+    sqlEditorOpenRef.current = open;
+    setSqlEditorOpen(open);
+  };
+
   useKeyboard((key) => {
+    if (sqlEditorOpenRef.current) {
+      return;
+    }
+    const current = promptRef.current;
+    if (current) {
+      if (key.name === "escape" || (key.ctrl && key.name === "c")) {
+        setPrompt(null);
+        return;
+      }
+      if (key.name === "return" || key.name === "enter") {
+        if (current.kind === "search") {
+          submitSearch(current);
+        } else {
+          submitFilter(current.text);
+        }
+        return;
+      }
+      if (key.name === "tab") {
+        if (current.kind === "search") {
+          setPrompt({ ...current, selectedColumn: !current.selectedColumn });
+        }
+        return;
+      }
+      const text = applyTextInput(current.text, key);
+      if (text !== null) {
+        setPrompt({ ...current, text });
+      }
+      return;
+    }
+
+    if (searchAbortRef.current && key.name === "escape") {
+      searchAbortRef.current.abort();
+      searchAbortRef.current = null;
+      setPromptStatus("search canceled");
+      return;
+    }
+
+    if (sort?.pending && key.name === "escape") {
+      sortRef.current = null;
+      onSortChange?.(null);
+      setPromptStatus("sort canceled");
+      return;
+    }
+
+    if (key.name === "o" && !key.shift) {
+      cycleSort(selection?.col ?? 0);
+      return;
+    }
+
+    if (key.name === "/" && searchRows) {
+      setPrompt({ kind: "search", text: "", selectedColumn: searchQuery?.column != null });
+      return;
+    }
+
+    if (key.name === "&" && onFilterChange) {
+      setPrompt({ kind: "filter", text: filter?.text ?? "" });
+      return;
+    }
+
+    if ((key.name === ":" || (key.ctrl && key.name === "e")) && onSqlSubmit) {
+      setPromptStatus(null);
+      toggleSqlEditor(true);
+      return;
+    }
+
+    if (key.name === "n" && searchQuery) {
+      const direction = key.shift ? -1 : 1;
+      runSearch(searchQuery, direction, {
+        row: offset + (selection?.row ?? 0),
+        column: selection?.col ?? 0,
+      });
+      return;
+    }
+
     const directTab = getTabFromKeyName(key.name, availableTabs);
     if (directTab) {
       setActiveTab(directTab);
@@ -136,11 +450,6 @@ export function TableViewer({
       return;
     }
 
-    const clampOffset = (value: number) => {
-      const clamped = Math.max(0, value);
-      return maxOffset === undefined ? clamped : Math.min(clamped, maxOffset);
-    };
-
     if (key.name === "down" || key.name === "j") {
       setOffset((current) => clampOffset(current + 1));
       return;
@@ -194,7 +503,20 @@ export function TableViewer({
     }
   });
 
+  const handleHeaderMouseDown = (x: number, targetX: number | undefined) => {
+    if (targetX === undefined) return;
+    const colIndex = findColumnIndex(Math.max(0, x - targetX) + xOffset, gridLines.columnRanges);
+    if (colIndex >= 0) {
+      cycleSort(colIndex);
+    }
+  };
+
   const visibleLines = applyHorizontalScroll(gridLines, tableContentWidth, xOffset, pageSize);
+  const rowMatches = useMemo(
+    () =>
+      searchQuery ? grid.rows.map((row) => findMatchingColumns(row, columnNames, searchQuery)) : [],
+    [columnNames, grid.rows, searchQuery],
+  );
   const detail = error ? buildErrorDetail(error) : buildDetail(selection, grid, offset);
   const detailTitle = error ? "error detail" : "cell detail";
   const metaFlags = getMetadataFlags(metadata);
@@ -214,6 +536,8 @@ export function TableViewer({
           createdBy: metaFlags.createdBy,
           activeTab,
           hasLayout,
+          hasSqlResult,
+          filter,
           onTabSelect: setActiveTab,
         })}
       </box>
@@ -242,10 +566,20 @@ export function TableViewer({
             }
           }}
         >
-          <text wrapMode="none" truncate fg={THEME.accent}>
+          <text
+            wrapMode="none"
+            truncate
+            fg={THEME.accent}
+            onMouseDown={(event) => handleHeaderMouseDown(event.x, event.target?.x)}
+          >
             {visibleLines.headerName}
           </text>
-          <text wrapMode="none" truncate fg={THEME.muted}>
+          <text
+            wrapMode="none"
+            truncate
+            fg={THEME.muted}
+            onMouseDown={(event) => handleHeaderMouseDown(event.x, event.target?.x)}
+          >
             {visibleLines.headerType}
           </text>
           <text wrapMode="none" truncate fg={THEME.border}>
@@ -253,6 +587,15 @@ export function TableViewer({
           </text>
           {visibleLines.rows.map((line, index) => {
             const isSelected = selection?.row === index;
+            const currentColumn =
+              searchMatch && searchMatch.row === offset + index ? searchMatch.column : -1;
+            const segments = buildMatchSegments(
+              line,
+              rowMatches[index] ?? [],
+              currentColumn,
+              gridLines.columnRanges,
+              Math.max(0, xOffset),
+            );
             return (
               <text
                 key={`row-${index}`}
@@ -272,7 +615,23 @@ export function TableViewer({
                   }
                 }}
               >
-                {line}
+                {segments
+                  ? segments.map((segment, segmentIndex) => (
+                      <span
+                        key={`segment-${segmentIndex}`}
+                        fg={segment.match ? THEME.background : undefined}
+                        bg={
+                          segment.match === "current"
+                            ? THEME.currentMatch
+                            : segment.match
+                              ? THEME.match
+                              : undefined
+                        }
+                      >
+                        {segment.text}
+                      </span>
+                    ))
+                  : line}
               </text>
             );
           })}
@@ -313,8 +672,78 @@ export function TableViewer({
         ) : null}
       </box>
       <box backgroundColor={THEME.header} border borderColor={THEME.border}>
-        {renderFooter(activeTab, !!error, notice, hasLayout)}
+        {renderFooter(
+          activeTab,
+          !!error,
+          formatPromptLine(prompt, columnNames[selection?.col ?? 0]) ?? promptStatus ?? notice,
+          hasLayout,
+          hasSqlResult,
+        )}
       </box>
+      {onSqlSubmit ? (
+        <SqlEditor
+          openRef={sqlEditorOpenRef}
+          schema={{ tables: sqlTables, columns: sqlColumns }}
+          history={sqlHistory}
+          onSubmit={onSqlSubmit}
+          onClose={() => toggleSqlEditor(false)}
+        />
+      ) : null}
     </box>
   );
 }
+
+type MatchSegment = {
+  text: string;
+  match: "current" | "other" | null;
+};
+
+/** Split a scrolled row line around its matching cells; null when nothing in it matches. */
+function buildMatchSegments(
+  line: string,
+  matches: number[],
+  currentColumn: number,
+  columnRanges: Array<{ start: number; end: number }>,
+  xOffset: number,
+): MatchSegment[] | null {
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const segments: MatchSegment[] = [];
+  let cursor = 0;
+  for (const column of matches) {
+    const range = columnRanges[column];
+    if (!range) {
+      continue;
+    }
+    const start = Math.max(cursor, range.start - xOffset);
+    const end = Math.min(line.length, range.end + 1 - xOffset);
+    if (end <= start) {
+      continue;
+    }
+    if (start > cursor) {
+      segments.push({ text: line.slice(cursor, start), match: null });
+    }
+    segments.push({
+      text: line.slice(start, end),
+      match: column === currentColumn ? "current" : "other",
+    });
+    cursor = end;
+  }
+  if (cursor < line.length) {
+    segments.push({ text: line.slice(cursor), match: null });
+  }
+  return segments;
+}
+
+function formatPromptLine(prompt: Prompt | null, selectedColumn: string | undefined) {
+  if (!prompt) {
+    return null;
+  }
+  if (prompt.kind === "filter") {
+    return `&${prompt.text}▌  e.g. city = 'Seattle' and pop > 1000 | enter apply (empty clears) | esc cancel`;
+  }
+  const scope = prompt.selectedColumn && selectedColumn ? selectedColumn : "all columns";
+  return `/${prompt.text}▌  in ${scope} | tab scope | /regex/i | enter search | esc cancel`;
+}
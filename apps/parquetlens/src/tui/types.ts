@@ -1,4 +1,12 @@
-import type { ParquetColumnChunkLayout, ParquetRowGroupLayout } from "@parquetlens/parquet-reader";
+import type {
+  ParquetColumnChunkLayout,
+  ParquetColumnChunkPages,
+  ParquetFilter,
+  ParquetRowGroupLayout,
+  ParquetSchemaNode,
+} from "@parquetlens/parquet-reader";
+
+import type { DiffChange, DiffSummary } from "../diff.js";
 
 export type ColumnInfo = {
   name: string;
@@ -10,6 +18,39 @@ export type GridState = {
   rows: import("@parquetlens/parquet-reader").ParquetRow[];
 };
 
+/** Read `limit` rows starting at `offset`; returns fewer rows at the end of the data. */
+export type RowReader = (
+  offset: number,
+  limit: number,
+) => Promise<import("@parquetlens/parquet-reader").ParquetRow[]>;
+
+export type RowFilter = {
+  /** Expression as typed in the filter prompt. */
+  text: string;
+  filter: ParquetFilter;
+  /** Columns the expression was parsed against; SQL needs their types to spell literals. */
+  columns: ColumnInfo[];
+};
+
+export type RowFilterStatus = {
+  text: string;
+  /** Matching rows found so far; the full count once `complete`. */
+  matchedRows: number;
+  complete: boolean;
+};
+
+export type SortDirection = "asc" | "desc";
+
+export type SortKey = {
+  column: string;
+  direction: SortDirection;
+};
+
+export type SortStatus = SortKey & {
+  /** The sort is still running; rows are shown in file order until it finishes. */
+  pending: boolean;
+};
+
 export type GridLines = {
   headerNameLine: string;
   headerTypeLine: string;
@@ -20,7 +61,7 @@ export type GridLines = {
   scrollStops: number[];
 };
 
-export type ViewerTab = "table" | "layout" | "bytes";
+export type ViewerTab = "table" | "layout" | "bytes" | "schema" | "sql";
 
 export type BytesModelRow = {
   rowGroup: ParquetRowGroupLayout;
@@ -55,8 +96,43 @@ export type BytesSummary = {
 
 export type BytesViewMode = "chart" | "totals";
 
+export type SchemaLine = {
+  key: string;
+  node: ParquetSchemaNode;
+  depth: number;
+  expanded: boolean;
+};
+
+export type PagesState =
+  | { status: "loading" }
+  | { status: "ready"; pages: ParquetColumnChunkPages }
+  | { status: "error"; message: string };
+
 export type TuiOptions = {
   columns: string[];
   maxRows?: number;
   batchSize?: number;
+  rowGroups?: number[];
+  /** Row of the selection the table opens at. */
+  offset?: number;
+  /** Open at the last `tail` rows; takes precedence over `offset`. */
+  tail?: number;
+  /** Open on the SQL tab with this result, e.g. from `--sql`. */
+  sql?: SqlResult;
+  /** Extra files the SQL session registers as views next to `data`. */
+  sqlTables?: import("@parquetlens/sql").SqlTable[];
+};
+
+export type SqlResult = {
+  query: string;
+  rows: import("@parquetlens/parquet-reader").ParquetRow[];
+};
+
+export type DiffTuiOptions = {
+  /** Shown in the header, usually `a.parquet → b.parquet`. */
+  title: string;
+  keyColumns: string[];
+  columns: string[];
+  changes: DiffChange[];
+  summary: DiffSummary;
 };
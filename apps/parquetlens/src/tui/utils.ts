@@ -1,10 +1,15 @@
 import { spawnSync } from "node:child_process";
 
+import type { KeyEvent } from "@opentui/core";
 import type {
   ParquetColumnChunkLayout,
+  ParquetColumnIndexEntry,
+  ParquetColumnStatistics,
   ParquetFileMetadata,
   ParquetLayout,
+  ParquetPageLayout,
   ParquetRow,
+  ParquetSchemaNode,
 } from "@parquetlens/parquet-reader";
 
 import { safeStringify } from "../formatting.js";
@@ -17,6 +22,7 @@ import type {
   ColumnTotal,
   GridLines,
   GridState,
+  SchemaLine,
   ViewerTab,
 } from "./types.js";
 
@@ -528,11 +534,91 @@ export function formatCellValue(value: unknown): string {
   return formatCellDetail(value);
 }
 
+export function formatStatisticsSummary(stats: ParquetColumnStatistics): string {
+  const parts: string[] = [];
+  if (stats.min !== undefined) {
+    parts.push(`min ${padCell(formatCellDetail(stats.min), 24).trimEnd()}`);
+  }
+  if (stats.max !== undefined) {
+    parts.push(`max ${padCell(formatCellDetail(stats.max), 24).trimEnd()}`);
+  }
+  if (stats.nullCount !== undefined) {
+    parts.push(`nulls ${formatBigInt(stats.nullCount)}`);
+  }
+  if (stats.distinctCount !== undefined) {
+    parts.push(`distinct ${formatBigInt(stats.distinctCount)}`);
+  }
+  return parts.join("  ");
+}
+
+export function formatPageSummary(page: ParquetPageLayout): string {
+  const parts: string[] = [];
+  if (page.encoding) {
+    parts.push(page.encoding);
+  }
+  if (page.numValues !== undefined) {
+    parts.push(`values ${page.numValues.toLocaleString()}`);
+  }
+  if (page.numNulls !== undefined) {
+    parts.push(`nulls ${page.numNulls.toLocaleString()}`);
+  }
+  if (page.firstRowIndex !== undefined) {
+    parts.push(`first row ${formatBigInt(page.firstRowIndex)}`);
+  }
+  parts.push(`comp ${formatBigInt(page.compressedBytes)}`);
+  parts.push(`uncomp ${formatBigInt(page.uncompressedBytes)}`);
+  parts.push(`start ${formatBigInt(page.range.start)}`);
+  return parts.join("  ");
+}
+
+export function formatColumnIndexEntry(entry: ParquetColumnIndexEntry): string {
+  if (entry.nullPage) {
+    return entry.nullCount !== undefined
+      ? `all null  nulls ${formatBigInt(entry.nullCount)}`
+      : "all null";
+  }
+  return formatStatisticsSummary({
+    min: entry.min,
+    max: entry.max,
+    nullCount: entry.nullCount,
+    legacy: false,
+  });
+}
+
+export function flattenSchemaTree(
+  nodes: ParquetSchemaNode[],
+  collapsed: Set<string>,
+): SchemaLine[] {
+  const lines: SchemaLine[] = [];
+
+  const visit = (node: ParquetSchemaNode, depth: number) => {
+    const key = node.path.join(".");
+    const expanded = !collapsed.has(key);
+    lines.push({ key, node, depth, expanded });
+    if (expanded) {
+      node.children.forEach((child) => visit(child, depth + 1));
+    }
+  };
+
+  nodes.forEach((node) => visit(node, 0));
+  return lines;
+}
+
 export function resolveInitialTotal(
   metadata: ParquetFileMetadata | null,
   rows: ParquetRow[],
   initialLimit: number,
+  rowGroups?: number[],
+  offset = 0,
 ): number | null {
+  if (rowGroups && metadata?.layout) {
+    const selected = new Set(rowGroups);
+    const selectedRows = metadata.layout.rowGroups
+      .filter((rowGroup) => selected.has(rowGroup.index))
+      .reduce((sum, rowGroup) => sum + (rowGroup.numRows ?? 0n), 0n);
+    return normalizeRowCount(selectedRows) ?? null;
+  }
+
   if (metadata?.rowCount !== undefined) {
     const rowCount = normalizeRowCount(metadata.rowCount);
     if (rowCount !== undefined) {
@@ -540,7 +626,7 @@ export function resolveInitialTotal(
     }
   }
 
-  return rows.length < initialLimit ? rows.length : null;
+  return rows.length < initialLimit ? offset + rows.length : null;
 }
 
 function normalizeRowCount(value: number | bigint | undefined): number | undefined {
@@ -579,8 +665,9 @@ export function copyToClipboard(value: string): boolean {
   return false;
 }
 
-export function getAvailableTabs(hasLayout: boolean): ViewerTab[] {
-  return hasLayout ? ["table", "layout", "bytes"] : ["table"];
+export function getAvailableTabs(hasLayout: boolean, hasSqlResult = false): ViewerTab[] {
+  const tabs: ViewerTab[] = hasLayout ? ["table", "layout", "bytes", "schema"] : ["table"];
+  return hasSqlResult ? [...tabs, "sql"] : tabs;
 }
 
 export function cycleTab(
@@ -595,16 +682,33 @@ export function cycleTab(
 }
 
 export function getTabFromKeyName(name: string, availableTabs: ViewerTab[]): ViewerTab | null {
-  if (name === "1") {
-    return "table";
+  // Tabs are numbered in order, so the SQL tab is 5 with layout tabs and 2 without.
+  if (!/^[1-9]$/.test(name)) {
+    return null;
+  }
+
+  return availableTabs[Number(name) - 1] ?? null;
+}
+
+/** Apply a key press to single-line prompt text; null when the key does not edit text. */
+export function applyTextInput(
+  text: string,
+  key: Pick<KeyEvent, "name" | "sequence" | "ctrl" | "meta">,
+): string | null {
+  if (key.name === "backspace") {
+    return text.slice(0, -1);
+  }
+
+  if (key.ctrl && key.name === "u") {
+    return "";
   }
 
-  if (name === "2" && availableTabs.includes("layout")) {
-    return "layout";
+  if (key.ctrl && key.name === "w") {
+    return text.replace(/\S*\s*$/, "");
   }
 
-  if (name === "3" && availableTabs.includes("bytes")) {
-    return "bytes";
+  if (!key.ctrl && !key.meta && key.sequence.length === 1 && key.sequence >= " ") {
+    return text + key.sequence;
   }
 
   return null;
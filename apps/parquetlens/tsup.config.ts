@@ -1,7 +1,14 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/main.ts", "src/tui.tsx"],
+  entry: [
+    "src/main.ts",
+    "src/tui.tsx",
+    // Loaded by path at runtime, so they stay separate files next to main.js.
+    "src/runtime/node.ts",
+    "src/runtime/loader.ts",
+    "src/runtime/bun-ffi.ts",
+  ],
   format: ["esm"],
   sourcemap: false,
   banner: {
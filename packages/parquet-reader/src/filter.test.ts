@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import { canSkipRowGroup, getFilterColumns, matchesFilter } from "./filter.js";
+import type { RowGroupFilterStats } from "./filter.js";
+import type { ParquetColumnStatistics, ParquetFilter } from "./types.js";
+
+function rowGroup(
+  columns: Record<string, ParquetColumnStatistics>,
+  numRows = 10n,
+): RowGroupFilterStats {
+  return { numRows, columns: new Map(Object.entries(columns)) };
+}
+
+describe("matchesFilter", () => {
+  const row = { city: "Seattle", pop: 737015, founded: new Date("1851-11-13"), note: null };
+
+  it("evaluates comparisons, lists and null checks joined by and/or", () => {
+    const filter: ParquetFilter = {
+      op: "or",
+      filters: [
+        {
+          op: "and",
+          filters: [
+            { op: ">=", column: "pop", value: 500000n },
+            { op: "in", column: "city", values: ["Portland", "Seattle"] },
+          ],
+        },
+        { op: "<", column: "founded", value: new Date("1800-01-01") },
+      ],
+    };
+
+    expect(matchesFilter(filter, row)).toBe(true);
+    expect(matchesFilter(filter, { ...row, city: "Boise" })).toBe(false);
+    expect(matchesFilter({ op: "is null", column: "note" }, row)).toBe(true);
+    expect(matchesFilter({ op: "is not null", column: "missing" }, row)).toBe(false);
+  });
+
+  it("never matches comparisons SQL evaluates to unknown", () => {
+    expect(matchesFilter({ op: "!=", column: "note", value: "x" }, row)).toBe(false);
+    expect(matchesFilter({ op: "not in", column: "note", values: ["x"] }, row)).toBe(false);
+    expect(matchesFilter({ op: "=", column: "city", value: null }, row)).toBe(false);
+    expect(matchesFilter({ op: "!=", column: "city", value: null }, row)).toBe(false);
+    expect(matchesFilter({ op: "in", column: "city", values: ["Seattle", null] }, row)).toBe(true);
+    expect(matchesFilter({ op: "not in", column: "city", values: ["Boise"] }, row)).toBe(true);
+    expect(matchesFilter({ op: "not in", column: "city", values: ["Boise", null] }, row)).toBe(
+      false,
+    );
+  });
+});
+
+describe("canSkipRowGroup", () => {
+  const stats = rowGroup({
+    pop: { min: 100, max: 200, nullCount: 0n, legacy: false },
+    note: { nullCount: 10n, legacy: false },
+  });
+
+  it("skips row groups whose bounds rule out every match", () => {
+    expect(canSkipRowGroup({ op: ">", column: "pop", value: 200 }, stats)).toBe(true);
+    expect(canSkipRowGroup({ op: ">=", column: "pop", value: 200 }, stats)).toBe(false);
+    expect(canSkipRowGroup({ op: "in", column: "pop", values: [1, 300] }, stats)).toBe(true);
+    expect(canSkipRowGroup({ op: "is null", column: "pop" }, stats)).toBe(true);
+    expect(canSkipRowGroup({ op: "=", column: "note", value: "x" }, stats)).toBe(true);
+    expect(
+      canSkipRowGroup(
+        {
+          op: "or",
+          filters: [
+            { op: "<", column: "pop", value: 100 },
+            { op: "is not null", column: "note" },
+          ],
+        },
+        stats,
+      ),
+    ).toBe(true);
+  });
+
+  it("skips filters that match no row at all and keeps unknown columns", () => {
+    expect(canSkipRowGroup({ op: "!=", column: "pop", value: null }, stats)).toBe(true);
+    expect(canSkipRowGroup({ op: "not in", column: "other", values: [1, null] }, stats)).toBe(true);
+    expect(canSkipRowGroup({ op: "not in", column: "pop", values: [1] }, stats)).toBe(false);
+    expect(canSkipRowGroup({ op: "=", column: "other", value: 1 }, stats)).toBe(false);
+  });
+});
+
+describe("getFilterColumns", () => {
+  it("lists each referenced column once", () => {
+    expect(
+      getFilterColumns({
+        op: "and",
+        filters: [
+          { op: "=", column: "a", value: 1 },
+          {
+            op: "or",
+            filters: [
+              { op: "is null", column: "b" },
+              { op: "in", column: "a", values: [2] },
+            ],
+          },
+        ],
+      }),
+    ).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,205 @@
+import { compareStatisticsValues } from "./statistics.js";
+import type {
+  ParquetColumnStatistics,
+  ParquetComparisonOperator,
+  ParquetFilter,
+  ParquetFilterValue,
+  ParquetRow,
+  ParquetStatisticsValue,
+} from "./types.js";
+
+export type RowGroupFilterStats = {
+  numRows: bigint;
+  columns: Map<string, ParquetColumnStatistics>;
+};
+
+/**
+ * Collect the column names a filter references, so they can be read even when
+ * they are not part of the requested projection.
+ */
+export function getFilterColumns(filter: ParquetFilter): string[] {
+  const names = new Set<string>();
+  const visit = (node: ParquetFilter) => {
+    if ("filters" in node) {
+      node.filters.forEach(visit);
+      return;
+    }
+    names.add(node.column);
+  };
+  visit(filter);
+  return Array.from(names);
+}
+
+/**
+ * Evaluate a filter against a decoded row. Comparisons that SQL would evaluate
+ * to unknown never match: those against null values or a null literal, and
+ * `not in` with a null in its list. Use `is null` to select null values.
+ */
+export function matchesFilter(filter: ParquetFilter, row: ParquetRow): boolean {
+  switch (filter.op) {
+    case "and":
+      return filter.filters.every((child) => matchesFilter(child, row));
+    case "or":
+      return filter.filters.some((child) => matchesFilter(child, row));
+    case "is null":
+      return isNullValue(row[filter.column]);
+    case "is not null":
+      return !isNullValue(row[filter.column]);
+    case "in":
+    case "not in": {
+      const value = row[filter.column];
+      if (isNullValue(value)) {
+        return false;
+      }
+      const found = filter.values.some((candidate) => compareRowValue(value, candidate) === 0);
+      return filter.op === "in" ? found : !found && !filter.values.includes(null);
+    }
+    default: {
+      const order = compareRowValue(row[filter.column], filter.value);
+      if (order === null) {
+        return false;
+      }
+      return applyComparison(filter.op, order);
+    }
+  }
+}
+
+/**
+ * Decide from footer statistics whether a row group cannot contain any matching
+ * row. Missing or incomparable statistics always keep the row group.
+ */
+export function canSkipRowGroup(filter: ParquetFilter, stats: RowGroupFilterStats): boolean {
+  switch (filter.op) {
+    case "and":
+      return filter.filters.some((child) => canSkipRowGroup(child, stats));
+    case "or":
+      return filter.filters.every((child) => canSkipRowGroup(child, stats));
+    case "not in":
+      if (filter.values.includes(null)) {
+        return true;
+      }
+      break;
+    default:
+      break;
+  }
+
+  const columnStats = stats.columns.get(filter.column);
+  if (!columnStats) {
+    return false;
+  }
+
+  const { min, max, nullCount } = columnStats;
+  const allNull = nullCount !== undefined && stats.numRows > 0n && nullCount >= stats.numRows;
+
+  switch (filter.op) {
+    case "is null":
+      return nullCount === 0n;
+    case "is not null":
+      return allNull;
+    case "in":
+      return allNull || filter.values.every((value) => cannotContain(value, min, max));
+    case "not in":
+      return allNull;
+    default:
+      break;
+  }
+
+  if (allNull) {
+    return true;
+  }
+
+  if (filter.value === null) {
+    // Comparisons with null never match.
+    return true;
+  }
+
+  const value = filter.value;
+  switch (filter.op) {
+    case "=":
+      return cannotContain(value, min, max);
+    case "!=":
+      return isSameBound(min, value) && isSameBound(max, value);
+    case "<":
+      return compareBound(min, value, (order) => order >= 0);
+    case "<=":
+      return compareBound(min, value, (order) => order > 0);
+    case ">":
+      return compareBound(max, value, (order) => order <= 0);
+    case ">=":
+      return compareBound(max, value, (order) => order < 0);
+  }
+}
+
+function cannotContain(
+  value: ParquetFilterValue,
+  min: ParquetStatisticsValue | undefined,
+  max: ParquetStatisticsValue | undefined,
+): boolean {
+  if (value === null) {
+    return true;
+  }
+  return (
+    compareBound(min, value, (order) => order > 0) || compareBound(max, value, (order) => order < 0)
+  );
+}
+
+function compareBound(
+  bound: ParquetStatisticsValue | undefined,
+  value: ParquetStatisticsValue,
+  predicate: (order: number) => boolean,
+): boolean {
+  if (bound === undefined) {
+    return false;
+  }
+  const order = compareStatisticsValues(bound, value);
+  return order !== null && predicate(order);
+}
+
+function isSameBound(
+  bound: ParquetStatisticsValue | undefined,
+  value: ParquetStatisticsValue,
+): boolean {
+  return compareBound(bound, value, (order) => order === 0);
+}
+
+function compareRowValue(value: unknown, target: ParquetFilterValue): number | null {
+  if (isNullValue(value) || target === null) {
+    return null;
+  }
+  if (!isComparableValue(value)) {
+    return null;
+  }
+  return compareStatisticsValues(value, target);
+}
+
+function applyComparison(op: ParquetComparisonOperator, order: number): boolean {
+  switch (op) {
+    case "=":
+      return order === 0;
+    case "!=":
+      return order !== 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+  }
+}
+
+function isNullValue(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function isComparableValue(value: unknown): value is ParquetStatisticsValue {
+  return (
+    typeof value === "number" ||
+    typeof value === "bigint" ||
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    value instanceof Date ||
+    value instanceof Uint8Array
+  );
+}
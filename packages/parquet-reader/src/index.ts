@@ -12,10 +12,12 @@ import {
   asyncBufferFromPath,
   asyncBufferFromStdin,
   buildParquetMetadata,
+  createSelectionCheckpoints,
   getMetadata,
   getRawMetadata,
   readParquet,
 } from "./reader.js";
+import { readColumnChunkPages } from "./pages.js";
 import {
   readPage,
   streamRows,
@@ -23,7 +25,13 @@ import {
   type PageResult,
   type StreamOptions,
 } from "./streaming.js";
-import type { ParquetMetadata, ParquetReadOptions, ParquetRow } from "./types.js";
+import type {
+  ParquetColumnChunkPages,
+  ParquetMetadata,
+  ParquetRawMetadata,
+  ParquetReadOptions,
+  ParquetRow,
+} from "./types.js";
 import { resolveParquetUrl } from "./urls.js";
 
 export type TempParquetFile = {
@@ -34,6 +42,12 @@ export type TempParquetFile = {
 export type ParquetSource = {
   readTable: (options?: ParquetReadOptions) => Promise<ParquetRow[]>;
   readMetadata: () => Promise<ParquetMetadata>;
+  /** The footer as decoded by hyparquet; BYTE_ARRAY statistics are kept as raw bytes. */
+  readRawMetadata: () => Promise<ParquetRawMetadata>;
+  /** Stream rows without materializing the table; yields arrays when `batchSize` is set. */
+  streamRows: (options?: StreamOptions) => AsyncGenerator<ParquetRow | ParquetRow[]>;
+  /** Read the page headers and Page Index of one column chunk, on demand. */
+  readColumnPages: (rowGroup: number, column: string) => Promise<ParquetColumnChunkPages>;
   close: () => Promise<void>;
 };
 
@@ -140,6 +154,9 @@ export async function readParquetTableFromStdin(
 function createParquetSource(file: ParquetFile): ParquetSource {
   let rawMetadataPromise: ReturnType<typeof getRawMetadata> | null = null;
   let metadataPromise: Promise<ParquetMetadata> | null = null;
+  // Windows of a filtered selection are read one after another (e.g. while
+  // scrolling), so each read resumes from where earlier ones got to.
+  const checkpoints = createSelectionCheckpoints();
   const readRawMetadata = () => {
     if (!rawMetadataPromise) {
       rawMetadataPromise = getRawMetadata(file);
@@ -149,7 +166,7 @@ function createParquetSource(file: ParquetFile): ParquetSource {
 
   return {
     readTable: async (options?: ParquetReadOptions) => {
-      return readParquet(file, options, await readRawMetadata());
+      return readParquet(file, options, await readRawMetadata(), checkpoints);
     },
     readMetadata: () => {
       if (!metadataPromise) {
@@ -159,6 +176,13 @@ function createParquetSource(file: ParquetFile): ParquetSource {
       }
       return metadataPromise;
     },
+    readRawMetadata,
+    streamRows: async function* (options?: StreamOptions) {
+      yield* streamRows(file, options, await readRawMetadata());
+    },
+    readColumnPages: async (rowGroup: number, column: string) => {
+      return readColumnChunkPages(file, await readRawMetadata(), rowGroup, column);
+    },
     close: async () => {
       return Promise.resolve();
     },
@@ -227,17 +251,41 @@ export async function readParquetPage(input: string, options: PageOptions): Prom
   return readPage(file, options);
 }
 
+export { matchesFilter } from "./filter.js";
+export {
+  compareStatisticsValues,
+  decodeStatisticsValue,
+  mergeColumnStatistics,
+} from "./statistics.js";
 export { resolveParquetUrl } from "./urls.js";
 export type { ResolvedParquetUrl } from "./urls.js";
+export type { SchemaElement as ParquetSchemaElement } from "hyparquet";
 export type {
   ParquetByteRange,
   ParquetColumn,
   ParquetColumnChunkLayout,
+  ParquetColumnChunkPages,
+  ParquetColumnIndex,
+  ParquetColumnIndexEntry,
+  ParquetColumnStatistics,
+  ParquetComparisonOperator,
   ParquetFileMetadata,
+  ParquetFilter,
+  ParquetFilterValue,
   ParquetLayout,
+  ParquetLogicalType,
   ParquetMetadata,
+  ParquetOffsetIndex,
+  ParquetPageLayout,
+  ParquetPageLocation,
+  ParquetRawMetadata,
+  ParquetRawStatistics,
+  ParquetRawStatisticsValue,
   ParquetRowGroupLayout,
   ParquetReadOptions,
+  ParquetRepetition,
   ParquetRow,
+  ParquetSchemaNode,
+  ParquetStatisticsValue,
 } from "./types.js";
 export type { PageOptions, PageResult, StreamOptions } from "./streaming.js";
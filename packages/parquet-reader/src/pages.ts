@@ -0,0 +1,289 @@
+import type { AsyncBuffer, ColumnChunk, FileMetaData, SchemaElement, Statistics } from "hyparquet";
+import { readColumnIndex, readOffsetIndex } from "hyparquet";
+
+import {
+  buildColumnStatistics,
+  decodePlainStatisticsValue,
+  decodeStatisticsValue,
+  isFixedLengthDecimal,
+  RAW_STATISTICS_PARSERS,
+} from "./statistics.js";
+import {
+  asBigInt,
+  asBoolean,
+  asBytes,
+  asList,
+  asNumber,
+  asStruct,
+  readThriftStruct,
+} from "./thrift.js";
+import type { ThriftStruct, ThriftValue } from "./thrift.js";
+import type {
+  ParquetColumnChunkPages,
+  ParquetColumnIndex,
+  ParquetOffsetIndex,
+  ParquetPageLayout,
+} from "./types.js";
+
+type ParquetFile = AsyncBuffer | ArrayBuffer;
+
+type ByteWindow = {
+  start: bigint;
+  bytes: Uint8Array;
+};
+
+const PAGE_TYPES = ["DATA_PAGE", "INDEX_PAGE", "DICTIONARY_PAGE", "DATA_PAGE_V2"];
+const ENCODINGS = [
+  "PLAIN",
+  "GROUP_VAR_INT",
+  "PLAIN_DICTIONARY",
+  "RLE",
+  "BIT_PACKED",
+  "DELTA_BINARY_PACKED",
+  "DELTA_LENGTH_BYTE_ARRAY",
+  "DELTA_BYTE_ARRAY",
+  "RLE_DICTIONARY",
+  "BYTE_STREAM_SPLIT",
+];
+
+// Page headers are read through a window so remote files are not fetched one
+// header at a time; the window grows if a single header does not fit.
+const PAGE_HEADER_WINDOW = 1 << 16;
+const MAX_PAGE_HEADER_BYTES = 1 << 24;
+
+/**
+ * Walk the page headers of one column chunk and decode its Page Index, if the
+ * writer produced one. Only headers are read; page bodies are skipped.
+ */
+export async function readColumnChunkPages(
+  file: ParquetFile,
+  metadata: FileMetaData,
+  rowGroupIndex: number,
+  columnName: string,
+): Promise<ParquetColumnChunkPages> {
+  const rowGroupCount = metadata.row_groups.length;
+  if (!Number.isInteger(rowGroupIndex) || rowGroupIndex < 0 || rowGroupIndex >= rowGroupCount) {
+    throw new Error(
+      `row group ${rowGroupIndex} out of range (file has ${rowGroupCount} row groups)`,
+    );
+  }
+
+  const chunks = metadata.row_groups[rowGroupIndex].columns;
+  const chunkIndex = chunks.findIndex(
+    (chunk) => (chunk.meta_data?.path_in_schema ?? []).join(".") === columnName,
+  );
+  if (chunkIndex === -1) {
+    throw new Error(`unknown column: ${columnName}`);
+  }
+
+  // Column chunks are stored in leaf order, matching the primitive schema elements.
+  const element = metadata.schema.filter((entry) => entry.type !== undefined)[chunkIndex];
+  const chunk = chunks[chunkIndex];
+  const meta = chunk.meta_data;
+  if (!meta || !element) {
+    throw new Error(`column chunk metadata unavailable: ${columnName}`);
+  }
+
+  const dataStart = BigInt(meta.data_page_offset);
+  const dictionaryStart =
+    meta.dictionary_page_offset !== undefined ? BigInt(meta.dictionary_page_offset) : undefined;
+  const chunkStart =
+    dictionaryStart !== undefined && dictionaryStart >= 0n && dictionaryStart < dataStart
+      ? dictionaryStart
+      : dataStart;
+  const chunkEnd = chunkStart + BigInt(meta.total_compressed_size);
+
+  const [pages, columnIndex, offsetIndex] = await Promise.all([
+    readPageHeaders(file, chunkStart, chunkEnd, element),
+    readChunkColumnIndex(file, chunk, element),
+    readChunkOffsetIndex(file, chunk),
+  ]);
+
+  if (offsetIndex) {
+    const firstRows = new Map(
+      offsetIndex.pages.map((location) => [location.offset, location.firstRowIndex]),
+    );
+    for (const page of pages) {
+      page.firstRowIndex = firstRows.get(page.range.start);
+    }
+  }
+
+  return {
+    rowGroup: rowGroupIndex,
+    column: columnName,
+    pages,
+    columnIndex,
+    offsetIndex,
+  };
+}
+
+async function readPageHeaders(
+  file: ParquetFile,
+  start: bigint,
+  end: bigint,
+  element: SchemaElement,
+): Promise<ParquetPageLayout[]> {
+  const pages: ParquetPageLayout[] = [];
+  let window: ByteWindow = { start, bytes: new Uint8Array(0) };
+  let offset = start;
+
+  while (offset < end) {
+    let windowSize = PAGE_HEADER_WINDOW;
+    let decoded: ReturnType<typeof readThriftStruct> | undefined;
+
+    while (!decoded) {
+      const available = end - offset;
+      const wanted = available < BigInt(windowSize) ? available : BigInt(windowSize);
+      if (offset < window.start || offset + wanted > window.start + BigInt(window.bytes.length)) {
+        window = { start: offset, bytes: await readBytes(file, offset, offset + wanted) };
+      }
+
+      try {
+        decoded = readThriftStruct(window.bytes, Number(offset - window.start));
+      } catch (error) {
+        if (!(error instanceof RangeError) || wanted === available) {
+          throw new Error(`invalid page header at byte ${offset}`);
+        }
+        windowSize *= 4;
+        if (windowSize > MAX_PAGE_HEADER_BYTES) {
+          throw new Error(`page header at byte ${offset} is too large`);
+        }
+      }
+    }
+
+    const page = buildPageLayout(decoded.value, pages.length, offset, decoded.bytesRead, element);
+    if (page.range.end <= offset) {
+      throw new Error(`invalid page header at byte ${offset}`);
+    }
+    pages.push(page);
+    offset = page.range.end;
+  }
+
+  return pages;
+}
+
+function buildPageLayout(
+  header: ThriftStruct,
+  index: number,
+  start: bigint,
+  headerSize: number,
+  element: SchemaElement,
+): ParquetPageLayout {
+  const type = asNumber(header.field_1);
+  const uncompressedBytes = BigInt(asNumber(header.field_2) ?? 0);
+  const compressedBytes = BigInt(asNumber(header.field_3) ?? 0);
+  const headerBytes = BigInt(headerSize);
+  const dataPage = asStruct(header.field_5);
+  const dictionaryPage = asStruct(header.field_7);
+  const dataPageV2 = asStruct(header.field_8);
+  const detail = dataPage ?? dictionaryPage ?? dataPageV2;
+  const encoding = asNumber(dataPageV2 ? dataPageV2.field_4 : detail?.field_2);
+  const statistics = asStruct(dataPage?.field_5 ?? dataPageV2?.field_8);
+  const pageEnd = start + headerBytes + compressedBytes;
+
+  return {
+    index,
+    type: type !== undefined ? (PAGE_TYPES[type] ?? `UNKNOWN(${type})`) : "UNKNOWN",
+    range: { start, bytes: pageEnd - start, end: pageEnd },
+    headerBytes,
+    compressedBytes,
+    uncompressedBytes,
+    encoding: encoding !== undefined ? (ENCODINGS[encoding] ?? `UNKNOWN(${encoding})`) : undefined,
+    numValues: asNumber(detail?.field_1),
+    numNulls: asNumber(dataPageV2?.field_2),
+    numRows: asNumber(dataPageV2?.field_3),
+    statistics: statistics ? buildPageStatistics(statistics, element) : undefined,
+  };
+}
+
+function buildPageStatistics(statistics: ThriftStruct, element: SchemaElement) {
+  const decode = (value: ThriftValue | undefined) =>
+    decodePlainStatisticsValue(asBytes(value), element);
+
+  return buildColumnStatistics(
+    {
+      max: decode(statistics.field_1),
+      min: decode(statistics.field_2),
+      null_count: asBigInt(statistics.field_3),
+      distinct_count: asBigInt(statistics.field_4),
+      max_value: decode(statistics.field_5),
+      min_value: decode(statistics.field_6),
+      is_max_value_exact: asBoolean(statistics.field_7),
+      is_min_value_exact: asBoolean(statistics.field_8),
+    } as Statistics,
+    element,
+  );
+}
+
+async function readChunkColumnIndex(
+  file: ParquetFile,
+  chunk: ColumnChunk,
+  element: SchemaElement,
+): Promise<ParquetColumnIndex | undefined> {
+  const bytes = await readIndexBytes(file, chunk.column_index_offset, chunk.column_index_length);
+  if (!bytes) {
+    return undefined;
+  }
+
+  const index = readColumnIndex(
+    { view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), offset: 0 },
+    element,
+    RAW_STATISTICS_PARSERS,
+  );
+  let minValues: unknown[] = index.min_values;
+  let maxValues: unknown[] = index.max_values;
+  if (isFixedLengthDecimal(element)) {
+    const raw = readThriftStruct(bytes).value;
+    minValues = asList(raw.field_2).map(asBytes);
+    maxValues = asList(raw.field_3).map(asBytes);
+  }
+
+  return {
+    boundaryOrder: index.boundary_order,
+    pages: index.null_pages.map((nullPage, page) => ({
+      nullPage,
+      min: nullPage ? undefined : decodeStatisticsValue(minValues[page], element),
+      max: nullPage ? undefined : decodeStatisticsValue(maxValues[page], element),
+      nullCount: index.null_counts?.[page],
+    })),
+  };
+}
+
+async function readChunkOffsetIndex(
+  file: ParquetFile,
+  chunk: ColumnChunk,
+): Promise<ParquetOffsetIndex | undefined> {
+  const bytes = await readIndexBytes(file, chunk.offset_index_offset, chunk.offset_index_length);
+  if (!bytes) {
+    return undefined;
+  }
+
+  const index = readOffsetIndex({
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    offset: 0,
+  });
+
+  return {
+    pages: index.page_locations.map((location) => ({
+      offset: BigInt(location.offset),
+      compressedBytes: BigInt(location.compressed_page_size),
+      firstRowIndex: BigInt(location.first_row_index),
+    })),
+  };
+}
+
+async function readIndexBytes(
+  file: ParquetFile,
+  offset: bigint | undefined,
+  length: number | undefined,
+): Promise<Uint8Array | undefined> {
+  if (offset === undefined || length === undefined || offset < 0n || length <= 0) {
+    return undefined;
+  }
+  return readBytes(file, offset, offset + BigInt(length));
+}
+
+async function readBytes(file: ParquetFile, start: bigint, end: bigint): Promise<Uint8Array> {
+  const buffer = await file.slice(Number(start), Number(end));
+  return new Uint8Array(buffer);
+}
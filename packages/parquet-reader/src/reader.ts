@@ -18,15 +18,29 @@ import {
 } from "hyparquet";
 import { compressors } from "hyparquet-compressors";
 
+import { canSkipRowGroup, getFilterColumns, matchesFilter } from "./filter.js";
+import type { RowGroupFilterStats } from "./filter.js";
+import {
+  buildColumnStatistics,
+  isFixedLengthDecimal,
+  RAW_STATISTICS_PARSERS,
+} from "./statistics.js";
+import { normalizeBatchSize } from "./streaming.js";
+import { asBytes, asList, asStruct, readThriftStruct } from "./thrift.js";
 import type {
   ParquetByteRange,
   ParquetColumn,
   ParquetColumnChunkLayout,
+  ParquetColumnStatistics,
+  ParquetFilter,
   ParquetLayout,
+  ParquetLogicalType,
   ParquetMetadata,
+  ParquetRawMetadata,
   ParquetReadOptions,
   ParquetRow,
   ParquetRowGroupLayout,
+  ParquetSchemaNode,
 } from "./types.js";
 
 type ParquetFile = AsyncBuffer | ArrayBuffer;
@@ -35,8 +49,30 @@ type NormalizedReadOptions = {
   columns?: string[];
   rowStart?: number;
   rowEnd?: number;
+  rowGroups?: number[];
+  filter?: ParquetFilter;
+  batchSize?: number;
+  selectionOffset?: number;
+  selectionLimit?: number;
+};
+
+/** `selected` rows of a filtered selection come before file row `row`. */
+type SelectionCheckpoint = {
+  row: number;
+  selected: number;
 };
 
+/**
+ * Positions reached by earlier filtered reads, so reading a window deep into a
+ * filtered selection resumes near it instead of filtering every row before it.
+ * Keyed by filter object, then by the row range and row groups it applies to.
+ */
+export type SelectionCheckpoints = WeakMap<ParquetFilter, Map<string, SelectionCheckpoint[]>>;
+
+export function createSelectionCheckpoints(): SelectionCheckpoints {
+  return new WeakMap();
+}
+
 export async function asyncBufferFromPath(filePath: string): Promise<AsyncBuffer> {
   return asyncBufferFromFile(filePath);
 }
@@ -64,11 +100,19 @@ export async function readParquet(
   file: ParquetFile,
   options?: ParquetReadOptions,
   metadata?: FileMetaData,
+  checkpoints?: SelectionCheckpoints,
 ): Promise<ParquetRow[]> {
-  const { columns, rowStart, rowEnd } = normalizeReadOptions(options);
+  if (options?.tail !== undefined) {
+    return readTail(file, options, options.tail, metadata ?? (await getRawMetadata(file)));
+  }
+  const normalized = normalizeReadOptions(options);
+  const { columns, rowStart, rowEnd } = normalized;
   if (rowStart !== undefined && rowEnd !== undefined && rowEnd <= rowStart) {
     return [];
   }
+  if (normalized.filter || normalized.rowGroups || normalized.batchSize) {
+    return readSelectedRows(file, normalized, metadata, checkpoints);
+  }
   const rows = await parquetReadObjects({
     file,
     metadata,
@@ -84,20 +128,313 @@ export async function getMetadata(file: ParquetFile): Promise<ParquetMetadata> {
   return buildParquetMetadata(await getRawMetadata(file));
 }
 
-export async function getRawMetadata(file: ParquetFile): Promise<FileMetaData> {
-  return parquetMetadataAsync(file);
+export async function getRawMetadata(file: ParquetFile): Promise<ParquetRawMetadata> {
+  const metadata = await parquetMetadataAsync(file, { parsers: RAW_STATISTICS_PARSERS });
+  // The parsers keep BYTE_ARRAY statistics as bytes, so none of them are strings.
+  return (await restoreFixedLengthDecimalStatistics(file, metadata)) as ParquetRawMetadata;
+}
+
+/**
+ * Put the raw bytes of FIXED_LEN_BYTE_ARRAY decimal statistics back from the
+ * footer, since hyparquet hands them over as doubles. Other files are returned
+ * as they are, without reading the footer again.
+ */
+async function restoreFixedLengthDecimalStatistics(
+  file: ParquetFile,
+  metadata: FileMetaData,
+): Promise<FileMetaData> {
+  const columnSchema = metadata.schema.filter((element) => element.type !== undefined);
+  const decimalColumns = columnSchema.flatMap((element, index) =>
+    isFixedLengthDecimal(element) ? [index] : [],
+  );
+  if (decimalColumns.length === 0) {
+    return metadata;
+  }
+
+  const footer = await readFooter(file);
+  asList(footer.field_4).forEach((rawRowGroup, rowGroupIndex) => {
+    const rawColumns = asList(asStruct(rawRowGroup)?.field_1);
+    for (const columnIndex of decimalColumns) {
+      const meta = metadata.row_groups[rowGroupIndex]?.columns[columnIndex]?.meta_data;
+      const raw = asStruct(asStruct(asStruct(rawColumns[columnIndex])?.field_3)?.field_12);
+      if (meta?.statistics && raw) {
+        meta.statistics = {
+          ...meta.statistics,
+          max: asBytes(raw.field_1),
+          min: asBytes(raw.field_2),
+          max_value: asBytes(raw.field_5),
+          min_value: asBytes(raw.field_6),
+        };
+      }
+    }
+  });
+  return metadata;
+}
+
+async function readFooter(file: ParquetFile) {
+  const size = file.byteLength;
+  const tail = new DataView(await file.slice(size - 8, size));
+  const length = tail.getUint32(0, true);
+  const bytes = new Uint8Array(await file.slice(size - 8 - length, size - 8));
+  return readThriftStruct(bytes).value;
 }
 
 export function buildParquetMetadata(metadata: FileMetaData): ParquetMetadata {
   return buildMetadata(metadata);
 }
 
+/**
+ * Read the last `tail` rows of the selection. Without a filter this turns into a
+ * windowed read located from footer row counts; a filter has to scan every row
+ * group that may match.
+ */
+async function readTail(
+  file: ParquetFile,
+  options: ParquetReadOptions,
+  tail: number,
+  metadata: FileMetaData,
+): Promise<ParquetRow[]> {
+  const count = Math.max(0, Math.trunc(tail));
+  if (count === 0) {
+    return [];
+  }
+
+  const base: ParquetReadOptions = {
+    ...options,
+    tail: undefined,
+    offset: undefined,
+    limit: undefined,
+  };
+  if (options.filter) {
+    const rows = await readParquet(file, base, metadata);
+    return rows.slice(-count);
+  }
+
+  const skip = Math.max(0, countSelectedRows(metadata, options) - count);
+  if (normalizeRowGroups(options.rowGroups)) {
+    // offset/limit count rows of the selected row groups.
+    return readParquet(file, { ...base, offset: skip, limit: count }, metadata);
+  }
+  const rowStart = Math.max(0, options.rowStart ?? 0) + skip;
+  return readParquet(file, { ...base, rowStart, rowEnd: rowStart + count }, metadata);
+}
+
+function countSelectedRows(metadata: FileMetaData, options: ParquetReadOptions): number {
+  const selectedGroups = options.rowGroups?.length ? new Set(options.rowGroups) : undefined;
+  const scanStart = Math.max(0, options.rowStart ?? 0);
+  const scanEnd = options.rowEnd ?? Number.POSITIVE_INFINITY;
+  let total = 0;
+  let groupStart = 0;
+
+  for (const [groupIndex, rowGroup] of metadata.row_groups.entries()) {
+    const groupEnd = groupStart + Number(rowGroup.num_rows);
+    if (!selectedGroups || selectedGroups.has(groupIndex)) {
+      total += Math.max(0, Math.min(groupEnd, scanEnd) - Math.max(groupStart, scanStart));
+    }
+    groupStart = groupEnd;
+  }
+
+  return total;
+}
+
+/**
+ * Read rows group by group, honouring row group selection, filter pruning and
+ * decode chunking. Used whenever the plain row-range read is not enough.
+ */
+async function readSelectedRows(
+  file: ParquetFile,
+  options: NormalizedReadOptions,
+  metadata?: FileMetaData,
+  checkpoints?: SelectionCheckpoints,
+): Promise<ParquetRow[]> {
+  const { columns, filter, batchSize, selectionOffset = 0, selectionLimit } = options;
+  if (selectionLimit !== undefined && selectionLimit <= 0) {
+    return [];
+  }
+
+  const resolvedMetadata = metadata ?? (await getRawMetadata(file));
+  const rowGroupCount = resolvedMetadata.row_groups.length;
+  const selectedGroups = options.rowGroups ? new Set(options.rowGroups) : undefined;
+  for (const index of selectedGroups ?? []) {
+    if (index >= rowGroupCount) {
+      throw new Error(`row group ${index} out of range (file has ${rowGroupCount} row groups)`);
+    }
+  }
+
+  const filterColumns = filter ? getFilterColumns(filter) : [];
+  const available = new Set(parquetSchema(resolvedMetadata).children.map((c) => c.element.name));
+  const missing = filterColumns.filter((name) => !available.has(name));
+  if (missing.length > 0) {
+    throw new Error(`unknown filter columns: ${missing.join(", ")}`);
+  }
+
+  const readColumns = columns ? Array.from(new Set([...columns, ...filterColumns])) : undefined;
+  const needsProjection = readColumns !== undefined && readColumns.length !== columns?.length;
+  const leafElements = resolvedMetadata.schema.filter((element) => element.type !== undefined);
+  const scanEnd = options.rowEnd ?? Number.POSITIVE_INFINITY;
+  const selected: ParquetRow[] = [];
+  const positions = filter && checkpoints ? getCheckpoints(checkpoints, filter, options) : null;
+  const resume = positions ? findCheckpoint(positions, selectionOffset) : null;
+  const scanStart = Math.max(options.rowStart ?? 0, resume?.row ?? 0);
+  let skippedRows = resume?.selected ?? 0;
+  let groupStart = 0;
+
+  for (const [groupIndex, rowGroup] of resolvedMetadata.row_groups.entries()) {
+    const groupEnd = groupStart + Number(rowGroup.num_rows);
+    const start = Math.max(groupStart, scanStart);
+    const end = Math.min(groupEnd, scanEnd);
+    groupStart = groupEnd;
+
+    if (start >= end || (selectedGroups && !selectedGroups.has(groupIndex))) {
+      continue;
+    }
+    if (filter && canSkipRowGroup(filter, buildRowGroupFilterStats(rowGroup, leafElements))) {
+      continue;
+    }
+
+    // Without a filter, whole chunks that fall inside the offset never need decoding.
+    let chunkStart = start;
+    if (!filter && skippedRows < selectionOffset) {
+      const skippable = Math.min(end - start, selectionOffset - skippedRows);
+      skippedRows += skippable;
+      chunkStart += skippable;
+    }
+
+    const chunkRows = batchSize ?? end - chunkStart;
+    for (; chunkStart < end; chunkStart += chunkRows) {
+      if (positions) {
+        addCheckpoint(positions, { row: chunkStart, selected: skippedRows + selected.length });
+      }
+      const rows = (await parquetReadObjects({
+        file,
+        metadata: resolvedMetadata,
+        columns: readColumns,
+        rowStart: chunkStart,
+        rowEnd: Math.min(end, chunkStart + chunkRows),
+        compressors,
+      })) as ParquetRow[];
+
+      for (const row of rows) {
+        if (filter && !matchesFilter(filter, row)) {
+          continue;
+        }
+        if (skippedRows < selectionOffset) {
+          skippedRows += 1;
+          continue;
+        }
+        selected.push(needsProjection ? projectRow(row, columns!) : row);
+        if (selectionLimit !== undefined && selected.length >= selectionLimit) {
+          return selected;
+        }
+      }
+    }
+  }
+
+  return selected;
+}
+
+function getCheckpoints(
+  checkpoints: SelectionCheckpoints,
+  filter: ParquetFilter,
+  options: NormalizedReadOptions,
+): SelectionCheckpoint[] {
+  let byRange = checkpoints.get(filter);
+  if (!byRange) {
+    byRange = new Map();
+    checkpoints.set(filter, byRange);
+  }
+  const key = `${options.rowStart ?? ""}:${options.rowEnd ?? ""}:${options.rowGroups?.join(",") ?? ""}`;
+  let positions = byRange.get(key);
+  if (!positions) {
+    positions = [];
+    byRange.set(key, positions);
+  }
+  return positions;
+}
+
+/** The furthest checkpoint with at most `offset` selected rows before it. */
+function findCheckpoint(
+  positions: SelectionCheckpoint[],
+  offset: number,
+): SelectionCheckpoint | null {
+  // Sorted by row, so `selected` never decreases.
+  let low = 0;
+  let high = positions.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (positions[middle].selected <= offset) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low > 0 ? positions[low - 1] : null;
+}
+
+function addCheckpoint(positions: SelectionCheckpoint[], checkpoint: SelectionCheckpoint): void {
+  let index = positions.length;
+  while (index > 0 && positions[index - 1].row > checkpoint.row) {
+    index -= 1;
+  }
+  if (positions[index - 1]?.row !== checkpoint.row) {
+    positions.splice(index, 0, checkpoint);
+  }
+}
+
+function buildRowGroupFilterStats(
+  rowGroup: RowGroup,
+  leafElements: SchemaElement[],
+): RowGroupFilterStats {
+  const columns = new Map<string, ParquetColumnStatistics>();
+
+  rowGroup.columns.forEach((columnChunk, columnIndex) => {
+    const meta = columnChunk.meta_data;
+    if (!meta || meta.path_in_schema.length !== 1) {
+      return;
+    }
+    const statistics = buildColumnStatistics(meta.statistics, leafElements[columnIndex]);
+    if (statistics) {
+      columns.set(meta.path_in_schema[0], statistics);
+    }
+  });
+
+  return { numRows: normalizeBigInt(rowGroup.num_rows) ?? 0n, columns };
+}
+
+function projectRow(row: ParquetRow, columns: string[]): ParquetRow {
+  const projected: ParquetRow = {};
+  for (const name of columns) {
+    projected[name] = row[name];
+  }
+  return projected;
+}
+
 function normalizeReadOptions(options?: ParquetReadOptions): NormalizedReadOptions {
   if (!options) {
     return {};
   }
 
   const columns = options.columns && options.columns.length > 0 ? options.columns : undefined;
+  const batchSize = normalizeBatchSize(options.batchSize);
+  const rowGroups = normalizeRowGroups(options.rowGroups);
+
+  if (options.filter || rowGroups) {
+    // offset/limit count selected rows (matching and/or in the listed row groups)
+    // rather than file rows, so they compose with windowed reads.
+    const rowStart = options.rowStart !== undefined ? Math.max(0, options.rowStart) : undefined;
+    const rowEnd =
+      options.rowEnd !== undefined ? Math.max(rowStart ?? 0, options.rowEnd) : undefined;
+    return {
+      columns,
+      rowStart,
+      rowEnd,
+      rowGroups,
+      filter: options.filter,
+      batchSize,
+      selectionOffset: options.offset !== undefined ? Math.max(0, options.offset) : undefined,
+      selectionLimit: options.limit !== undefined ? Math.max(0, options.limit) : undefined,
+    };
+  }
   const hasRange =
     options.rowStart !== undefined ||
     options.rowEnd !== undefined ||
@@ -117,7 +454,21 @@ function normalizeReadOptions(options?: ParquetReadOptions): NormalizedReadOptio
     rowEnd = Math.max(rowStart, rowEnd);
   }
 
-  return { columns, rowStart, rowEnd };
+  return { columns, rowStart, rowEnd, batchSize };
+}
+
+function normalizeRowGroups(rowGroups: number[] | undefined): number[] | undefined {
+  if (!rowGroups || rowGroups.length === 0) {
+    return undefined;
+  }
+
+  for (const index of rowGroups) {
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error(`invalid row group index: ${index}`);
+    }
+  }
+
+  return Array.from(new Set(rowGroups)).sort((left, right) => left - right);
 }
 
 function buildMetadata(metadata: FileMetaData): ParquetMetadata {
@@ -131,6 +482,7 @@ function buildMetadata(metadata: FileMetaData): ParquetMetadata {
     keyValueMetadata,
     rowCount,
     columns: buildColumns(schemaTree),
+    schema: schemaTree.children.map((child) => buildSchemaNode(child, 0, 0)),
     layout: buildLayout(metadata),
   };
 }
@@ -141,15 +493,26 @@ function buildLayout(metadata: FileMetaData): ParquetLayout | undefined {
     return undefined;
   }
 
+  // Column chunks are stored in leaf order, matching the primitive schema elements.
+  const leafElements = metadata.schema.filter((element) => element.type !== undefined);
+
   return {
     magic: createByteRange(0n, 4n),
-    rowGroups: rowGroups.map((rowGroup, index) => buildRowGroupLayout(rowGroup, index)),
+    rowGroups: rowGroups.map((rowGroup, index) =>
+      buildRowGroupLayout(rowGroup, index, leafElements),
+    ),
   };
 }
 
-function buildRowGroupLayout(rowGroup: RowGroup, index: number): ParquetRowGroupLayout {
+function buildRowGroupLayout(
+  rowGroup: RowGroup,
+  index: number,
+  leafElements: SchemaElement[],
+): ParquetRowGroupLayout {
   const columns = rowGroup.columns
-    .map((columnChunk) => buildColumnChunkLayout(columnChunk))
+    .map((columnChunk, columnIndex) =>
+      buildColumnChunkLayout(columnChunk, leafElements[columnIndex]),
+    )
     .filter((columnChunk): columnChunk is ParquetColumnChunkLayout => columnChunk !== null);
 
   return {
@@ -160,7 +523,10 @@ function buildRowGroupLayout(rowGroup: RowGroup, index: number): ParquetRowGroup
   };
 }
 
-function buildColumnChunkLayout(columnChunk: ColumnChunk): ParquetColumnChunkLayout | null {
+function buildColumnChunkLayout(
+  columnChunk: ColumnChunk,
+  element: SchemaElement | undefined,
+): ParquetColumnChunkLayout | null {
   const meta = columnChunk.meta_data;
   if (!meta) {
     return null;
@@ -190,18 +556,39 @@ function buildColumnChunkLayout(columnChunk: ColumnChunk): ParquetColumnChunkLay
 
   const dataBytes = totalRange.end > dataStart ? totalRange.end - dataStart : 0n;
   const dataRange = createByteRange(dataStart, dataBytes);
+  const columnIndexRange = buildIndexRange(
+    columnChunk.column_index_offset,
+    columnChunk.column_index_length,
+  );
+  const offsetIndexRange = buildIndexRange(
+    columnChunk.offset_index_offset,
+    columnChunk.offset_index_length,
+  );
 
   return {
     name,
     path,
     bytes: totalBytes,
     compression: meta.codec,
+    numValues: normalizeBigInt(meta.num_values),
+    statistics: buildColumnStatistics(meta.statistics, element),
     totalRange,
     dictionaryRange,
     dataRange,
+    columnIndexRange,
+    offsetIndexRange,
   };
 }
 
+function buildIndexRange(offset: unknown, length: unknown): ParquetByteRange | undefined {
+  const start = normalizeBigInt(offset);
+  const bytes = normalizeBigInt(length);
+  if (start === undefined || bytes === undefined || start < 0n || bytes <= 0n) {
+    return undefined;
+  }
+  return createByteRange(start, bytes);
+}
+
 function resolveRowGroupBytes(rowGroup: RowGroup, columns: ParquetColumnChunkLayout[]): bigint {
   const totalCompressed = normalizeBigInt(rowGroup.total_compressed_size);
   if (totalCompressed !== undefined) {
@@ -241,12 +628,82 @@ function buildColumns(schema: SchemaTree): ParquetColumn[] {
     name: child.element.name,
     type: formatSchemaType(child.element),
     path: child.path,
+    logicalType: buildLogicalType(child.element),
   }));
 }
 
+function buildSchemaNode(
+  tree: SchemaTree,
+  parentDefinitionLevel: number,
+  parentRepetitionLevel: number,
+): ParquetSchemaNode {
+  const { element } = tree;
+  const repetition = element.repetition_type;
+  const maxDefinitionLevel =
+    repetition && repetition !== "REQUIRED" ? parentDefinitionLevel + 1 : parentDefinitionLevel;
+  const maxRepetitionLevel =
+    repetition === "REPEATED" ? parentRepetitionLevel + 1 : parentRepetitionLevel;
+
+  return {
+    name: element.name,
+    path: tree.path,
+    type: formatSchemaType(element),
+    repetition,
+    physicalType: element.type,
+    typeLength: element.type_length,
+    convertedType: element.converted_type,
+    logicalType: buildLogicalType(element),
+    fieldId: element.field_id,
+    maxDefinitionLevel,
+    maxRepetitionLevel,
+    children: tree.children.map((child) =>
+      buildSchemaNode(child, maxDefinitionLevel, maxRepetitionLevel),
+    ),
+  };
+}
+
+function buildLogicalType(element: SchemaElement): ParquetLogicalType | undefined {
+  const value: LogicalType | undefined = element.logical_type;
+  if (value && typeof value === "object" && "type" in value) {
+    switch (value.type) {
+      case "DECIMAL":
+        return { type: value.type, precision: value.precision, scale: value.scale };
+      case "TIME":
+      case "TIMESTAMP":
+        return { type: value.type, unit: value.unit, isAdjustedToUTC: value.isAdjustedToUTC };
+      case "INTEGER":
+        return { type: value.type, bitWidth: value.bitWidth, isSigned: value.isSigned };
+      default:
+        return { type: value.type };
+    }
+  }
+
+  // Older writers only set converted_type; map the parameterized ones so callers
+  // see the same shape either way. Legacy temporal types are always UTC-adjusted.
+  const convertedType = element.converted_type;
+  if (convertedType === "DECIMAL") {
+    return { type: "DECIMAL", precision: element.precision, scale: element.scale ?? 0 };
+  }
+  const temporal = convertedType?.match(/^(TIME|TIMESTAMP)_(MILLIS|MICROS)$/);
+  if (temporal) {
+    return {
+      type: temporal[1],
+      unit: temporal[2] as "MILLIS" | "MICROS",
+      isAdjustedToUTC: true,
+    };
+  }
+  const integer = convertedType?.match(/^(U?)INT_(8|16|32|64)$/);
+  if (integer) {
+    return { type: "INTEGER", bitWidth: Number(integer[2]), isSigned: integer[1] === "" };
+  }
+
+  return undefined;
+}
+
 function formatSchemaType(element: SchemaElement): string {
-  if (element.logical_type) {
-    return formatLogicalType(element.logical_type);
+  const logicalType = buildLogicalType(element);
+  if (logicalType) {
+    return formatLogicalType(logicalType);
   }
 
   if (element.converted_type) {
@@ -264,16 +721,24 @@ function formatSchemaType(element: SchemaElement): string {
   return "UNKNOWN";
 }
 
-function formatLogicalType(value: LogicalType): string {
-  if (typeof value === "string") {
-    return value;
+function formatLogicalType(value: ParquetLogicalType): string {
+  switch (value.type) {
+    case "DECIMAL":
+      return value.precision !== undefined
+        ? `DECIMAL(${value.precision},${value.scale ?? 0})`
+        : value.type;
+    case "TIME":
+    case "TIMESTAMP":
+      return value.unit
+        ? `${value.type}(${value.unit}, ${value.isAdjustedToUTC ? "UTC" : "local"})`
+        : value.type;
+    case "INTEGER":
+      return value.bitWidth !== undefined
+        ? `${value.isSigned === false ? "UINT" : "INT"}${value.bitWidth}`
+        : value.type;
+    default:
+      return value.type || "LOGICAL";
   }
-
-  if (value && typeof value === "object" && "type" in value && value.type) {
-    return value.type;
-  }
-
-  return "LOGICAL";
 }
 
 function normalizeKeyValueMetadata(
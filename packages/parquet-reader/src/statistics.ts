@@ -0,0 +1,381 @@
+import { Buffer } from "node:buffer";
+
+import type { ParquetParsers, SchemaElement, Statistics } from "hyparquet";
+
+import type { ParquetColumnStatistics, ParquetStatisticsValue } from "./types.js";
+
+// hyparquet decodes BYTE_ARRAY statistics as UTF-8 unconditionally, which mangles
+// binary columns. Keep the raw bytes so they can be decoded against the logical type.
+// Only footer and column index statistics go through these, and hyparquet never
+// calls the geometry parsers for those.
+export const RAW_STATISTICS_PARSERS: ParquetParsers = {
+  timestampFromMilliseconds: (millis: bigint) => new Date(Number(millis)),
+  timestampFromMicroseconds: (micros: bigint) => new Date(Number(micros / 1000n)),
+  timestampFromNanoseconds: (nanos: bigint) => new Date(Number(nanos / 1_000_000n)),
+  dateFromDays: (days: number) => new Date(days * 86_400_000),
+  stringFromBytes: (bytes: Uint8Array) => bytes,
+  geometryFromBytes: (bytes: Uint8Array) => bytes,
+  geographyFromBytes: (bytes: Uint8Array) => bytes,
+};
+
+const STRING_LOGICAL_TYPES = new Set(["STRING", "ENUM", "JSON"]);
+const STRING_CONVERTED_TYPES = new Set(["UTF8", "ENUM", "JSON"]);
+const UNSIGNED_CONVERTED_TYPES = new Set(["UINT_8", "UINT_16", "UINT_32", "UINT_64"]);
+
+export function buildColumnStatistics(
+  statistics: Statistics | undefined,
+  element: SchemaElement | undefined,
+): ParquetColumnStatistics | undefined {
+  if (!statistics) {
+    return undefined;
+  }
+
+  const hasModernMinMax = statistics.min_value !== undefined || statistics.max_value !== undefined;
+  // The deprecated min/max fields were written with signed comparison, so they are
+  // only trustworthy for unsigned-order columns when every value is identical.
+  const legacyUsable =
+    !hasModernMinMax &&
+    (statistics.min !== undefined || statistics.max !== undefined) &&
+    (hasSignedSortOrder(element) || sameRawValue(statistics.min, statistics.max));
+
+  const rawMin = hasModernMinMax ? statistics.min_value : legacyUsable ? statistics.min : undefined;
+  const rawMax = hasModernMinMax ? statistics.max_value : legacyUsable ? statistics.max : undefined;
+  const nullCount = normalizeCount(statistics.null_count);
+  const distinctCount = normalizeCount(statistics.distinct_count);
+  const min = decodeStatisticsValue(rawMin, element);
+  const max = decodeStatisticsValue(rawMax, element);
+
+  if (
+    min === undefined &&
+    max === undefined &&
+    nullCount === undefined &&
+    distinctCount === undefined
+  ) {
+    return undefined;
+  }
+
+  return {
+    min,
+    max,
+    nullCount,
+    distinctCount,
+    isMinExact: hasModernMinMax ? statistics.is_min_value_exact : undefined,
+    isMaxExact: hasModernMinMax ? statistics.is_max_value_exact : undefined,
+    legacy: legacyUsable,
+  };
+}
+
+/**
+ * Decode a statistics value (as produced by hyparquet with `RAW_STATISTICS_PARSERS`)
+ * according to the column's physical and logical type.
+ */
+export function decodeStatisticsValue(
+  value: unknown,
+  element: SchemaElement | undefined,
+): ParquetStatisticsValue | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!element) {
+    return value as ParquetStatisticsValue;
+  }
+
+  const decimalScale = getDecimalScale(element);
+
+  if (value instanceof Uint8Array) {
+    if (isStringElement(element)) {
+      return Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString("utf8");
+    }
+    if (decimalScale !== undefined) {
+      return scaleDecimal(readBigEndianSigned(value), decimalScale);
+    }
+    return value;
+  }
+
+  if (typeof value === "number" || typeof value === "bigint") {
+    if (element.type === "INT32" || element.type === "INT64") {
+      if (decimalScale !== undefined) {
+        return scaleDecimal(BigInt(value), decimalScale);
+      }
+      if (isUnsignedElement(element)) {
+        return toUnsigned(value, element.type === "INT32" ? 32 : 64);
+      }
+    }
+  }
+
+  return value as ParquetStatisticsValue;
+}
+
+/**
+ * Decode a plain-encoded statistics value read straight from Thrift (page headers),
+ * matching what hyparquet produces for footer statistics before logical decoding.
+ */
+export function decodePlainStatisticsValue(
+  bytes: Uint8Array | undefined,
+  element: SchemaElement,
+): unknown {
+  if (bytes === undefined) {
+    return undefined;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const logical = element.logical_type;
+  switch (element.type) {
+    case "BOOLEAN":
+      return bytes[0] === 1;
+    case "FLOAT":
+      return view.byteLength === 4 ? view.getFloat32(0, true) : bytes;
+    case "DOUBLE":
+      return view.byteLength === 8 ? view.getFloat64(0, true) : bytes;
+    case "INT32":
+      if (view.byteLength !== 4) {
+        return bytes;
+      }
+      if (element.converted_type === "DATE" || logical?.type === "DATE") {
+        return new Date(view.getInt32(0, true) * 86_400_000);
+      }
+      return view.getInt32(0, true);
+    case "INT64": {
+      if (view.byteLength !== 8) {
+        return bytes;
+      }
+      const value = view.getBigInt64(0, true);
+      const unit =
+        logical?.type === "TIMESTAMP"
+          ? logical.unit
+          : element.converted_type === "TIMESTAMP_MILLIS"
+            ? "MILLIS"
+            : element.converted_type === "TIMESTAMP_MICROS"
+              ? "MICROS"
+              : undefined;
+      if (unit === "MILLIS") return new Date(Number(value));
+      if (unit === "MICROS") return new Date(Number(value / 1000n));
+      if (unit === "NANOS") return new Date(Number(value / 1_000_000n));
+      return value;
+    }
+    default:
+      return bytes;
+  }
+}
+
+/**
+ * Combine per-chunk statistics (e.g. one column across row groups) into file-level
+ * statistics. Counts are only summed when every chunk reports them.
+ */
+export function mergeColumnStatistics(
+  chunks: Array<ParquetColumnStatistics | undefined>,
+): ParquetColumnStatistics | undefined {
+  if (chunks.length === 0 || chunks.some((chunk) => chunk === undefined)) {
+    return undefined;
+  }
+
+  const present = chunks as ParquetColumnStatistics[];
+  let min: ParquetStatisticsValue | undefined;
+  let max: ParquetStatisticsValue | undefined;
+  let minKnown = true;
+  let maxKnown = true;
+
+  for (const chunk of present) {
+    minKnown = minKnown && chunk.min !== undefined;
+    maxKnown = maxKnown && chunk.max !== undefined;
+
+    if (minKnown && chunk.min !== undefined) {
+      const order = min === undefined ? -1 : compareStatisticsValues(chunk.min, min);
+      if (order === null) {
+        minKnown = false;
+      } else if (order < 0) {
+        min = chunk.min;
+      }
+    }
+    if (maxKnown && chunk.max !== undefined) {
+      const order = max === undefined ? 1 : compareStatisticsValues(chunk.max, max);
+      if (order === null) {
+        maxKnown = false;
+      } else if (order > 0) {
+        max = chunk.max;
+      }
+    }
+  }
+
+  const nullCount = present.every((chunk) => chunk.nullCount !== undefined)
+    ? present.reduce((sum, chunk) => sum + (chunk.nullCount ?? 0n), 0n)
+    : undefined;
+  // Distinct counts cannot be combined across chunks.
+  const distinctCount = present.length === 1 ? present[0].distinctCount : undefined;
+
+  return {
+    min: minKnown ? min : undefined,
+    max: maxKnown ? max : undefined,
+    nullCount,
+    distinctCount,
+    isMinExact: minKnown ? present.every((chunk) => chunk.isMinExact !== false) : undefined,
+    isMaxExact: maxKnown ? present.every((chunk) => chunk.isMaxExact !== false) : undefined,
+    legacy: present.some((chunk) => chunk.legacy),
+  };
+}
+
+/**
+ * Order two statistics values. Returns null when the values are not comparable
+ * (different kinds, or NaN).
+ */
+export function compareStatisticsValues(
+  left: ParquetStatisticsValue,
+  right: ParquetStatisticsValue,
+): number | null {
+  if (typeof left === "number" || typeof left === "bigint") {
+    if (typeof right !== "number" && typeof right !== "bigint") {
+      return null;
+    }
+    if (typeof left === "number" && Number.isNaN(left)) return null;
+    if (typeof right === "number" && Number.isNaN(right)) return null;
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  if (typeof left === "string") {
+    if (typeof right !== "string") {
+      return null;
+    }
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  if (typeof left === "boolean") {
+    if (typeof right !== "boolean") {
+      return null;
+    }
+    return Number(left) - Number(right);
+  }
+
+  if (left instanceof Date) {
+    if (!(right instanceof Date)) {
+      return null;
+    }
+    return Math.sign(left.getTime() - right.getTime());
+  }
+
+  if (left instanceof Uint8Array && right instanceof Uint8Array) {
+    return Buffer.compare(left, right);
+  }
+
+  return null;
+}
+
+function hasSignedSortOrder(element: SchemaElement | undefined): boolean {
+  if (!element) {
+    return false;
+  }
+
+  if (isUnsignedElement(element) || isStringElement(element)) {
+    return false;
+  }
+
+  return (
+    element.type === "BOOLEAN" ||
+    element.type === "INT32" ||
+    element.type === "INT64" ||
+    element.type === "FLOAT" ||
+    element.type === "DOUBLE"
+  );
+}
+
+function isStringElement(element: SchemaElement): boolean {
+  if (element.logical_type && STRING_LOGICAL_TYPES.has(element.logical_type.type)) {
+    return true;
+  }
+  return element.converted_type !== undefined && STRING_CONVERTED_TYPES.has(element.converted_type);
+}
+
+function isUnsignedElement(element: SchemaElement): boolean {
+  const logical = element.logical_type;
+  if (logical?.type === "INTEGER") {
+    return !logical.isSigned;
+  }
+  return (
+    element.converted_type !== undefined && UNSIGNED_CONVERTED_TYPES.has(element.converted_type)
+  );
+}
+
+/**
+ * hyparquet converts statistics of FIXED_LEN_BYTE_ARRAY decimals to doubles
+ * itself, which loses DECIMAL(38,x) bounds; callers read those from the raw bytes.
+ */
+export function isFixedLengthDecimal(element: SchemaElement): boolean {
+  return element.type === "FIXED_LEN_BYTE_ARRAY" && element.converted_type === "DECIMAL";
+}
+
+function getDecimalScale(element: SchemaElement): number | undefined {
+  const logical = element.logical_type;
+  if (logical?.type === "DECIMAL") {
+    return logical.scale ?? 0;
+  }
+  if (element.converted_type === "DECIMAL") {
+    return element.scale ?? 0;
+  }
+  return undefined;
+}
+
+function toUnsigned(value: number | bigint, bits: 32 | 64): number | bigint {
+  if (typeof value === "number") {
+    return value < 0 ? value + 2 ** 32 : value;
+  }
+  return value < 0n ? value + (1n << BigInt(bits)) : value;
+}
+
+function readBigEndianSigned(bytes: Uint8Array): bigint {
+  if (bytes.length === 0) {
+    return 0n;
+  }
+
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+
+  const bits = BigInt(bytes.length * 8);
+  if (bytes[0] & 0x80) {
+    value -= 1n << bits;
+  }
+  return value;
+}
+
+/**
+ * A decimal as a number while the unscaled value is an exact double, otherwise
+ * as an exact decimal string (e.g. DECIMAL(38,2) bounds).
+ */
+function scaleDecimal(unscaled: bigint, scale: number): number | string {
+  const limit = BigInt(Number.MAX_SAFE_INTEGER);
+  if (unscaled >= -limit && unscaled <= limit) {
+    return Number(unscaled) / 10 ** scale;
+  }
+
+  const digits = (unscaled < 0n ? -unscaled : unscaled).toString();
+  const sign = unscaled < 0n ? "-" : "";
+  if (scale <= 0) {
+    return `${sign}${digits}${"0".repeat(-scale)}`;
+  }
+  const padded = digits.padStart(scale + 1, "0");
+  return `${sign}${padded.slice(0, -scale)}.${padded.slice(-scale)}`;
+}
+
+function sameRawValue(left: unknown, right: unknown): boolean {
+  if (left === undefined || right === undefined) {
+    return false;
+  }
+  if (left instanceof Uint8Array && right instanceof Uint8Array) {
+    return Buffer.compare(left, right) === 0;
+  }
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() === right.getTime();
+  }
+  return left === right;
+}
+
+function normalizeCount(value: unknown): bigint | undefined {
+  if (typeof value === "bigint") {
+    return value >= 0n ? value : undefined;
+  }
+  if (typeof value === "number" && Number.isFinite(value) && value >= 0) {
+    return BigInt(Math.trunc(value));
+  }
+  return undefined;
+}
@@ -1,4 +1,4 @@
-import type { AsyncBuffer } from "hyparquet";
+import type { AsyncBuffer, FileMetaData } from "hyparquet";
 import { parquetMetadataAsync, parquetReadObjects } from "hyparquet";
 import { compressors } from "hyparquet-compressors";
 
@@ -7,6 +7,10 @@ import type { ParquetRow } from "./types.js";
 export type StreamOptions = {
   columns?: string[];
   batchSize?: number;
+  /** Only stream the listed row groups (0-based), in file order. */
+  rowGroups?: number[];
+  /** Skip this many rows of the selection; row groups before it are never read. */
+  offset?: number;
   signal?: AbortSignal;
 };
 
@@ -48,9 +52,11 @@ const DEFAULT_FIRST_STREAM_CHUNK_ROWS = 256;
 export async function* streamRows(
   file: ParquetFile,
   options?: StreamOptions,
+  fileMetadata?: FileMetaData,
 ): AsyncGenerator<ParquetRow | ParquetRow[]> {
   const { columns, batchSize, signal } = options ?? {};
-  const metadata = await parquetMetadataAsync(file);
+  const metadata = fileMetadata ?? (await parquetMetadataAsync(file));
+  const selectedGroups = resolveSelectedRowGroups(options?.rowGroups, metadata.row_groups.length);
   const totalRows = bigintToPositiveNumber(metadata.num_rows);
   if (totalRows <= 0) {
     return;
@@ -58,9 +64,10 @@ export async function* streamRows(
 
   const normalizedBatchSize = normalizeBatchSize(batchSize);
   let currentRow = 0;
+  let rowsToSkip = Math.max(0, Math.trunc(options?.offset ?? 0));
   let pendingBatch: ParquetRow[] = [];
 
-  for (const rowGroup of metadata.row_groups) {
+  for (const [rowGroupIndex, rowGroup] of metadata.row_groups.entries()) {
     if (signal?.aborted) {
       return;
     }
@@ -69,8 +76,19 @@ export async function* streamRows(
     if (rowGroupRows <= 0) {
       continue;
     }
-    const rowGroupStart = currentRow;
+    if (selectedGroups && !selectedGroups.has(rowGroupIndex)) {
+      currentRow += rowGroupRows;
+      continue;
+    }
+    if (rowsToSkip >= rowGroupRows) {
+      rowsToSkip -= rowGroupRows;
+      currentRow += rowGroupRows;
+      continue;
+    }
     const rowGroupEnd = currentRow + rowGroupRows;
+    currentRow += rowsToSkip;
+    rowsToSkip = 0;
+    const rowGroupStart = currentRow;
     const readChunkRows = getReadChunkRows(rowGroupRows, normalizedBatchSize);
 
     while (currentRow < rowGroupEnd) {
@@ -134,7 +152,7 @@ export async function* streamRows(
   }
 }
 
-function normalizeBatchSize(batchSize: number | undefined): number | undefined {
+export function normalizeBatchSize(batchSize: number | undefined): number | undefined {
   if (typeof batchSize !== "number" || !Number.isFinite(batchSize)) {
     return undefined;
   }
@@ -145,6 +163,24 @@ function normalizeBatchSize(batchSize: number | undefined): number | undefined {
   return normalized;
 }
 
+function resolveSelectedRowGroups(
+  rowGroups: number[] | undefined,
+  rowGroupCount: number,
+): Set<number> | undefined {
+  if (!rowGroups || rowGroups.length === 0) {
+    return undefined;
+  }
+  for (const index of rowGroups) {
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error(`invalid row group index: ${index}`);
+    }
+    if (index >= rowGroupCount) {
+      throw new Error(`row group ${index} out of range (file has ${rowGroupCount} row groups)`);
+    }
+  }
+  return new Set(rowGroups);
+}
+
 function bigintToPositiveNumber(value: bigint): number {
   return value > 0n ? Number(value) : 0;
 }
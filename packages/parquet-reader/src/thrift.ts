@@ -0,0 +1,204 @@
+export type ThriftValue = boolean | number | bigint | Uint8Array | ThriftValue[] | ThriftStruct;
+
+export type ThriftStruct = { [field: `field_${number}`]: ThriftValue | undefined };
+
+type ThriftReader = {
+  view: DataView;
+  offset: number;
+};
+
+const CompactType = {
+  STOP: 0,
+  TRUE: 1,
+  FALSE: 2,
+  BYTE: 3,
+  I16: 4,
+  I32: 5,
+  I64: 6,
+  DOUBLE: 7,
+  BINARY: 8,
+  LIST: 9,
+  SET: 10,
+  MAP: 11,
+  STRUCT: 12,
+} as const;
+
+/**
+ * Decode a Thrift compact-protocol struct starting at `offset`. Fields are keyed
+ * `field_<id>` like hyparquet does internally; `bytesRead` is the encoded size.
+ */
+export function readThriftStruct(
+  bytes: Uint8Array,
+  offset = 0,
+): { value: ThriftStruct; bytesRead: number } {
+  const reader: ThriftReader = {
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    offset,
+  };
+  const value = readStruct(reader);
+  return { value, bytesRead: reader.offset - offset };
+}
+
+export function asNumber(value: ThriftValue | undefined): number | undefined {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "bigint") {
+    return Number(value);
+  }
+  return undefined;
+}
+
+export function asBigInt(value: ThriftValue | undefined): bigint | undefined {
+  if (typeof value === "bigint") {
+    return value;
+  }
+  if (typeof value === "number") {
+    return BigInt(value);
+  }
+  return undefined;
+}
+
+export function asBoolean(value: ThriftValue | undefined): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+export function asBytes(value: ThriftValue | undefined): Uint8Array | undefined {
+  return value instanceof Uint8Array ? value : undefined;
+}
+
+export function asList(value: ThriftValue | undefined): ThriftValue[] {
+  return Array.isArray(value) ? value : [];
+}
+
+export function asStruct(value: ThriftValue | undefined): ThriftStruct | undefined {
+  if (value === undefined || typeof value !== "object") {
+    return undefined;
+  }
+  if (Array.isArray(value) || value instanceof Uint8Array) {
+    return undefined;
+  }
+  return value;
+}
+
+function readStruct(reader: ThriftReader): ThriftStruct {
+  const struct: ThriftStruct = {};
+  let lastFieldId = 0;
+
+  while (true) {
+    const header = readByte(reader);
+    const type = header & 0x0f;
+    if (type === CompactType.STOP) {
+      return struct;
+    }
+
+    const delta = header >> 4;
+    const fieldId = delta === 0 ? readZigZag(reader) : lastFieldId + delta;
+    lastFieldId = fieldId;
+    struct[`field_${fieldId}`] = readValue(reader, type);
+  }
+}
+
+function readValue(reader: ThriftReader, type: number): ThriftValue {
+  switch (type) {
+    case CompactType.TRUE:
+      return true;
+    case CompactType.FALSE:
+      return false;
+    case CompactType.BYTE:
+      return (readByte(reader) << 24) >> 24;
+    case CompactType.I16:
+    case CompactType.I32:
+      return readZigZag(reader);
+    case CompactType.I64:
+      return readZigZagBigInt(reader);
+    case CompactType.DOUBLE: {
+      const value = reader.view.getFloat64(reader.offset, true);
+      reader.offset += 8;
+      return value;
+    }
+    case CompactType.BINARY: {
+      const length = readVarInt(reader);
+      const start = reader.view.byteOffset + reader.offset;
+      if (reader.offset + length > reader.view.byteLength) {
+        throw new RangeError("thrift binary field exceeds buffer");
+      }
+      reader.offset += length;
+      return new Uint8Array(reader.view.buffer, start, length);
+    }
+    case CompactType.LIST:
+    case CompactType.SET: {
+      const header = readByte(reader);
+      const elementType = header & 0x0f;
+      const size = header >> 4 === 0x0f ? readVarInt(reader) : header >> 4;
+      const values: ThriftValue[] = [];
+      for (let index = 0; index < size; index += 1) {
+        // Booleans inside collections are encoded as a full byte.
+        values.push(
+          elementType === CompactType.TRUE || elementType === CompactType.FALSE
+            ? readByte(reader) === CompactType.TRUE
+            : readValue(reader, elementType),
+        );
+      }
+      return values;
+    }
+    case CompactType.MAP: {
+      const size = readVarInt(reader);
+      if (size === 0) {
+        return [];
+      }
+      const types = readByte(reader);
+      const entries: ThriftValue[] = [];
+      for (let index = 0; index < size; index += 1) {
+        entries.push([readValue(reader, types >> 4), readValue(reader, types & 0x0f)]);
+      }
+      return entries;
+    }
+    case CompactType.STRUCT:
+      return readStruct(reader);
+    default:
+      throw new Error(`unsupported thrift type: ${type}`);
+  }
+}
+
+function readByte(reader: ThriftReader): number {
+  const value = reader.view.getUint8(reader.offset);
+  reader.offset += 1;
+  return value;
+}
+
+function readVarInt(reader: ThriftReader): number {
+  let result = 0;
+  let shift = 0;
+  while (true) {
+    const byte = readByte(reader);
+    result |= (byte & 0x7f) << shift;
+    if (!(byte & 0x80)) {
+      return result >>> 0;
+    }
+    shift += 7;
+  }
+}
+
+function readVarBigInt(reader: ThriftReader): bigint {
+  let result = 0n;
+  let shift = 0n;
+  while (true) {
+    const byte = readByte(reader);
+    result |= BigInt(byte & 0x7f) << shift;
+    if (!(byte & 0x80)) {
+      return result;
+    }
+    shift += 7n;
+  }
+}
+
+function readZigZag(reader: ThriftReader): number {
+  const value = readVarInt(reader);
+  return (value >>> 1) ^ -(value & 1);
+}
+
+function readZigZagBigInt(reader: ThriftReader): bigint {
+  const value = readVarBigInt(reader);
+  return (value >> 1n) ^ -(value & 1n);
+}
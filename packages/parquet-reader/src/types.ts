@@ -1,3 +1,5 @@
+import type { ColumnChunk, ColumnMetaData, FileMetaData, RowGroup, Statistics } from "hyparquet";
+
 export type ParquetRow = Record<string, unknown>;
 
 export type ParquetReadOptions = {
@@ -8,12 +10,65 @@ export type ParquetReadOptions = {
   offset?: number;
   batchSize?: number;
   rowGroups?: number[];
+  /**
+   * Return the last `tail` rows of the selection instead of applying `offset`/`limit`.
+   * Without a filter the footer row counts locate the window, so only the covering
+   * row groups are read.
+   */
+  tail?: number;
+  /**
+   * Only return rows matching this predicate. Row groups whose statistics rule out
+   * a match are skipped. `rowStart`/`rowEnd` bound the rows scanned, while
+   * `offset`/`limit` apply to the matching rows.
+   */
+  filter?: ParquetFilter;
 };
 
+export type ParquetFilterValue = bigint | boolean | number | string | Date | Uint8Array | null;
+
+export type ParquetComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type ParquetFilter =
+  | { op: ParquetComparisonOperator; column: string; value: ParquetFilterValue }
+  | { op: "in" | "not in"; column: string; values: ParquetFilterValue[] }
+  | { op: "is null" | "is not null"; column: string }
+  | { op: "and" | "or"; filters: ParquetFilter[] };
+
 export type ParquetColumn = {
   name: string;
+  /** Display type, including logical type parameters (e.g. `DECIMAL(18,4)`). */
   type: string;
   path?: string[];
+  logicalType?: ParquetLogicalType;
+};
+
+export type ParquetRepetition = "REQUIRED" | "OPTIONAL" | "REPEATED";
+
+export type ParquetLogicalType = {
+  type: string;
+  precision?: number;
+  scale?: number;
+  unit?: "MILLIS" | "MICROS" | "NANOS";
+  isAdjustedToUTC?: boolean;
+  bitWidth?: number;
+  isSigned?: boolean;
+};
+
+export type ParquetSchemaNode = {
+  name: string;
+  path: string[];
+  /** Logical or converted type when present, otherwise the physical type or GROUP. */
+  type: string;
+  repetition?: ParquetRepetition;
+  /** Physical type; only set on leaf (primitive) nodes. */
+  physicalType?: string;
+  typeLength?: number;
+  convertedType?: string;
+  logicalType?: ParquetLogicalType;
+  fieldId?: number;
+  maxDefinitionLevel: number;
+  maxRepetitionLevel: number;
+  children: ParquetSchemaNode[];
 };
 
 export type ParquetByteRange = {
@@ -22,14 +77,97 @@ export type ParquetByteRange = {
   end: bigint;
 };
 
+export type ParquetStatisticsValue = bigint | boolean | number | string | Date | Uint8Array;
+
+/** A footer statistics value before decoding: BYTE_ARRAY and FIXED_LEN_BYTE_ARRAY decimals stay bytes. */
+export type ParquetRawStatisticsValue = bigint | boolean | number | Date | Uint8Array;
+
+export type ParquetRawStatistics = Omit<Statistics, "max" | "min" | "max_value" | "min_value"> & {
+  max?: ParquetRawStatisticsValue;
+  min?: ParquetRawStatisticsValue;
+  max_value?: ParquetRawStatisticsValue;
+  min_value?: ParquetRawStatisticsValue;
+};
+
+/** The footer as decoded by hyparquet, with statistics typed as `readRawMetadata` returns them. */
+export type ParquetRawMetadata = Omit<FileMetaData, "row_groups"> & {
+  row_groups: (Omit<RowGroup, "columns"> & {
+    columns: (Omit<ColumnChunk, "meta_data"> & {
+      meta_data?: Omit<ColumnMetaData, "statistics"> & { statistics?: ParquetRawStatistics };
+    })[];
+  })[];
+};
+
+export type ParquetColumnStatistics = {
+  min?: ParquetStatisticsValue;
+  max?: ParquetStatisticsValue;
+  nullCount?: bigint;
+  distinctCount?: bigint;
+  isMinExact?: boolean;
+  isMaxExact?: boolean;
+  /** min/max were read from the deprecated `min`/`max` footer fields. */
+  legacy: boolean;
+};
+
 export type ParquetColumnChunkLayout = {
   name: string;
   path: string[];
   bytes: bigint;
   compression?: string;
+  numValues?: bigint;
+  statistics?: ParquetColumnStatistics;
   totalRange: ParquetByteRange;
   dictionaryRange?: ParquetByteRange;
   dataRange: ParquetByteRange;
+  columnIndexRange?: ParquetByteRange;
+  offsetIndexRange?: ParquetByteRange;
+};
+
+export type ParquetPageLayout = {
+  index: number;
+  type: string;
+  /** Header plus compressed page body. */
+  range: ParquetByteRange;
+  headerBytes: bigint;
+  compressedBytes: bigint;
+  uncompressedBytes: bigint;
+  encoding?: string;
+  numValues?: number;
+  numNulls?: number;
+  numRows?: number;
+  /** First row of the page within its row group, from the OffsetIndex. */
+  firstRowIndex?: bigint;
+  statistics?: ParquetColumnStatistics;
+};
+
+export type ParquetColumnIndexEntry = {
+  nullPage: boolean;
+  min?: ParquetStatisticsValue;
+  max?: ParquetStatisticsValue;
+  nullCount?: bigint;
+};
+
+export type ParquetColumnIndex = {
+  boundaryOrder: string;
+  pages: ParquetColumnIndexEntry[];
+};
+
+export type ParquetPageLocation = {
+  offset: bigint;
+  compressedBytes: bigint;
+  firstRowIndex: bigint;
+};
+
+export type ParquetOffsetIndex = {
+  pages: ParquetPageLocation[];
+};
+
+export type ParquetColumnChunkPages = {
+  rowGroup: number;
+  column: string;
+  pages: ParquetPageLayout[];
+  columnIndex?: ParquetColumnIndex;
+  offsetIndex?: ParquetOffsetIndex;
 };
 
 export type ParquetRowGroupLayout = {
@@ -49,6 +187,8 @@ export type ParquetMetadata = {
   keyValueMetadata: Record<string, string>;
   rowCount?: number | bigint;
   columns: ParquetColumn[];
+  /** Top-level schema fields, with nested groups expanded recursively. */
+  schema: ParquetSchemaNode[];
   layout?: ParquetLayout;
 };
 
@@ -1,9 +1,5 @@
-import { readFileSync, rmSync } from "node:fs";
 import { randomUUID } from "node:crypto";
-import { spawnSync } from "node:child_process";
-import { Buffer } from "node:buffer";
 import { createRequire as nodeCreateRequire } from "node:module";
-import { tmpdir } from "node:os";
 import path from "node:path";
 
 import type { Table } from "apache-arrow";
@@ -28,11 +24,34 @@ import {
   type TempParquetFile,
 } from "@parquetlens/parquet-reader";
 
-type SqlParquetSource = {
-  runSql: (query: string) => Promise<ParquetRow[]>;
+import { createSyncHttpClient, type HttpRange, type HttpResponse } from "./sync-http.js";
+
+/**
+ * A connection with the file registered as the `data` view, plus a view per
+ * extra table. Queries share the connection, so temp tables and settings from
+ * one query are visible to the next; each session has its own views.
+ */
+export type SqlSession = {
+  query: (sql: string) => Promise<ParquetRow[]>;
+  /**
+   * `data` as a `read_parquet` call with an extra `file_row_number` column, for
+   * queries that need the rows in file order.
+   */
+  numberedData: string;
   close: () => Promise<void>;
 };
 
+/** Another local file or URL, queried as the view `name` next to `data`. */
+export type SqlTable = {
+  name: string;
+  input: string;
+};
+
+type RegisteredView = {
+  name: string;
+  fileName: string;
+};
+
 let duckDbPromise: Promise<DuckDBBindings> | null = null;
 let httpRuntimePatched = false;
 
@@ -41,7 +60,28 @@ type HttpBuffer = {
   size: number;
 };
 
+type HttpFileInfo = {
+  /** Known when the server answered a range probe. */
+  size?: number;
+  /** Seconds since the epoch, from the Last-Modified header. */
+  lastModified?: number;
+};
+
+/**
+ * What a session learned about the URLs it read. Probes are recorded so opening
+ * a URL that DuckDB has just checked or globbed costs no further request.
+ */
+type HttpFileCache = {
+  files: Map<string, HttpFileInfo>;
+  /** Reported as the modification time of files without a Last-Modified header. */
+  openedAt: number;
+};
+
 const httpBuffers = new Map<number, HttpBuffer>();
+const httpClient = createSyncHttpClient();
+// Queries run synchronously, so the file hooks see the cache of the session
+// whose query is running.
+let activeHttpFiles: HttpFileCache | null = null;
 
 type WasmModule = DuckDBModule & {
   HEAPU8: Uint8Array;
@@ -50,55 +90,125 @@ type WasmModule = DuckDBModule & {
   _free: (ptr: number) => void;
 };
 
-export async function runSqlOnParquet(input: string, query: string): Promise<ParquetRow[]> {
-  const source = await openParquetSource(input);
+/**
+ * The runtime hooks replaced for HTTP files, typed as the wasm module calls
+ * them. `openFile` returns a pointer to the file's size and data, which the
+ * published runtime type declares as `void`.
+ */
+type HttpRuntimeHooks = {
+  openFile(mod: WasmModule, fileId: number, flags: FileFlags): number | void;
+  readFile(
+    mod: WasmModule,
+    fileId: number,
+    buffer: number,
+    bytes: number,
+    location: number,
+  ): number;
+};
+
+export async function runSqlOnParquet(
+  input: string,
+  query: string,
+  tables: SqlTable[] = [],
+): Promise<ParquetRow[]> {
+  const session = await openSqlSession(input, tables);
 
   try {
-    return await source.runSql(query);
+    return await session.query(query);
   } finally {
-    await source.close();
+    await session.close();
   }
 }
 
 export async function runSqlOnParquetFromStdin(
   query: string,
   filenameHint = "stdin.parquet",
+  tables: SqlTable[] = [],
 ): Promise<ParquetRow[]> {
-  const temp = await bufferStdinToTempFile(filenameHint);
+  const session = await openSqlSessionFromStdin(filenameHint, tables);
+
   try {
-    return await runSqlOnParquet(temp.path, query);
+    return await session.query(query);
   } finally {
-    await temp.cleanup();
+    await session.close();
   }
 }
 
-async function openParquetSource(input: string): Promise<SqlParquetSource> {
-  const resolved = resolveParquetUrl(input);
-  if (resolved) {
-    return openParquetSourceFromUrl(resolved.url);
+/**
+ * Open a session over `input` as `data` and each of `tables` under its own
+ * name. Table names must be unique and may not be `data`; any of the inputs
+ * may be a local path or a URL.
+ */
+export async function openSqlSession(input: string, tables: SqlTable[] = []): Promise<SqlSession> {
+  const seen = new Set<string>();
+  for (const table of tables) {
+    // DuckDB resolves unquoted names case-insensitively.
+    const key = table.name.toLowerCase();
+    if (key === "data") {
+      throw new Error('table name "data" is reserved for the main input');
+    }
+    if (table.name === "" || seen.has(key)) {
+      throw new Error(`duplicate or empty table name: ${table.name}`);
+    }
+    seen.add(key);
   }
 
-  return openParquetSourceFromPath(input);
-}
-
-async function openParquetSourceFromPath(filePath: string): Promise<SqlParquetSource> {
   const db = await getDuckDb();
-  const conn = db.connect();
-  const fileName = buildDuckDbFileName(filePath);
+  const views: RegisteredView[] = [];
+  try {
+    for (const source of [{ name: "data", input }, ...tables]) {
+      views.push({ name: source.name, fileName: registerInput(db, source.input) });
+    }
+  } catch (error) {
+    for (const view of views) {
+      db.dropFile(view.fileName);
+    }
+    throw error;
+  }
 
-  db.registerFileURL(fileName, filePath, DuckDBDataProtocol.NODE_FS, true);
+  return createParquetSource(db, db.connect(), views);
+}
 
-  return createParquetSource(db, conn, fileName);
+/** Buffers stdin to a temp file, which is removed when the session closes. */
+export async function openSqlSessionFromStdin(
+  filenameHint = "stdin.parquet",
+  tables: SqlTable[] = [],
+): Promise<SqlSession> {
+  const temp = await bufferStdinToTempFile(filenameHint);
+  let session: SqlSession;
+  try {
+    session = await openSqlSession(temp.path, tables);
+  } catch (error) {
+    await temp.cleanup();
+    throw error;
+  }
+
+  return {
+    ...session,
+    close: async () => {
+      try {
+        await session.close();
+      } finally {
+        await temp.cleanup();
+      }
+    },
+  };
 }
 
-async function openParquetSourceFromUrl(url: string): Promise<SqlParquetSource> {
-  const db = await getDuckDb();
-  const conn = db.connect();
-  const fileName = buildDuckDbFileName(url);
+/** Register a path or URL with DuckDB under a fresh file name and return that name. */
+function registerInput(db: DuckDBBindings, input: string): string {
+  const resolved = resolveParquetUrl(input);
+  const location = resolved ? resolved.url : input;
+  const fileName = buildDuckDbFileName(location);
 
-  db.registerFileURL(fileName, url, DuckDBDataProtocol.HTTP, true);
+  db.registerFileURL(
+    fileName,
+    location,
+    resolved ? DuckDBDataProtocol.HTTP : DuckDBDataProtocol.NODE_FS,
+    true,
+  );
 
-  return createParquetSource(db, conn, fileName);
+  return fileName;
 }
 
 async function getDuckDb(): Promise<DuckDBBindings> {
@@ -146,27 +256,18 @@ function ensureHttpRuntimeSupport(): void {
   }
   httpRuntimePatched = true;
 
-  const nodeOpenFile = NODE_RUNTIME.openFile as unknown as (
-    mod: WasmModule,
-    fileId: number,
-    flags: FileFlags,
-  ) => number;
-  const nodeReadFile = NODE_RUNTIME.readFile as unknown as (
-    mod: WasmModule,
-    fileId: number,
-    buffer: number,
-    bytes: number,
-    location: number,
-  ) => number;
+  const runtime: HttpRuntimeHooks = NODE_RUNTIME;
+  const nodeOpenFile = runtime.openFile.bind(NODE_RUNTIME);
+  const nodeReadFile = runtime.readFile.bind(NODE_RUNTIME);
   const nodeCheckFile = NODE_RUNTIME.checkFile.bind(NODE_RUNTIME);
   const nodeGlob = NODE_RUNTIME.glob.bind(NODE_RUNTIME);
   const nodeCloseFile = NODE_RUNTIME.closeFile.bind(NODE_RUNTIME);
   const nodeGetLastModified = NODE_RUNTIME.getLastFileModificationTime.bind(NODE_RUNTIME);
 
-  NODE_RUNTIME.openFile = (mod: WasmModule, fileId: number, flags: FileFlags): number => {
+  runtime.openFile = (mod: WasmModule, fileId: number, flags: FileFlags): number => {
     const file = NODE_RUNTIME.resolveFileInfo(mod, fileId);
     if (!file || file.dataProtocol !== DuckDBDataProtocol.HTTP) {
-      return nodeOpenFile(mod, fileId, flags);
+      return nodeOpenFile(mod, fileId, flags) ?? 0;
     }
 
     if (flags & FileFlags.FILE_FLAGS_WRITE || flags & FileFlags.FILE_FLAGS_APPEND) {
@@ -188,15 +289,16 @@ function ensureHttpRuntimeSupport(): void {
     const forceFull = file.forceFullHttpReads ?? false;
 
     if (!forceFull) {
+      const knownSize = activeHttpFiles?.files.get(file.dataUrl)?.size;
+      if (knownSize !== undefined) {
+        return buildOpenResult(mod, knownSize, 0);
+      }
+
       try {
-        const probe = requestHttpRange(file.dataUrl, 0, 0);
-        if (probe.status === 206) {
-          const total =
-            parseContentRangeTotal(probe.headers["content-range"]) ??
-            parseContentLength(probe.headers["content-length"]);
-          if (total !== null) {
-            return buildOpenResult(mod, total, 0);
-          }
+        const probe = probeHttpFile(file.dataUrl);
+        const total = probe.info.size;
+        if (total !== undefined) {
+          return buildOpenResult(mod, total, 0);
         }
 
         if (probe.status === 200 && allowFull) {
@@ -230,7 +332,7 @@ function ensureHttpRuntimeSupport(): void {
     return 0;
   };
 
-  NODE_RUNTIME.readFile = (
+  runtime.readFile = (
     mod: WasmModule,
     fileId: number,
     buffer: number,
@@ -264,7 +366,10 @@ function ensureHttpRuntimeSupport(): void {
     }
 
     try {
-      const response = requestHttpRange(file.dataUrl, location, location + bytes - 1);
+      const response = requestHttp(file.dataUrl, {
+        start: location,
+        end: location + bytes - 1,
+      });
       if (response.status === 206 || (response.status === 200 && location === 0)) {
         const length = Math.min(bytes, response.bytes.length);
         if (length > 0) {
@@ -284,8 +389,7 @@ function ensureHttpRuntimeSupport(): void {
   NODE_RUNTIME.checkFile = (mod: DuckDBModule, pathPtr: number, pathLen: number): boolean => {
     const path = readString(mod, pathPtr, pathLen);
     if (isHttpUrl(path)) {
-      const response = requestHttpHead(path);
-      return response.status === 200 || response.status === 206;
+      return httpFileExists(path);
     }
     return nodeCheckFile(mod, pathPtr, pathLen);
   };
@@ -293,8 +397,7 @@ function ensureHttpRuntimeSupport(): void {
   NODE_RUNTIME.glob = (mod: DuckDBModule, pathPtr: number, pathLen: number): void => {
     const path = readString(mod, pathPtr, pathLen);
     if (isHttpUrl(path)) {
-      const response = requestHttpHead(path);
-      if (response.status === 200 || response.status === 206) {
+      if (httpFileExists(path)) {
         mod.ccall("duckdb_web_fs_glob_add_path", null, ["string"], [path]);
       }
       return;
@@ -317,7 +420,9 @@ function ensureHttpRuntimeSupport(): void {
   NODE_RUNTIME.getLastFileModificationTime = (mod: DuckDBModule, fileId: number): number => {
     const file = NODE_RUNTIME.resolveFileInfo(mod, fileId);
     if (file?.dataProtocol === DuckDBDataProtocol.HTTP) {
-      return Date.now() / 1000;
+      // A time that changed on every call would defeat DuckDB's metadata cache.
+      const info = file.dataUrl ? activeHttpFiles?.files.get(file.dataUrl) : undefined;
+      return info?.lastModified ?? activeHttpFiles?.openedAt ?? 0;
     }
     return nodeGetLastModified(mod, fileId);
   };
@@ -360,101 +465,97 @@ function parseContentLength(contentLength: string | null): number | null {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
-type HttpResponse = {
-  status: number;
-  bytes: Uint8Array;
-  headers: Record<string, string>;
-};
-
-function requestHttp(url: string): HttpResponse {
-  return requestCurl([url]);
-}
-
-function requestHttpHead(url: string): HttpResponse {
-  return requestCurl(["-I", url]);
+function requestHttp(url: string, range?: HttpRange): HttpResponse {
+  return httpClient.get(url, range);
 }
 
-function requestHttpRange(url: string, start: number, end: number): HttpResponse {
-  return requestCurl(["-r", `${start}-${end}`, url]);
-}
-
-function requestCurl(args: string[]): HttpResponse {
-  const tempPath = path.join(tmpdir(), `parquetlens-http-${randomUUID()}`);
-  try {
-    const result = spawnSync("curl", ["-sS", "-L", "-D", "-", "-o", tempPath, ...args], {
-      encoding: "buffer",
-      maxBuffer: 4 * 1024 * 1024,
-    });
-
-    if (result.error) {
-      if ((result.error as NodeJS.ErrnoException).code === "ENOENT") {
-        throw new Error("curl not found (required for HTTP range reads)");
-      }
-      throw result.error;
-    }
-    if (result.status !== 0) {
-      const stderr = result.stderr?.toString("utf8").trim();
-      throw new Error(stderr || "curl failed");
-    }
-
-    const body = readFileSync(tempPath);
-    return parseCurlResponse(Buffer.from(result.stdout ?? []), body);
-  } finally {
-    rmSync(tempPath, { force: true });
+/**
+ * Request the first byte of `url`, recording the file size when the server
+ * answers with a range. A server without range support sends the whole file.
+ */
+function probeHttpFile(url: string): HttpResponse & { info: HttpFileInfo } {
+  const probe = requestHttp(url, { start: 0, end: 0 });
+  const info: HttpFileInfo = {};
+  if (probe.status === 206) {
+    info.size =
+      parseContentRangeTotal(probe.headers["content-range"]) ??
+      parseContentLength(probe.headers["content-length"]) ??
+      undefined;
   }
+  const lastModified = Date.parse(probe.headers["last-modified"] ?? "");
+  if (!Number.isNaN(lastModified)) {
+    info.lastModified = lastModified / 1000;
+  }
+  if (probe.status === 200 || probe.status === 206) {
+    activeHttpFiles?.files.set(url, info);
+  }
+  return { ...probe, info };
 }
 
-function parseCurlResponse(headersBuffer: Buffer, body: Buffer): HttpResponse {
-  const headerBlob = headersBuffer.toString("latin1");
-  const blocks = headerBlob.split(/\r\n\r\n/).filter(Boolean);
-  const lastBlock = blocks[blocks.length - 1] ?? "";
-  const lines = lastBlock.split(/\r\n/).filter(Boolean);
-  const statusLine = lines.shift() ?? "";
-  const statusToken = statusLine.split(" ")[1] ?? "";
-  const status = Number.parseInt(statusToken, 10);
-  const headers: Record<string, string> = {};
-
-  for (const line of lines) {
-    const index = line.indexOf(":");
-    if (index === -1) {
-      continue;
-    }
-    const key = line.slice(0, index).trim().toLowerCase();
-    const value = line.slice(index + 1).trim();
-    headers[key] = value;
+function httpFileExists(url: string): boolean {
+  if (activeHttpFiles?.files.has(url)) {
+    return true;
+  }
+  try {
+    const probe = probeHttpFile(url);
+    return probe.status === 200 || probe.status === 206;
+  } catch {
+    return false;
   }
-
-  return {
-    status: Number.isFinite(status) ? status : 0,
-    bytes: new Uint8Array(body),
-    headers,
-  };
 }
 
 function createParquetSource(
   db: DuckDBBindings,
   conn: DuckDBConnection,
-  fileName: string,
-): SqlParquetSource {
-  let viewCreated = false;
-
-  const ensureDataView = () => {
-    if (!viewCreated) {
-      conn.query(
-        `CREATE OR REPLACE VIEW data AS SELECT * FROM read_parquet(${quoteLiteral(fileName)})`,
-      );
-      viewCreated = true;
+  views: RegisteredView[],
+): SqlSession {
+  let viewsCreated = false;
+  let closed = false;
+  const httpFiles: HttpFileCache = { files: new Map(), openedAt: Math.floor(Date.now() / 1000) };
+
+  const run = (sql: string) => {
+    activeHttpFiles = httpFiles;
+    try {
+      return conn.query(sql);
+    } finally {
+      activeHttpFiles = null;
+    }
+  };
+
+  // Temp views belong to the connection, so sessions on the shared database do
+  // not replace each other's `data`.
+  const ensureViews = () => {
+    if (!viewsCreated) {
+      for (const view of views) {
+        run(
+          `CREATE OR REPLACE TEMP VIEW ${quoteIdentifier(view.name)} AS ` +
+            `SELECT * FROM read_parquet(${quoteLiteral(view.fileName)})`,
+        );
+      }
+      viewsCreated = true;
     }
   };
 
+  const [data] = views;
   return {
-    runSql: async (query: string) => {
-      ensureDataView();
-      return tableToObjects(conn.query(query));
+    query: async (sql: string) => {
+      if (closed) {
+        throw new Error("sql session is closed");
+      }
+      ensureViews();
+      return tableToObjects(run(sql));
     },
+    numberedData: `read_parquet(${quoteLiteral(data.fileName)}, file_row_number = true)`,
     close: async () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
       conn.close();
-      db.dropFile(fileName);
+      httpFiles.files.clear();
+      for (const view of views) {
+        db.dropFile(view.fileName);
+      }
     },
   };
 }
@@ -468,6 +569,10 @@ function quoteLiteral(value: string): string {
   return `'${value.replace(/'/g, "''")}'`;
 }
 
+function quoteIdentifier(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
 function tableToObjects(table: Table): Record<string, unknown>[] {
   const fields = table.schema.fields.map((field) => field.name);
   const rows: Record<string, unknown>[] = [];
@@ -1 +1,8 @@
-export { runSqlOnParquet, runSqlOnParquetFromStdin } from "./engine.js";
+export {
+  openSqlSession,
+  openSqlSessionFromStdin,
+  runSqlOnParquet,
+  runSqlOnParquetFromStdin,
+  type SqlSession,
+  type SqlTable,
+} from "./engine.js";
@@ -0,0 +1,103 @@
+import { once } from "node:events";
+import { Worker } from "node:worker_threads";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { createSyncHttpClient } from "./sync-http.js";
+
+// `get` blocks the calling thread, so the server runs on a worker of its own.
+const SERVER_SOURCE = `
+const { createServer } = require("node:http");
+const { parentPort } = require("node:worker_threads");
+const body = Buffer.from("0123456789");
+
+const server = createServer((request, response) => {
+  const match = /^bytes=(\\d+)-(\\d+)$/.exec(request.headers.range ?? "");
+  if (request.url === "/file" && match) {
+    const start = Number(match[1]);
+    const end = Math.min(Number(match[2]), body.length - 1);
+    response.writeHead(206, { "content-range": "bytes " + start + "-" + end + "/" + body.length });
+    response.end(body.subarray(start, end + 1));
+  } else if (request.url === "/file" || request.url === "/no-ranges") {
+    response.writeHead(200, { "last-modified": "Tue, 01 Oct 2024 00:00:00 GMT" });
+    response.end(body);
+  } else if (request.url === "/hang") {
+    // Never answers; the client has to give up.
+  } else {
+    response.writeHead(404);
+    response.end("not found");
+  }
+});
+server.listen(0, "127.0.0.1", () => parentPort.postMessage(server.address().port));
+`;
+
+describe("createSyncHttpClient", () => {
+  let server: Worker;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = new Worker(SERVER_SOURCE, { eval: true });
+    const [port] = (await once(server, "message")) as [number];
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await server.terminate();
+  });
+
+  it("sends the range and returns the partial content with its headers", () => {
+    const client = createSyncHttpClient();
+    try {
+      const response = client.get(`${baseUrl}/file`, { start: 2, end: 5 });
+
+      expect(response.status).toBe(206);
+      expect(Buffer.from(response.bytes).toString()).toBe("2345");
+      expect(response.headers["content-range"]).toBe("bytes 2-5/10");
+    } finally {
+      client.close();
+    }
+  });
+
+  it("returns the whole body when the server answers a range request with 200", () => {
+    const client = createSyncHttpClient();
+    try {
+      const response = client.get(`${baseUrl}/no-ranges`, { start: 0, end: 0 });
+
+      expect(response.status).toBe(200);
+      expect(Buffer.from(response.bytes).toString()).toBe("0123456789");
+      expect(response.headers["last-modified"]).toBe("Tue, 01 Oct 2024 00:00:00 GMT");
+    } finally {
+      client.close();
+    }
+  });
+
+  it("returns error statuses and throws when the request cannot be made", () => {
+    const client = createSyncHttpClient();
+    try {
+      const response = client.get(`${baseUrl}/missing`);
+
+      expect(response.status).toBe(404);
+      expect(Buffer.from(response.bytes).toString()).toBe("not found");
+      expect(() => client.get("http://127.0.0.1:1/file")).toThrow(
+        /^HTTP request failed: http:\/\/127\.0\.0\.1:1\/file: /,
+      );
+    } finally {
+      client.close();
+    }
+  });
+
+  it("gives up on a request that takes too long and serves the next one", () => {
+    const client = createSyncHttpClient({ waitTimeoutMs: 200 });
+    try {
+      expect(() => client.get(`${baseUrl}/hang`)).toThrow(
+        `HTTP request timed out: ${baseUrl}/hang`,
+      );
+
+      const response = client.get(`${baseUrl}/file`, { start: 0, end: 0 });
+      expect(response.status).toBe(206);
+      expect(Buffer.from(response.bytes).toString()).toBe("0");
+    } finally {
+      client.close();
+    }
+  });
+});
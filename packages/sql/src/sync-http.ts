@@ -0,0 +1,144 @@
+import {
+  MessageChannel,
+  receiveMessageOnPort,
+  Worker,
+  type MessagePort,
+} from "node:worker_threads";
+
+export type HttpResponse = {
+  status: number;
+  bytes: Uint8Array;
+  /** Header names are lowercase. */
+  headers: Record<string, string>;
+};
+
+/** Inclusive byte range, as in an HTTP `Range` header. */
+export type HttpRange = {
+  start: number;
+  end: number;
+};
+
+/**
+ * Blocking HTTP GET for DuckDB's synchronous file system callbacks. Requests
+ * run on a worker thread while the caller waits on a shared flag, so no
+ * process is spawned per read.
+ */
+export type SyncHttpClient = {
+  get: (url: string, range?: HttpRange) => HttpResponse;
+  close: () => void;
+};
+
+export type SyncHttpClientOptions = {
+  /** The worker aborts a request after this long. */
+  requestTimeoutMs?: number;
+  /**
+   * How long `get` blocks before giving up on the worker and starting a new
+   * one. Defaults to a little longer than the request timeout, so the worker
+   * gets to report that instead.
+   */
+  waitTimeoutMs?: number;
+};
+
+type WorkerReply =
+  | { status: number; headers: Record<string, string>; body: ArrayBuffer }
+  | { error: string };
+
+const REQUEST_TIMEOUT_MS = 60_000;
+const WAIT_MARGIN_MS = 5_000;
+
+// Plain CommonJS so it runs with `eval: true` from both the bundle and the
+// sources. fetch pools keep-alive connections per origin, so consecutive range
+// reads of one file reuse a socket.
+const WORKER_SOURCE = `
+const { workerData } = require("node:worker_threads");
+const { port, flag, timeoutMs } = workerData;
+const state = new Int32Array(flag);
+
+function describe(error) {
+  const cause = error && error.cause;
+  if (cause) {
+    return cause.message || String(cause);
+  }
+  return (error && error.message) || String(error);
+}
+
+port.on("message", async ({ url, range }) => {
+  let reply;
+  try {
+    const headers = range ? { range: "bytes=" + range.start + "-" + range.end } : {};
+    const response = await fetch(url, {
+      headers,
+      redirect: "follow",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const body = await response.arrayBuffer();
+    reply = { status: response.status, headers: Object.fromEntries(response.headers), body };
+  } catch (error) {
+    reply = { error: describe(error) };
+  }
+  port.postMessage(reply, reply.body ? [reply.body] : []);
+  Atomics.store(state, 0, 1);
+  Atomics.notify(state, 0);
+});
+`;
+
+export function createSyncHttpClient(options: SyncHttpClientOptions = {}): SyncHttpClient {
+  const requestTimeoutMs = options.requestTimeoutMs ?? REQUEST_TIMEOUT_MS;
+  const waitTimeoutMs = options.waitTimeoutMs ?? requestTimeoutMs + WAIT_MARGIN_MS;
+  let worker: Worker | null = null;
+  let port: MessagePort | null = null;
+  let state: Int32Array | null = null;
+
+  const start = (): { port: MessagePort; state: Int32Array } => {
+    if (port && state) {
+      return { port, state };
+    }
+    // Each worker gets its own flag, so one terminated mid-request cannot wake
+    // the caller of its replacement.
+    const flag = new SharedArrayBuffer(4);
+    const channel = new MessageChannel();
+    worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { port: channel.port2, flag, timeoutMs: requestTimeoutMs },
+      transferList: [channel.port2],
+    });
+    // Neither the idle worker nor its port should keep the process alive.
+    worker.unref();
+    channel.port1.unref();
+    port = channel.port1;
+    state = new Int32Array(flag);
+    return { port, state };
+  };
+
+  const close = () => {
+    port?.close();
+    void worker?.terminate();
+    port = null;
+    state = null;
+    worker = null;
+  };
+
+  return {
+    get: (url, range) => {
+      const { port: requests, state: done } = start();
+      Atomics.store(done, 0, 0);
+      requests.postMessage({ url, range });
+      if (Atomics.wait(done, 0, 0, waitTimeoutMs) === "timed-out") {
+        // A late reply would be taken for the next request's; start over.
+        close();
+        throw new Error(`HTTP request timed out: ${url}`);
+      }
+
+      const message = receiveMessageOnPort(requests);
+      if (!message) {
+        throw new Error(`HTTP request failed: ${url}: no response from worker`);
+      }
+      const reply = message.message as WorkerReply;
+      if ("error" in reply) {
+        throw new Error(`HTTP request failed: ${url}: ${reply.error}`);
+      }
+      return { status: reply.status, bytes: new Uint8Array(reply.body), headers: reply.headers };
+    },
+    close,
+  };
+}